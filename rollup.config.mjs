@@ -58,6 +58,8 @@ export default [
       "express",
       "http",
       "net",
+      "crypto",
+      "events",
       "ws",
     ],
     plugins: [
@@ -68,6 +70,36 @@ export default [
     ],
   },
 
+  {
+    input: "src/client.ts",
+    output: [
+      {
+        file: "dist/ts-websocket-client.cjs.js",
+        format: "cjs",
+        sourcemap: true,
+        banner
+      },
+      {
+        file: "dist/ts-websocket-client.esm.js",
+        format: "esm",
+        sourcemap: true,
+        banner
+      },
+    ],
+    plugins: [
+      resolve(),
+      commonjs(),
+      json(),
+      typescript({ tsconfig: "./tsconfig.json" }),
+    ],
+  },
+
+  {
+    input: "./dist/client.d.ts",
+    output: [{ file: "dist/ts-websocket-client.d.ts", format: "es" }],
+    plugins: [dts(``)],
+  },
+
   {
     input: "./dist/index.d.ts",
     output: [{ file: "dist/ts-websocket.d.ts", format: "es" }],
@@ -80,6 +112,7 @@ export default [
           "!dist/*.map",
           "!dist/types/**/*",
           "!dist/ts-websocket.d.ts",
+          "!dist/ts-websocket-client.d.ts",
         ],
         hook: "buildEnd",
       }),
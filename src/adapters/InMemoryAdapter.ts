@@ -0,0 +1,72 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+
+import { IAdapter, IAdapterPacket } from '../interfaces/IAdapter';
+
+/**
+ * InMemoryAdapter: An adapter forwarding messages between instances in the same process.
+ *
+ * Instances constructed with the same `bus` exchange packets with each other; an instance
+ * constructed without one is isolated. It is intended for tests and local development of
+ * multi-instance setups.
+ *
+ * ## Responsibilities:
+ * - Emit published packets on the shared bus, tagged with the publishing instance's id.
+ * - Hand packets from other instances to the subscribed handler.
+ */
+export class InMemoryAdapter implements IAdapter {
+     /**
+      *
+      * @private
+      * @type {string}
+      * @memberof InMemoryAdapter
+      */
+     private nodeId: string = randomUUID();
+
+     /**
+      *
+      * @private
+      * @memberof InMemoryAdapter
+      */
+     private listener?: (envelope: { nodeId: string; packet: IAdapterPacket }) => void;
+
+     /**
+      * Creates a new instance of the InMemoryAdapter class.
+      *
+      * @param {EventEmitter} [bus] - The bus shared by the instances that should exchange packets.
+      */
+     constructor(private bus: EventEmitter = new EventEmitter()) { }
+
+     /**
+      * Sends a packet to the other instances on the bus.
+      *
+      * @param {IAdapterPacket} packet - The packet to publish.
+      */
+     publish(packet: IAdapterPacket): void {
+          this.bus.emit('packet', { nodeId: this.nodeId, packet });
+     }
+
+     /**
+      * Registers the handler for packets published by the other instances on the bus.
+      *
+      * @param {Function} handler - Invoked with each packet received from another instance.
+      */
+     subscribe(handler: (packet: IAdapterPacket) => void): void {
+          this.listener = ({ nodeId, packet }) => {
+               if (nodeId !== this.nodeId) {
+                    handler(packet);
+               }
+          };
+          this.bus.on('packet', this.listener);
+     }
+
+     /**
+      * Stops receiving packets from the bus.
+      */
+     close(): void {
+          if (this.listener) {
+               this.bus.off('packet', this.listener);
+               this.listener = undefined;
+          }
+     }
+}
@@ -0,0 +1,89 @@
+import { randomUUID } from 'crypto';
+
+import { IAdapter, IAdapterPacket, IPubSubClient } from '../interfaces/IAdapter';
+import { JsonCodec } from '../codecs/JsonCodec';
+
+/**
+ * PubSubAdapter: An adapter forwarding messages between instances through a pub/sub broker.
+ *
+ * Packets are serialized as JSON, with binary content encoded as base64, and published on a
+ * single channel, tagged with the id of the publishing instance so that each instance can ignore
+ * its own packets. The broker is accessed through an `IPubSubClient`, so any channel-based broker
+ * can back the adapter.
+ *
+ * ## Dependencies:
+ * - **IPubSubClient**: The broker client used to publish and subscribe.
+ *
+ * ## Responsibilities:
+ * - Serialize published packets and deserialize received ones, dropping those that cannot be read.
+ * - Hand packets from other instances to the subscribed handler.
+ */
+export class PubSubAdapter implements IAdapter {
+     /**
+      *
+      * @private
+      * @type {string}
+      * @memberof PubSubAdapter
+      */
+     private nodeId: string = randomUUID();
+
+     /**
+      *
+      * @private
+      * @type {JsonCodec}
+      * @memberof PubSubAdapter
+      */
+     private codec: JsonCodec = new JsonCodec();
+
+     /**
+      * Creates a new instance of the PubSubAdapter class.
+      *
+      * @param {IPubSubClient} client - The broker client used to publish and subscribe.
+      * @param {string} [channel='ts-websocket'] - The channel shared by all instances.
+      */
+     constructor(private client: IPubSubClient, private channel: string = 'ts-websocket') { }
+
+     /**
+      * Publishes a packet on the channel.
+      *
+      * @param {IAdapterPacket} packet - The packet to publish.
+      */
+     async publish(packet: IAdapterPacket): Promise<void> {
+          await this.client.publish(this.channel, this.codec.encode({ nodeId: this.nodeId, packet }));
+     }
+
+     /**
+      * Subscribes to the channel and hands packets from other instances to the handler.
+      *
+      * Payloads that are not packets, for example published on the channel by another application
+      * or an incompatible version, are dropped and reported to `onError`.
+      *
+      * @param {Function} handler - Invoked with each packet received from another instance.
+      * @param {Function} [onError] - Invoked with the error of each payload that cannot be read.
+      */
+     async subscribe(handler: (packet: IAdapterPacket) => void, onError?: (error: Error) => void): Promise<void> {
+          await this.client.subscribe(this.channel, (payload: string) => {
+               let envelope: { nodeId: string; packet: IAdapterPacket };
+               try {
+                    envelope = this.codec.decode(Buffer.from(payload)) as { nodeId: string; packet: IAdapterPacket };
+                    if (typeof envelope?.packet !== 'object' || envelope.packet === null) {
+                         throw new Error('Payload is not an adapter packet');
+                    }
+               } catch (error) {
+                    onError?.(error as Error);
+                    return;
+               }
+
+               if (envelope.nodeId !== this.nodeId) {
+                    handler(envelope.packet);
+               }
+          });
+     }
+
+     /**
+      * Unsubscribes from the channel.
+      */
+     async close(): Promise<void> {
+          await this.client.unsubscribe(this.channel);
+     }
+}
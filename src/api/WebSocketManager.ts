@@ -2,15 +2,26 @@ import 'reflect-metadata';
 
 import express, { Application } from 'express';
 import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { readFileSync } from 'fs';
 import { Socket } from 'net';
 
 import { TYPES } from '../config/types';
 import { createContainer } from '../config/inversify.config';
 import { IWebSocketManager, IWebSocketManagerOptions } from '../interfaces/IWebSocketManager';
 import { ILogger } from '../interfaces/ILogger';
-import { IAuthService } from '../interfaces/IAuthService';
+import { IAuthService, IGenerateTokenOptions } from '../interfaces/IAuthService';
 import { IWebSocketService } from '../interfaces/IWebSocketService';
+import { IMessage } from '../interfaces/IMessage';
+import { IEventRouter, EventMap, EventHandler } from '../interfaces/IEventRouter';
+import { IMetricsService } from '../interfaces/IMetricsService';
+import { IMessageValidator, MessageSchema } from '../interfaces/IMessageValidator';
+import { IMiddlewareService, HandshakeMiddleware, MessageMiddleware, MiddlewareStage } from '../interfaces/IMiddleware';
+import { IPresenceService, IPresence } from '../interfaces/IPresenceService';
+import { IConnection, IConnectionStats } from '../interfaces/IConnection';
 import { WebSocketController } from '../controllers/WebSocketController';
+import { UpgradeRouter, UpgradeHandler } from '../utils/UpgradeRouter';
+import { createAdminRouter } from './createAdminRouter';
 
 /**
  * WebSocketManager: A class for managing WebSocket server and HTTP server interactions.
@@ -19,20 +30,38 @@ import { WebSocketController } from '../controllers/WebSocketController';
  * managing lifecycle hooks, and delegating WebSocket operations to the WebSocketController.
  *
  * ## Responsibilities:
- * - Initializes the HTTP server and Express application.
+ * - Initializes the HTTP or HTTPS server and Express application, or attaches to existing ones.
+ * - Serves WebSocket upgrades on a path, so that several managers can share a server.
  * - Configures WebSocket functionality and integrates WebSocketController for handling WebSocket events.
  * - Manages lifecycle hooks for WebSocket message processing.
  * - Provides methods to start, stop the server, and generate authentication tokens.
+ * - Exposes server-side room management and room-scoped broadcasting.
+ * - Sends direct messages to individual users.
+ * - Registers event handlers for typed incoming messages.
+ * - Registers payload schemas that incoming messages are validated against.
+ * - Registers handshake and message middleware.
+ * - Sends requests to clients and awaits their replies.
+ * - Optionally exposes the collected metrics on a Prometheus endpoint.
+ * - Reports which users are online, optionally over a REST endpoint.
+ * - Lists the open connections and closes them by id.
+ * - Optionally exposes an admin REST API for inspecting connections and sending messages.
  *
  * ## Dependencies:
  * - Uses `createContainer` to resolve and inject dependencies including:
  *   - `ILogger`: For logging server and WebSocket events.
  *   - `IAuthService`: For token generation and authentication.
  *   - `IWebSocketService`: For WebSocket operations.
+ *   - `IEventRouter`: For dispatching incoming messages to event handlers.
+ *   - `IMetricsService`: For rendering the collected metrics.
+ *   - `IMessageValidator`: For registering payload schemas.
+ *   - `IMiddlewareService`: For registering middleware.
+ *   - `IPresenceService`: For listing online users.
  *   - `WebSocketController`: To handle WebSocket connections and messaging.
  * - Accepts `IWebSocketManagerOptions` to customize behavior and configuration.
+ *
+ * @template TEvents - The application's event map, giving typed payloads to event handlers.
  */
-export class WebSocketManager implements IWebSocketManager {
+export class WebSocketManager<TEvents extends EventMap = EventMap> implements IWebSocketManager<TEvents> {
      /**
       *
       * @private
@@ -73,6 +102,46 @@ export class WebSocketManager implements IWebSocketManager {
       */
      private webSocketService: IWebSocketService;
 
+     /**
+      *
+      * @private
+      * @type {IEventRouter}
+      * @memberof WebSocketManager
+      */
+     private eventRouter: IEventRouter;
+
+     /**
+      *
+      * @private
+      * @type {IMetricsService}
+      * @memberof WebSocketManager
+      */
+     private metricsService: IMetricsService;
+
+     /**
+      *
+      * @private
+      * @type {IMessageValidator}
+      * @memberof WebSocketManager
+      */
+     private messageValidator: IMessageValidator;
+
+     /**
+      *
+      * @private
+      * @type {IMiddlewareService}
+      * @memberof WebSocketManager
+      */
+     private middlewareService: IMiddlewareService;
+
+     /**
+      *
+      * @private
+      * @type {IPresenceService}
+      * @memberof WebSocketManager
+      */
+     private presenceService: IPresenceService;
+
      /**
       *
       * @private
@@ -89,6 +158,42 @@ export class WebSocketManager implements IWebSocketManager {
       */
      private port: number;
 
+     /**
+      * Whether the manager created the server, and therefore starts and closes it.
+      *
+      * @private
+      * @type {boolean}
+      * @memberof WebSocketManager
+      */
+     private ownsServer: boolean;
+
+     /**
+      * The handler of the upgrade requests of the manager's path, while it is attached.
+      *
+      * @private
+      * @type {UpgradeHandler}
+      * @memberof WebSocketManager
+      */
+     private upgradeHandler?: UpgradeHandler;
+
+     /**
+      * The pending graceful shutdown, once `stop()` has been called.
+      *
+      * @private
+      * @type {Promise<void>}
+      * @memberof WebSocketManager
+      */
+     private stopping?: Promise<void>;
+
+     /**
+      * The listeners installed for the configured process signals.
+      *
+      * @private
+      * @type {Map<NodeJS.Signals, () => void>}
+      * @memberof WebSocketManager
+      */
+     private signalListeners: Map<NodeJS.Signals, () => void> = new Map();
+
      /**
       * Constructor: Initializes the WebSocketManager with provided options.
       *
@@ -103,22 +208,53 @@ export class WebSocketManager implements IWebSocketManager {
                hooks: {
                     beforeSend: options.beforeSend,
                     afterSend: options.afterSend,
+                    onConnect: options.onConnect,
+                    onDisconnect: options.onDisconnect,
                },
                enableLogging: options.enableLogging ?? true,
+               logging: options.logging,
                setupRoutes: options.setupRoutes,
                onMessage: options.onMessage,
+               requestTimeout: options.requestTimeout,
+               heartbeat: options.heartbeat,
+               adapter: options.adapter,
+               metrics: options.metrics,
+               rateLimit: options.rateLimit,
+               rateLimiter: options.rateLimiter,
+               schemas: options.schemas,
+               codecs: options.codecs,
+               auth: options.auth,
+               authorization: options.authorization,
+               presence: options.presence,
+               history: options.history,
+               messageStore: options.messageStore,
+               shutdown: options.shutdown,
+               backpressure: options.backpressure,
+               admission: options.admission,
+               compression: options.compression,
           });
 
           this.logger = container.get<ILogger>(TYPES.ILogger);
           this.authService = container.get<IAuthService>(TYPES.IAuthService);
           this.webSocketService = container.get<IWebSocketService>(TYPES.IWebSocketService);
+          this.eventRouter = container.get<IEventRouter>(TYPES.IEventRouter);
+          this.metricsService = container.get<IMetricsService>(TYPES.IMetricsService);
+          this.messageValidator = container.get<IMessageValidator>(TYPES.IMessageValidator);
+          this.middlewareService = container.get<IMiddlewareService>(TYPES.IMiddlewareService);
+          this.presenceService = container.get<IPresenceService>(TYPES.IPresenceService);
           this.webSocketController = container.get<WebSocketController>(TYPES.WebSocketController);
 
-          this.app = express();
-          this.server = http.createServer(this.app);
+          this.app = options.app ?? express();
+          this.ownsServer = !options.server;
+          this.server = options.server ?? this.createServer();
           this.port = options.port || 8080;
 
-          this.setupMiddleware();
+          if (!options.app) {
+               this.setupMiddleware();
+          }
+          this.setupMetricsRoute();
+          this.setupPresenceRoute();
+          this.setupAdminRoute();
 
           if (options.setupRoutes) {
                options.setupRoutes(this.app);
@@ -131,6 +267,30 @@ export class WebSocketManager implements IWebSocketManager {
           }
      }
 
+     /**
+      * Creates the HTTP server of the Express application, or an HTTPS server if TLS is configured.
+      *
+      * @private
+      * @returns {http.Server} - The server.
+      * @memberof WebSocketManager
+      */
+     private createServer(): http.Server {
+          const tls = this.options.tls;
+          if (!tls) {
+               return http.createServer(this.app);
+          }
+
+          return https.createServer(
+               {
+                    cert: readFileSync(tls.cert),
+                    key: readFileSync(tls.key),
+                    ...(tls.ca && { ca: readFileSync(tls.ca) }),
+                    passphrase: tls.passphrase,
+               },
+               this.app
+          );
+     }
+
      /**
       *Configures middleware for the Express application.
       *
@@ -141,6 +301,71 @@ export class WebSocketManager implements IWebSocketManager {
           this.app.use(express.json());
      }
 
+     /**
+      * Mounts the Prometheus metrics endpoint if it is enabled.
+      *
+      * @private
+      * @memberof WebSocketManager
+      */
+     private setupMetricsRoute() {
+          if (!this.options.metrics?.enabled) {
+               return;
+          }
+
+          this.app.get(this.options.metrics.path ?? '/metrics', (_req, res) => {
+               res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+               res.send(this.metricsService.render());
+          });
+     }
+
+     /**
+      * Mounts the REST endpoint listing online users if a route is configured.
+      *
+      * `GET <route>` lists every online user and `GET <route>/:user` returns the presence of one
+      * user, or a 404 response if they are offline.
+      *
+      * @private
+      * @memberof WebSocketManager
+      */
+     private setupPresenceRoute() {
+          const route = this.options.presence?.route;
+          if (!route) {
+               return;
+          }
+
+          this.app.get(route, (_req, res) => {
+               res.json(this.presenceService.getOnlineUsers());
+          });
+          this.app.get(`${route}/:user`, (req, res) => {
+               const presence = this.presenceService.get(req.params.user);
+               if (presence) {
+                    res.json(presence);
+               } else {
+                    res.status(404).json({ error: 'User is offline' });
+               }
+          });
+     }
+
+     /**
+      * Mounts the admin REST API if it is enabled.
+      *
+      * @private
+      * @memberof WebSocketManager
+      */
+     private setupAdminRoute() {
+          const admin = this.options.admin;
+          if (!admin?.enabled) {
+               return;
+          }
+
+          this.app.use(admin.path ?? '/admin', createAdminRouter({
+               controller: this.webSocketController,
+               authService: this.authService,
+               messageValidator: this.messageValidator,
+               logger: this.logger,
+          }, admin));
+     }
+
      /**
       * Configures WebSocket upgrade handling and delegates it to WebSocketController.
       *
@@ -148,41 +373,374 @@ export class WebSocketManager implements IWebSocketManager {
       * @memberof WebSocketManager
       */
      private setupWebSocket() {
-          this.server.on('upgrade', (request: IncomingMessage, socket: Socket, head: Buffer) => {
+          const handler = (request: IncomingMessage, socket: Socket, head: Buffer) => {
                this.webSocketController.handleUpgrade(request, socket, head);
+          };
+          UpgradeRouter.for(this.server).register(this.options.path, handler);
+          this.upgradeHandler = handler;
+     }
+
+     /**
+      * Stops routing the upgrade requests of the manager's path to it.
+      *
+      * @private
+      * @memberof WebSocketManager
+      */
+     private detachWebSocket() {
+          if (this.upgradeHandler) {
+               UpgradeRouter.for(this.server).unregister(this.options.path, this.upgradeHandler);
+               this.upgradeHandler = undefined;
+          }
+     }
+
+     /**
+      * Starts the HTTP server and WebSocket server. An existing server passed in the options is
+      * expected to be started by its owner; the endpoint is served as soon as it listens.
+      *
+      * @returns {Promise<void>} - Resolves once the server is listening; rejects if it cannot listen, e.g. with `EADDRINUSE`.
+      * @memberof WebSocketManager
+      */
+     public start(): Promise<void> {
+          if (!this.ownsServer) {
+               this.installSignalListeners();
+               this.logger.info('WebSocket endpoint attached to an existing server', { path: this.options.path });
+               return Promise.resolve();
+          }
+
+          return new Promise((resolve, reject) => {
+               const onError = (error: NodeJS.ErrnoException) => {
+                    this.server.removeListener('listening', onListening);
+                    this.logger.error('Server failed to start', { port: this.port, error: error.message, code: error.code });
+                    reject(error);
+               };
+               const onListening = () => {
+                    this.server.removeListener('error', onError);
+                    this.installSignalListeners();
+                    this.logger.info(`Server is running on port ${this.port}`, { port: this.port });
+                    resolve();
+               };
+
+               this.server.once('error', onError);
+               this.server.once('listening', onListening);
+               this.server.listen(this.port);
           });
      }
 
      /**
-      * Starts the HTTP server and WebSocket server.
+      * Gracefully stops the HTTP server and the WebSocket server.
       *
+      * New connections and upgrades are refused at once. Clients are told the server is going away,
+      * in-flight handlers and outgoing buffers are drained for up to `shutdown.drainTimeout`
+      * milliseconds, and the connections still open afterwards are terminated. An existing server
+      * passed in the options keeps running; only the endpoint is detached. Calling `stop()`
+      * again returns the pending shutdown.
+      *
+      * @returns {Promise<void>} - Resolves once every connection and the HTTP server are closed.
       * @memberof WebSocketManager
       */
-     public start() {
-          this.server.listen(this.port, () => {
-               this.logger.log(`Server is running on port ${this.port}`);
+     public stop(): Promise<void> {
+          if (!this.stopping) {
+               this.stopping = this.shutdown();
+          }
+          return this.stopping;
+     }
+
+     /**
+      * Closes the HTTP server after the WebSocket connections have been drained.
+      *
+      * @private
+      * @returns {Promise<void>} - Resolves once the HTTP server is closed.
+      * @memberof WebSocketManager
+      */
+     private async shutdown(): Promise<void> {
+          this.removeSignalListeners();
+
+          const serverClosed = new Promise<void>((resolve, reject) => {
+               if (!this.ownsServer || !this.server.listening) {
+                    resolve();
+                    return;
+               }
+               this.server.close(error => (error ? reject(error) : resolve()));
           });
+
+          await this.webSocketController.close();
+          this.detachWebSocket();
+          if (this.ownsServer) {
+               this.server.closeIdleConnections();
+          }
+          await serverClosed;
+          this.logger.info(this.ownsServer ? 'Server has been stopped.' : 'WebSocket endpoint detached.', { path: this.options.path });
      }
 
      /**
-      * Stops the HTTP server and closes the WebSocket server.
+      * Stops the server and exits the process when one of the configured signals is received.
       *
+      * @private
       * @memberof WebSocketManager
       */
-     public stop() {
-          this.webSocketController.close();
-          this.server.close(() => {
-               this.logger.log('Server has been stopped.');
+     private installSignalListeners() {
+          (this.options.shutdown?.signals ?? []).forEach(signal => {
+               const listener = () => {
+                    this.logger.warn('Received signal, shutting down', { signal });
+                    this.stop().then(
+                         () => process.exit(0),
+                         (error: Error) => {
+                              this.logger.error('Graceful shutdown failed', { signal, error: error.message });
+                              process.exit(1);
+                         }
+                    );
+               };
+               this.signalListeners.set(signal, listener);
+               process.once(signal, listener);
           });
      }
 
+     /**
+      * Removes the listeners installed for the configured signals.
+      *
+      * @private
+      * @memberof WebSocketManager
+      */
+     private removeSignalListeners() {
+          this.signalListeners.forEach((listener, signal) => process.removeListener(signal, listener));
+          this.signalListeners.clear();
+     }
+
      /**
       * Generates an authentication token for the given username.
       *
       * @param {string} username - The username for which the token is generated.
+      * @param {IGenerateTokenOptions} [options] - The roles and additional claims of the token.
       * @returns {string} - A JWT token representing the authenticated user.
       */
-     public generateToken(username: string): string {
-          return this.authService.generateToken(username);
+     public generateToken(username: string, options?: IGenerateTokenOptions): string {
+          return this.authService.generateToken(username, options);
+     }
+
+     /**
+      * Adds every connection of a user to a room.
+      *
+      * @param {string} username - The user joining the room.
+      * @param {string} room - The name of the room.
+      * @returns {number} - The number of connections that joined the room.
+      */
+     public joinRoom(username: string, room: string): number {
+          return this.webSocketController.joinRoom(username, room);
+     }
+
+     /**
+      * Removes every connection of a user from a room.
+      *
+      * @param {string} username - The user leaving the room.
+      * @param {string} room - The name of the room.
+      * @returns {number} - The number of connections that left the room.
+      */
+     public leaveRoom(username: string, room: string): number {
+          return this.webSocketController.leaveRoom(username, room);
+     }
+
+     /**
+      * Broadcasts a message to the members of a room.
+      *
+      * @param {string} room - The name of the room.
+      * @param {IMessage<any>} message - The message to be broadcasted.
+      */
+     public broadcastToRoom(room: string, message: IMessage<any>): void {
+          this.webSocketController.broadcastToRoom(room, message);
+     }
+
+     /**
+      * Retrieves the usernames of the members of a room.
+      *
+      * @param {string} room - The name of the room.
+      * @returns {string[]} - The usernames of the room members.
+      */
+     public getRoomMembers(room: string): string[] {
+          return this.webSocketController.getRoomMembers(room);
+     }
+
+     /**
+      * Sends a direct message to every connection of a user.
+      *
+      * @param {string} username - The recipient of the message.
+      * @param {IMessage<any>} message - The message to be sent.
+      * @returns {boolean} - True if the message was delivered, false if the user is offline.
+      */
+     public sendToUser(username: string, message: IMessage<any>): boolean {
+          return this.webSocketController.sendToUser(username, message);
+     }
+
+     /**
+      * Registers the handler for an event, replacing any existing handler.
+      *
+      * @param {K} event - The event name, matched against the `type` of incoming messages.
+      * @param {EventHandler<TEvents[K]>} handler - The handler to invoke for the event.
+      */
+     public on<K extends keyof TEvents & string>(event: K, handler: EventHandler<TEvents[K]>): void {
+          this.eventRouter.on(event, handler);
+     }
+
+     /**
+      * Removes the handler for an event.
+      *
+      * @param {K} event - The event name.
+      */
+     public off<K extends keyof TEvents & string>(event: K): void {
+          this.eventRouter.off(event);
+     }
+
+     /**
+      * Registers the payload schema for an event, replacing any existing schema.
+      *
+      * @param {K} event - The event name.
+      * @param {MessageSchema<TEvents[K]>} schema - The JSON Schema or validator function for the payload.
+      */
+     public setSchema<K extends keyof TEvents & string>(event: K, schema: MessageSchema<TEvents[K]>): void {
+          this.messageValidator.register(event, schema);
+     }
+
+     /**
+      * Removes the payload schema for an event.
+      *
+      * @param {K} event - The event name.
+      */
+     public removeSchema<K extends keyof TEvents & string>(event: K): void {
+          this.messageValidator.unregister(event);
+     }
+
+     /**
+      * Appends middleware to the handshake chain, which runs before a connection is accepted, or
+      * to the message chain, which runs for each inbound message before it is dispatched.
+      *
+      * @param {MiddlewareStage} stage - The stage to run the middleware at.
+      * @param {HandshakeMiddleware | MessageMiddleware} middleware - The middleware to append.
+      */
+     public use(stage: 'handshake', middleware: HandshakeMiddleware): void;
+     public use(stage: 'message', middleware: MessageMiddleware): void;
+     public use(stage: MiddlewareStage, middleware: HandshakeMiddleware | MessageMiddleware): void {
+          if (stage === 'handshake') {
+               this.middlewareService.use(stage, middleware as HandshakeMiddleware);
+          } else {
+               this.middlewareService.use(stage, middleware as MessageMiddleware);
+          }
+     }
+
+     /**
+      * Sends a request to every connection of a user and awaits the first reply.
+      *
+      * @param {string} username - The user to send the request to.
+      * @param {string} event - The event name of the request.
+      * @param {any} payload - The content of the request.
+      * @param {number} [timeout] - Milliseconds to wait for the reply. Defaults to `requestTimeout`.
+      * @returns {Promise<T>} - Resolves with the reply content, or rejects with a `MessageError`.
+      */
+     public request<T = any>(username: string, event: string, payload?: any, timeout?: number): Promise<T> {
+          return this.webSocketController.request<T>(username, event, payload, timeout);
+     }
+
+     /**
+      * Renders the collected metrics in the Prometheus text exposition format.
+      *
+      * @returns {string} - The exposition text.
+      */
+     public getMetrics(): string {
+          return this.metricsService.render();
+     }
+
+     /**
+      * Revokes a token by its `jti` claim and closes the local connections authenticated with it.
+      *
+      * Revoked tokens are rejected when clients connect or re-authenticate until they expire.
+      *
+      * @param {string} jti - The `jti` (JWT ID) claim of the token.
+      * @param {number} [expiresAt] - When the token expires, in milliseconds since the epoch.
+      * @returns {number} - The number of connections closed.
+      */
+     public revokeToken(jti: string, expiresAt?: number): number {
+          return this.webSocketController.revokeToken(jti, expiresAt);
+     }
+
+     /**
+      * Lists the presence of every online user on this server instance.
+      *
+      * @returns {IPresence[]} - The presence of the online users.
+      */
+     public getOnlineUsers(): IPresence[] {
+          return this.presenceService.getOnlineUsers();
+     }
+
+     /**
+      * Retrieves the presence of a user on this server instance.
+      *
+      * @param {string} username - The user to look up.
+      * @returns {IPresence | null} - The presence of the user, or null if they are offline.
+      */
+     public getPresence(username: string): IPresence | null {
+          return this.presenceService.get(username);
+     }
+
+     /**
+      * Lists the open connections on this server instance.
+      *
+      * @returns {IConnection[]} - The connections, oldest first.
+      */
+     public getConnections(): IConnection[] {
+          return this.webSocketController.getConnections();
+     }
+
+     /**
+      * Retrieves an open connection on this server instance by its id.
+      *
+      * @param {string} id - The id of the connection.
+      * @returns {IConnection | null} - The connection, or null if it is not open.
+      */
+     public getConnection(id: string): IConnection | null {
+          return this.webSocketController.getConnection(id);
+     }
+
+     /**
+      * Closes a connection on this server instance by its id. The `onDisconnect` hook reports it
+      * with the `server` reason.
+      *
+      * @param {string} id - The id of the connection.
+      * @param {number} [code=1000] - The WebSocket close code.
+      * @param {string} [reason] - The WebSocket close reason text.
+      * @returns {boolean} - True if the connection was open.
+      * @throws {Error} - If the close code may not be sent or the reason exceeds 123 bytes.
+      */
+     public disconnect(id: string, code?: number, reason?: string): boolean {
+          return this.webSocketController.disconnectConnection(id, code, reason);
+     }
+
+     /**
+      * Retrieves the traffic statistics of an open connection on this server instance.
+      *
+      * @param {string} id - The id of the connection.
+      * @returns {IConnectionStats | null} - The statistics, or null if the connection is not open.
+      */
+     public getConnectionStats(id: string): IConnectionStats | null {
+          return this.webSocketController.getConnectionStats(id);
+     }
+
+     /**
+      * Closes every connection of a user on this server instance.
+      *
+      * @param {string} username - The user.
+      * @param {number} [code=1000] - The WebSocket close code.
+      * @param {string} [reason] - The WebSocket close reason text.
+      * @returns {number} - The number of connections closed.
+      * @throws {Error} - If the close code may not be sent or the reason exceeds 123 bytes.
+      */
+     public disconnectUser(username: string, code?: number, reason?: string): number {
+          return this.webSocketController.disconnectUser(username, code, reason);
+     }
+
+     /**
+      * Sends a message to every connected client, on every server instance.
+      *
+      * @param {IMessage} message - The message to send.
+      */
+     public broadcast(message: IMessage<any>): void {
+          this.webSocketController.broadcastMessage(message);
      }
 }
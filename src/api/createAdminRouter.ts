@@ -0,0 +1,272 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { IncomingMessage } from 'http';
+
+import { ERROR_CODES } from '../config/errorCodes';
+import { CLOSE_CODES } from '../config/closeCodes';
+import { IAdminOptions } from '../interfaces/IAdminOptions';
+import { IAuthService } from '../interfaces/IAuthService';
+import { IConnection } from '../interfaces/IConnection';
+import { ILogger } from '../interfaces/ILogger';
+import { IMessage } from '../interfaces/IMessage';
+import { IMessageValidator } from '../interfaces/IMessageValidator';
+import { IPrincipal } from '../interfaces/IPrincipal';
+import { WebSocketController } from '../controllers/WebSocketController';
+import { AuthenticationError } from '../utils/AuthenticationError';
+import { isValidCloseCode, isValidCloseReason, MAX_CLOSE_REASON_LENGTH } from '../utils/close';
+
+/**
+ * The roles of which a caller of the admin API needs at least one by default.
+ */
+const DEFAULT_ADMIN_ROLES = ['admin'];
+
+/**
+ * The services the admin API reads from and acts through.
+ */
+export interface IAdminRouterDependencies {
+     controller: WebSocketController;
+     authService: IAuthService;
+     messageValidator: IMessageValidator;
+     logger: ILogger;
+}
+
+/**
+ * Creates the router of the admin REST API.
+ *
+ * Every request is authenticated with the configured strategies, then allowed if the caller has
+ * one of the admin `roles` or passes the `authorize` check. Only credentials sent in headers are
+ * accepted: cookies and query parameters are hidden from the strategies, since a browser sends
+ * them along with requests forged by other sites. Anonymous callers are answered with `401`,
+ * others without access with `403`.
+ *
+ * ## Routes:
+ * - `GET /connections`: Lists the open connections.
+ * - `GET /connections/:id`: Retrieves a connection with its traffic statistics.
+ * - `DELETE /connections/:id`: Closes a connection, with the optional `code` and `reason` query parameters.
+ * - `GET /users`: Lists the connected users with their connection count.
+ * - `DELETE /users/:user`: Closes every connection of a user.
+ * - `POST /users/:user/messages`: Sends the message in the body to a user.
+ * - `POST /rooms/:room/messages`: Sends the message in the body to the members of a room.
+ * - `POST /broadcast`: Sends the message in the body to every client.
+ *
+ * Messages are sent with the `server` sender. Bodies are JSON documents carrying the `type` and the
+ * required `content` of the message; other media types are answered with `415`.
+ *
+ * @param {IAdminRouterDependencies} dependencies - The services the admin API reads from and acts through.
+ * @param {IAdminOptions} options - The access settings of the admin API.
+ * @returns {Router} - The router, to be mounted on the admin path.
+ */
+export function createAdminRouter(dependencies: IAdminRouterDependencies, options: IAdminOptions): Router {
+     const { controller, authService, messageValidator, logger } = dependencies;
+     const router = express.Router();
+     router.use(express.json());
+
+     router.use((req: Request, res: Response, next: NextFunction) => {
+          authorizeAdmin(req, authService, options).then(
+               (status: number | null) => {
+                    if (status === null) {
+                         next();
+                         return;
+                    }
+                    logger.warn('Admin request denied', { method: req.method, path: req.path, status, remoteAddress: req.socket.remoteAddress });
+                    res.status(status).json(status === 401
+                         ? { code: ERROR_CODES.AUTH_FAILED, error: 'Authentication Failed' }
+                         : { code: ERROR_CODES.FORBIDDEN, error: 'Forbidden' });
+               },
+               next
+          );
+     });
+
+     router.get('/connections', (_req, res) => {
+          res.json(controller.getConnections().map(describe));
+     });
+
+     router.get('/connections/:id', (req, res) => {
+          const connection = controller.getConnection(req.params.id);
+          if (!connection) {
+               res.status(404).json({ error: 'Connection not found' });
+               return;
+          }
+          res.json({ ...describe(connection), stats: controller.getConnectionStats(connection.id) });
+     });
+
+     router.delete('/connections/:id', (req, res) => {
+          const close = readClose(req, res);
+          if (!close) {
+               return;
+          }
+          const { code, reason } = close;
+          if (!controller.disconnectConnection(req.params.id, code, reason)) {
+               res.status(404).json({ error: 'Connection not found' });
+               return;
+          }
+          logger.info('Admin closed connection', { connectionId: req.params.id, code, reason });
+          res.status(204).end();
+     });
+
+     router.get('/users', (_req, res) => {
+          const users = new Map<string, number>();
+          controller.getConnections().forEach(connection => users.set(connection.user, (users.get(connection.user) ?? 0) + 1));
+          res.json(Array.from(users, ([user, connections]) => ({ user, connections })));
+     });
+
+     router.delete('/users/:user', (req, res) => {
+          const close = readClose(req, res);
+          if (!close) {
+               return;
+          }
+          const { code, reason } = close;
+          const closed = controller.disconnectUser(req.params.user, code, reason);
+          if (closed === 0) {
+               res.status(404).json({ error: 'User is offline' });
+               return;
+          }
+          logger.info('Admin closed connections of user', { user: req.params.user, connections: closed, code, reason });
+          res.json({ closed });
+     });
+
+     router.post('/users/:user/messages', (req, res) => {
+          const message = readMessage(req, res, messageValidator);
+          if (!message) {
+               return;
+          }
+          if (!controller.sendToUser(req.params.user, message)) {
+               res.status(404).json({ code: ERROR_CODES.USER_OFFLINE, error: 'Recipient is not connected' });
+               return;
+          }
+          res.status(202).end();
+     });
+
+     router.post('/rooms/:room/messages', (req, res) => {
+          const message = readMessage(req, res, messageValidator);
+          if (message) {
+               controller.broadcastToRoom(req.params.room, message);
+               res.status(202).end();
+          }
+     });
+
+     router.post('/broadcast', (req, res) => {
+          const message = readMessage(req, res, messageValidator);
+          if (message) {
+               controller.broadcastMessage(message);
+               res.status(202).end();
+          }
+     });
+
+     return router;
+}
+
+/**
+ * Checks whether the caller of an admin request may use the admin API.
+ *
+ * @param {Request} req - The admin request.
+ * @param {IAuthService} authService - Authenticates the caller.
+ * @param {IAdminOptions} options - The access settings of the admin API.
+ * @returns {Promise<number | null>} - Null if the caller is allowed, otherwise the HTTP status to answer with.
+ */
+async function authorizeAdmin(req: Request, authService: IAuthService, options: IAdminOptions): Promise<number | null> {
+     let principal: IPrincipal | null;
+     try {
+          principal = await authService.authenticate(withHeaderCredentials(req));
+     } catch (error) {
+          if (error instanceof AuthenticationError) {
+               return 401;
+          }
+          throw error;
+     }
+
+     if (!principal) {
+          return 401;
+     }
+
+     const allowed = options.authorize
+          ? await options.authorize(principal, req)
+          : (options.roles ?? DEFAULT_ADMIN_ROLES).some(role => principal.roles.includes(role));
+     return allowed ? null : 403;
+}
+
+/**
+ * Hides the cookies and query string of an admin request, so that the auth strategies can only
+ * read credentials from its headers.
+ *
+ * @param {Request} req - The admin request.
+ * @returns {IncomingMessage} - A view of the request without its `Cookie` header and query string.
+ */
+function withHeaderCredentials(req: Request): IncomingMessage {
+     const { cookie, ...headers } = req.headers;
+     return Object.assign(Object.create(req) as IncomingMessage, { headers, url: req.path });
+}
+
+/**
+ * Describes a connection without its headers and claims, which may carry credentials.
+ *
+ * @param {IConnection} connection - The connection.
+ * @returns {object} - The description.
+ */
+function describe(connection: IConnection): object {
+     return {
+          id: connection.id,
+          user: connection.user,
+          roles: connection.principal?.roles ?? [],
+          remoteAddress: connection.remoteAddress,
+          userAgent: connection.headers['user-agent'],
+          connectedAt: connection.connectedAt,
+          protocol: connection.protocol,
+     };
+}
+
+/**
+ * Reads the close code and reason of an admin disconnect from the query string, answering codes
+ * a close frame may not carry and reasons over 123 bytes with `400`.
+ *
+ * @param {Request} req - The admin request.
+ * @param {Response} res - The response.
+ * @returns {{ code: number, reason?: string } | null} - The close code and reason, or null if either is invalid.
+ */
+function readClose(req: Request, res: Response): { code: number; reason?: string } | null {
+     const code = req.query.code === undefined ? CLOSE_CODES.NORMAL : Number(req.query.code);
+     if (!isValidCloseCode(code)) {
+          res.status(400).json({ error: 'Invalid close code', details: { code: req.query.code } });
+          return null;
+     }
+
+     const reason = req.query.reason;
+     if (reason !== undefined && (typeof reason !== 'string' || !isValidCloseReason(reason))) {
+          res.status(400).json({ error: `Close reason must be a string of at most ${MAX_CLOSE_REASON_LENGTH} bytes` });
+          return null;
+     }
+     return { code, reason };
+}
+
+/**
+ * Reads the message to send from the body of an admin request, answering bodies that are not
+ * JSON with `415` and invalid bodies, including those without `content`, with `400`.
+ *
+ * @param {Request} req - The admin request.
+ * @param {Response} res - The response.
+ * @param {IMessageValidator} messageValidator - Validates the message envelope.
+ * @returns {IMessage<any> | null} - The message, or null if the body is invalid.
+ */
+function readMessage(req: Request, res: Response, messageValidator: IMessageValidator): IMessage<any> | null {
+     if (!req.is('application/json')) {
+          res.status(415).json({ error: 'Content-Type must be application/json' });
+          return null;
+     }
+
+     const body = req.body ?? {};
+     if (body.content === undefined) {
+          res.status(400).json({ code: ERROR_CODES.INVALID_MESSAGE, error: 'Invalid message', details: { errors: [{ path: 'content', message: 'is required' }] } });
+          return null;
+     }
+
+     const message: IMessage<any> = { sender: 'server', content: body.content };
+     if (body.type !== undefined) {
+          message.type = body.type;
+     }
+
+     const issues = messageValidator.validateEnvelope(message);
+     if (issues.length > 0) {
+          res.status(400).json({ code: ERROR_CODES.INVALID_MESSAGE, error: 'Invalid message', details: { errors: issues } });
+          return null;
+     }
+     return message;
+}
@@ -0,0 +1,100 @@
+import { IncomingMessage } from 'http';
+import { createHash } from 'crypto';
+
+import { IAuthStrategy, IApiKeyStrategyOptions, TokenSource } from '../interfaces/IAuthStrategy';
+import { IPrincipal } from '../interfaces/IPrincipal';
+import { AuthenticationError } from '../utils/AuthenticationError';
+import { extractToken } from './extractToken';
+
+/**
+ * The sources API keys are read from when the strategy does not configure its own, in order.
+ */
+const DEFAULT_API_KEY_SOURCES: TokenSource[] = [
+     { type: 'header', name: 'x-api-key' },
+     { type: 'protocol', prefix: 'apikey.' },
+];
+
+/**
+ * ApiKeyStrategy: An authentication strategy accepting a fixed set of API keys.
+ *
+ * Keys are kept as SHA-256 digests and looked up by the digest of the presented key, so that the
+ * time a lookup takes does not depend on how much of a key was guessed right.
+ */
+export class ApiKeyStrategy implements IAuthStrategy {
+     /**
+      * The name of the strategy, used in logs.
+      *
+      * @type {string}
+      * @memberof ApiKeyStrategy
+      */
+     public readonly name: string = 'apiKey';
+
+     /**
+      * Where the key is read from, in order.
+      *
+      * @type {TokenSource[]}
+      * @memberof ApiKeyStrategy
+      */
+     public readonly sources: TokenSource[];
+
+     /**
+      *
+      * @private
+      * @type {Map<string, IPrincipal>}
+      * @memberof ApiKeyStrategy
+      */
+     private principals: Map<string, IPrincipal> = new Map();
+
+     /**
+      * Creates a new instance of the ApiKeyStrategy class.
+      *
+      * @param {IApiKeyStrategyOptions} options - The accepted keys and where they are read from.
+      */
+     constructor(options: IApiKeyStrategyOptions) {
+          this.sources = options.sources ?? DEFAULT_API_KEY_SOURCES;
+          Object.entries(options.keys).forEach(([key, principal]) => {
+               this.principals.set(
+                    this.digest(key),
+                    typeof principal === 'string' ? { id: principal, roles: [], claims: {} } : principal
+               );
+          });
+     }
+
+     /**
+      * Authenticates an upgrade request carrying an API key.
+      *
+      * @param {IncomingMessage} request - The HTTP upgrade request.
+      * @returns {Promise<IPrincipal | null>} - The principal of the key, or null if there is no key.
+      * @throws {AuthenticationError} - If the key is not accepted.
+      */
+     async authenticate(request: IncomingMessage): Promise<IPrincipal | null> {
+          const key = extractToken(request, this.sources);
+          return key ? this.verify(key) : null;
+     }
+
+     /**
+      * Looks up the principal of an API key.
+      *
+      * @param {string} key - The API key.
+      * @returns {IPrincipal} - The principal of the key.
+      * @throws {AuthenticationError} - If the key is not accepted.
+      */
+     verify(key: string): IPrincipal {
+          const principal = this.principals.get(this.digest(key));
+          if (!principal) {
+               throw new AuthenticationError('Unknown API key');
+          }
+          return principal;
+     }
+
+     /**
+      * Hashes an API key.
+      *
+      * @private
+      * @param {string} key - The API key.
+      * @returns {string} - The hex-encoded SHA-256 digest of the key.
+      */
+     private digest(key: string): string {
+          return createHash('sha256').update(key).digest('hex');
+     }
+}
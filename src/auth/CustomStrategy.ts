@@ -0,0 +1,68 @@
+import { IncomingMessage } from 'http';
+
+import { IAuthStrategy, TokenSource } from '../interfaces/IAuthStrategy';
+import { IPrincipal } from '../interfaces/IPrincipal';
+import { AuthenticationError } from '../utils/AuthenticationError';
+import { extractToken, DEFAULT_TOKEN_SOURCES } from './extractToken';
+
+/**
+ * TokenVerifier: A function verifying a credential, for example against an external identity provider.
+ *
+ * @param {string} token - The credential read from the request.
+ * @param {IncomingMessage} request - The HTTP upgrade request.
+ * @returns {IPrincipal | null | Promise<IPrincipal | null>} - The principal, or null if the credential is invalid.
+ */
+export type TokenVerifier = (token: string, request: IncomingMessage) => IPrincipal | null | Promise<IPrincipal | null>;
+
+/**
+ * CustomStrategy: An authentication strategy delegating verification to a custom function.
+ *
+ * The credential is read from the configured sources and handed to the verifier. Requests that
+ * carry no credential are passed on to the next strategy; a verifier returning null or throwing
+ * fails authentication. For checks that do not involve a credential, implement `IAuthStrategy`
+ * directly.
+ */
+export class CustomStrategy implements IAuthStrategy {
+     /**
+      * Creates a new instance of the CustomStrategy class.
+      *
+      * @param {TokenVerifier} verifier - The function verifying credentials.
+      * @param {TokenSource[]} [sources] - Where the credential is read from, in order. Defaults to the sources of `JwtStrategy`.
+      * @param {string} [name='custom'] - The name of the strategy, used in logs.
+      */
+     constructor(private verifier: TokenVerifier, public readonly sources: TokenSource[] = DEFAULT_TOKEN_SOURCES, public readonly name: string = 'custom') { }
+
+     /**
+      * Authenticates an upgrade request with the verifier.
+      *
+      * @param {IncomingMessage} request - The HTTP upgrade request.
+      * @returns {Promise<IPrincipal | null>} - The principal, or null if the request carries no credential.
+      * @throws {AuthenticationError} - If the verifier rejects the credential.
+      */
+     async authenticate(request: IncomingMessage): Promise<IPrincipal | null> {
+          const token = extractToken(request, this.sources);
+          return token ? this.verify(token, request) : null;
+     }
+
+     /**
+      * Verifies a credential with the verifier.
+      *
+      * @param {string} token - The credential.
+      * @param {IncomingMessage} request - The HTTP upgrade request of the connection.
+      * @returns {Promise<IPrincipal>} - The principal of the credential.
+      * @throws {AuthenticationError} - If the verifier rejects the credential.
+      */
+     async verify(token: string, request: IncomingMessage): Promise<IPrincipal> {
+          let principal: IPrincipal | null;
+          try {
+               principal = await this.verifier(token, request);
+          } catch (error) {
+               throw new AuthenticationError((error as Error).message);
+          }
+
+          if (!principal) {
+               throw new AuthenticationError('Invalid credentials');
+          }
+          return principal;
+     }
+}
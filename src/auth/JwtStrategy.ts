@@ -0,0 +1,141 @@
+import { IncomingMessage } from 'http';
+import { readFileSync } from 'fs';
+import { createPublicKey, KeyObject, JsonWebKey } from 'crypto';
+
+import jwt from 'jsonwebtoken';
+
+import { IAuthStrategy, IJwtStrategyOptions, TokenSource } from '../interfaces/IAuthStrategy';
+import { IPrincipal } from '../interfaces/IPrincipal';
+import { AuthenticationError } from '../utils/AuthenticationError';
+import { extractToken, DEFAULT_TOKEN_SOURCES } from './extractToken';
+
+/**
+ * JwtStrategy: An authentication strategy verifying JSON Web Tokens.
+ *
+ * Tokens are verified with a shared secret (HS256), a PEM public key given inline or read from a
+ * file (RS256), or the keys of a local JWKS file, selected by the `kid` of the token. Key files
+ * are read once, when the strategy is created. The token payload becomes the principal's claims,
+ * and its `exp` claim the principal's expiry.
+ */
+export class JwtStrategy implements IAuthStrategy {
+     /**
+      * The name of the strategy, used in logs.
+      *
+      * @type {string}
+      * @memberof JwtStrategy
+      */
+     public readonly name: string = 'jwt';
+
+     /**
+      * Where the token is read from, in order.
+      *
+      * @type {TokenSource[]}
+      * @memberof JwtStrategy
+      */
+     public readonly sources: TokenSource[];
+
+     /**
+      *
+      * @private
+      * @type {string | KeyObject}
+      * @memberof JwtStrategy
+      */
+     private key?: string | KeyObject;
+
+     /**
+      *
+      * @private
+      * @type {Map<string, KeyObject>}
+      * @memberof JwtStrategy
+      */
+     private jwks: Map<string, KeyObject> = new Map();
+
+     /**
+      * Creates a new instance of the JwtStrategy class.
+      *
+      * @param {IJwtStrategyOptions} options - The verification key and token settings.
+      * @throws {Error} - If no verification key is configured or a key file cannot be read.
+      */
+     constructor(private options: IJwtStrategyOptions) {
+          this.sources = options.sources ?? DEFAULT_TOKEN_SOURCES;
+          if (options.secret) {
+               this.key = options.secret;
+          } else if (options.publicKey || options.publicKeyFile) {
+               this.key = createPublicKey(options.publicKey ?? readFileSync(options.publicKeyFile!));
+          } else if (options.jwksFile) {
+               const { keys = [] } = JSON.parse(readFileSync(options.jwksFile, 'utf8')) as { keys?: Array<JsonWebKey & { kid?: string }> };
+               keys.forEach((jwk, index) => this.jwks.set(jwk.kid ?? String(index), createPublicKey({ key: jwk, format: 'jwk' })));
+          } else {
+               throw new Error('JwtStrategy requires a secret, publicKey, publicKeyFile or jwksFile');
+          }
+     }
+
+     /**
+      * Authenticates an upgrade request carrying a token.
+      *
+      * @param {IncomingMessage} request - The HTTP upgrade request.
+      * @returns {Promise<IPrincipal | null>} - The principal of the token, or null if there is no token.
+      * @throws {AuthenticationError} - If the token is invalid or expired.
+      */
+     async authenticate(request: IncomingMessage): Promise<IPrincipal | null> {
+          const token = extractToken(request, this.sources);
+          return token ? this.verify(token) : null;
+     }
+
+     /**
+      * Verifies a token and maps its payload to a principal.
+      *
+      * @param {string} token - The token to verify.
+      * @returns {IPrincipal} - The principal of the token.
+      * @throws {AuthenticationError} - If the token is invalid or expired, or has no principal id.
+      */
+     verify(token: string): IPrincipal {
+          const algorithms = this.options.algorithms ?? (this.options.secret ? ['HS256'] : ['RS256']);
+          let payload: jwt.JwtPayload;
+
+          try {
+               const decoded = jwt.verify(token, this.selectKey(token), {
+                    algorithms,
+                    issuer: this.options.issuer,
+                    audience: this.options.audience,
+               });
+               payload = typeof decoded === 'string' ? { sub: decoded } : decoded;
+          } catch (error) {
+               throw new AuthenticationError((error as Error).message);
+          }
+
+          const id = this.options.idClaim ? payload[this.options.idClaim] : payload.sub ?? payload.username;
+          if (typeof id !== 'string' || !id) {
+               throw new AuthenticationError('Token has no principal id');
+          }
+
+          const roles = payload[this.options.rolesClaim ?? 'roles'];
+          return {
+               id,
+               roles: Array.isArray(roles) ? roles.filter((role): role is string => typeof role === 'string') : [],
+               claims: payload,
+               ...(typeof payload.exp === 'number' ? { expiresAt: payload.exp * 1000 } : {}),
+          };
+     }
+
+     /**
+      * Selects the key verifying a token: the configured key, or the JWKS key matching its `kid`.
+      *
+      * @private
+      * @param {string} token - The token to verify.
+      * @returns {string | KeyObject} - The verification key.
+      * @throws {Error} - If no JWKS key matches the token.
+      */
+     private selectKey(token: string): string | KeyObject {
+          if (this.key) {
+               return this.key;
+          }
+
+          const kid = jwt.decode(token, { complete: true })?.header.kid;
+          const key = kid !== undefined ? this.jwks.get(kid) : this.jwks.size === 1 ? [...this.jwks.values()][0] : undefined;
+          if (!key) {
+               throw new Error(`No key found for kid ${kid}`);
+          }
+          return key;
+     }
+}
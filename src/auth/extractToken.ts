@@ -0,0 +1,85 @@
+import { IncomingMessage } from 'http';
+
+import { TokenSource } from '../interfaces/IAuthStrategy';
+
+/**
+ * The sources tokens are read from when a strategy does not configure its own, in order.
+ *
+ * Cookies are not read by default: browsers send them with requests made by any site, so a
+ * strategy reading them must be combined with `admission.allowedOrigins`.
+ */
+export const DEFAULT_TOKEN_SOURCES: TokenSource[] = [
+     { type: 'header' },
+     { type: 'protocol' },
+     { type: 'query' },
+];
+
+/**
+ * Reads a credential from the first source of an upgrade request that carries one.
+ *
+ * @param {IncomingMessage} request - The HTTP upgrade request.
+ * @param {TokenSource[]} [sources=DEFAULT_TOKEN_SOURCES] - The sources to read from, in order.
+ * @returns {string | null} - The credential, or null if no source carries one.
+ */
+export function extractToken(request: IncomingMessage, sources: TokenSource[] = DEFAULT_TOKEN_SOURCES): string | null {
+     for (const source of sources) {
+          const token = readSource(request, source);
+          if (token) {
+               return token;
+          }
+     }
+     return null;
+}
+
+/**
+ * Reads a credential from one source of an upgrade request.
+ *
+ * @param {IncomingMessage} request - The HTTP upgrade request.
+ * @param {TokenSource} source - The source to read from.
+ * @returns {string | null} - The credential, or null if the source does not carry one.
+ */
+function readSource(request: IncomingMessage, source: TokenSource): string | null {
+     switch (source.type) {
+          case 'header': {
+               const name = (source.name ?? 'authorization').toLowerCase();
+               const scheme = source.scheme ?? (name === 'authorization' ? 'Bearer' : undefined);
+               const header = request.headers[name];
+               const value = Array.isArray(header) ? header[0] : header;
+               if (!value) {
+                    return null;
+               }
+               if (!scheme) {
+                    return value.trim();
+               }
+               const [prefix, ...rest] = value.trim().split(' ');
+               return prefix.toLowerCase() === scheme.toLowerCase() ? rest.join(' ').trim() || null : null;
+          }
+          case 'cookie': {
+               const name = source.name ?? 'token';
+               const cookie = (request.headers.cookie ?? '')
+                    .split(';')
+                    .map(pair => pair.trim())
+                    .find(pair => pair.startsWith(`${name}=`));
+               if (!cookie) {
+                    return null;
+               }
+               try {
+                    return decodeURIComponent(cookie.slice(name.length + 1)) || null;
+               } catch {
+                    return null;
+               }
+          }
+          case 'protocol': {
+               const prefix = source.prefix ?? 'bearer.';
+               const protocol = (request.headers['sec-websocket-protocol'] ?? '')
+                    .split(',')
+                    .map(entry => entry.trim())
+                    .find(entry => entry.startsWith(prefix));
+               return protocol ? protocol.slice(prefix.length) || null : null;
+          }
+          case 'query': {
+               const query = request.url?.split('?')[1];
+               return query ? new URLSearchParams(query).get(source.name ?? 'token') : null;
+          }
+     }
+}
@@ -0,0 +1,9 @@
+export * from './client/WebSocketClient';
+export * from './config/closeCodes';
+export * from './config/errorCodes';
+export * from './config/events';
+export * from './interfaces/IErrorMessage';
+export type { EventMap } from './interfaces/IEventRouter';
+export * from './interfaces/IMessage';
+export * from './interfaces/IWebSocketClient';
+export * from './utils/MessageError';
@@ -0,0 +1,775 @@
+import { SYSTEM_EVENTS } from '../config/events';
+import { ERROR_CODES } from '../config/errorCodes';
+import { CLOSE_CODES } from '../config/closeCodes';
+import { IMessage } from '../interfaces/IMessage';
+import { IErrorMessage } from '../interfaces/IErrorMessage';
+import { EventMap } from '../interfaces/IEventRouter';
+import {
+     IWebSocketClient,
+     IWebSocketClientOptions,
+     IClientSocket,
+     IClientSendOptions,
+     IClientRequestOptions,
+     ICloseInfo,
+     ClientEventHandler,
+     ClientSocketConstructor,
+     ClientState,
+} from '../interfaces/IWebSocketClient';
+import { MessageError } from '../utils/MessageError';
+import { OutboundQueue } from '../utils/OutboundQueue';
+
+/**
+ * The `readyState` of an open WebSocket.
+ */
+const OPEN = 1;
+
+/**
+ * The default number of milliseconds to wait for the reply to a request.
+ */
+const DEFAULT_REQUEST_TIMEOUT = 10000;
+
+/**
+ * The default maximum number of messages queued while offline.
+ */
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+
+/**
+ * The close codes after which the client does not reconnect by default, since the server would
+ * refuse it again: a failed authentication or other policy violation, an expired token and a
+ * revoked token.
+ */
+const TERMINAL_CLOSE_CODES: number[] = [CLOSE_CODES.POLICY_VIOLATION, CLOSE_CODES.TOKEN_EXPIRED, CLOSE_CODES.TOKEN_REVOKED];
+
+/**
+ * OutgoingMessage: A message sent to the server.
+ */
+type OutgoingMessage = { type?: string; id?: string; [key: string]: unknown };
+
+/**
+ * PendingRequest: A request awaiting its reply.
+ */
+interface PendingRequest {
+     resolve: (content: any) => void;
+     reject: (error: Error) => void;
+     timer: ReturnType<typeof setTimeout>;
+     message: OutgoingMessage;
+     sent: boolean;
+}
+
+/**
+ * Encodes a message as JSON, binary content as `{ $binary: <base64> }` like the server's JSON codec.
+ *
+ * @param {object} message - The message.
+ * @returns {string} - The JSON text.
+ */
+function encode(message: object): string {
+     return JSON.stringify(message, function (this: any, key: string, value: unknown) {
+          const original = this[key];
+          if (original instanceof ArrayBuffer || ArrayBuffer.isView(original)) {
+               const bytes = original instanceof ArrayBuffer
+                    ? new Uint8Array(original)
+                    : new Uint8Array(original.buffer, original.byteOffset, original.byteLength);
+               return { $binary: btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join('')) };
+          }
+          return value;
+     });
+}
+
+/**
+ * Decodes a JSON message, turning `{ $binary: <base64> }` values into byte arrays.
+ *
+ * @param {unknown} data - The text of the frame, or its bytes.
+ * @returns {any} - The message.
+ */
+function decode(data: unknown): any {
+     const text = typeof data === 'string' ? data : new TextDecoder().decode(data as ArrayBuffer);
+     return JSON.parse(text, (_key: string, value: any) => {
+          if (value && typeof value.$binary === 'string' && Object.keys(value).length === 1) {
+               return Uint8Array.from(atob(value.$binary), char => char.charCodeAt(0));
+          }
+          return value;
+     });
+}
+
+/**
+ * WebSocketClient: A client of the WebSocket server, for browsers and Node.js.
+ *
+ * The client keeps its connection open: lost connections are re-established with exponential
+ * backoff and jitter, fetching a fresh token from the token provider before every attempt.
+ * Messages sent while offline are queued and sent once the connection is back, after the
+ * client has rejoined its rooms and received the broadcast and room messages it missed.
+ *
+ * ## Responsibilities:
+ * - Connect, authenticate and reconnect.
+ * - Queue outgoing messages while offline.
+ * - Correlate requests with their `ack` and `error` replies, and answer the server's requests.
+ * - Rejoin rooms and replay missed messages after reconnecting, ignoring duplicates.
+ * - Re-authenticate when the server warns that the token expires.
+ *
+ * @template TEvents - The application's event map, giving typed payloads to event handlers.
+ */
+export class WebSocketClient<TEvents extends EventMap = EventMap> implements IWebSocketClient<TEvents> {
+     /**
+      *
+      * @private
+      * @type {IClientSocket}
+      * @memberof WebSocketClient
+      */
+     private socket?: IClientSocket;
+
+     /**
+      *
+      * @private
+      * @type {ClientState}
+      * @memberof WebSocketClient
+      */
+     private state: ClientState = 'closed';
+
+     /**
+      * The number of consecutive failed connection attempts.
+      *
+      * @private
+      * @type {number}
+      * @memberof WebSocketClient
+      */
+     private attempts: number = 0;
+
+     /**
+      * Whether the client has been open before, so that the next connection replays missed messages.
+      *
+      * @private
+      * @type {boolean}
+      * @memberof WebSocketClient
+      */
+     private wasOpen: boolean = false;
+
+     /**
+      *
+      * @private
+      * @type {ReturnType<typeof setTimeout>}
+      * @memberof WebSocketClient
+      */
+     private reconnectTimer?: ReturnType<typeof setTimeout>;
+
+     /**
+      * The reconnect delay announced by the server when it shut down.
+      *
+      * @private
+      * @type {number}
+      * @memberof WebSocketClient
+      */
+     private announcedDelay?: number;
+
+     /**
+      *
+      * @private
+      * @type {Map<string, ClientEventHandler>}
+      * @memberof WebSocketClient
+      */
+     private handlers: Map<string, ClientEventHandler> = new Map();
+
+     /**
+      *
+      * @private
+      * @type {Map<string, PendingRequest>}
+      * @memberof WebSocketClient
+      */
+     private pending: Map<string, PendingRequest> = new Map();
+
+     /**
+      * The messages sent while offline.
+      *
+      * @private
+      * @type {OutboundQueue<OutgoingMessage>}
+      * @memberof WebSocketClient
+      */
+     private queue: OutboundQueue<OutgoingMessage>;
+
+     /**
+      * The rooms to rejoin after reconnecting.
+      *
+      * @private
+      * @type {Set<string>}
+      * @memberof WebSocketClient
+      */
+     private rooms: Set<string> = new Set();
+
+     /**
+      * The highest sequence id received.
+      *
+      * @private
+      * @type {number}
+      * @memberof WebSocketClient
+      */
+     private lastSeq: number = 0;
+
+     /**
+      * The sequence ids received since the connection opened, while missed messages are replayed.
+      *
+      * @private
+      * @type {Set<number>}
+      * @memberof WebSocketClient
+      */
+     private replaying?: Set<number>;
+
+     /**
+      *
+      * @private
+      * @type {number}
+      * @memberof WebSocketClient
+      */
+     private nextId: number = 0;
+
+     /**
+      *
+      * @private
+      * @memberof WebSocketClient
+      */
+     private openWaiters: { resolve: () => void; reject: (error: Error) => void }[] = [];
+
+     /**
+      *
+      * @private
+      * @memberof WebSocketClient
+      */
+     private openListeners: (() => void)[] = [];
+
+     /**
+      *
+      * @private
+      * @memberof WebSocketClient
+      */
+     private closeListeners: ((info: ICloseInfo) => void)[] = [];
+
+     /**
+      *
+      * @private
+      * @memberof WebSocketClient
+      */
+     private reconnectingListeners: ((attempt: number, delay: number) => void)[] = [];
+
+     /**
+      *
+      * @private
+      * @memberof WebSocketClient
+      */
+     private errorListeners: ((error: Error) => void)[] = [];
+
+     /**
+      * Creates a new client. Call `connect()` to open the connection.
+      *
+      * @param {IWebSocketClientOptions} options - The URL of the server and the client settings.
+      */
+     constructor(private options: IWebSocketClientOptions) {
+          this.queue = new OutboundQueue(options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE, 'drop-oldest');
+     }
+
+     /**
+      * Connects to the server.
+      *
+      * @returns {Promise<void>} - Resolves once the connection is open; rejects if the client gives up or is closed first.
+      */
+     connect(): Promise<void> {
+          if (this.state === 'open') {
+               return Promise.resolve();
+          }
+
+          const opened = new Promise<void>((resolve, reject) => this.openWaiters.push({ resolve, reject }));
+          if (this.state === 'closed') {
+               this.attempts = 0;
+               this.open();
+          }
+          return opened;
+     }
+
+     /**
+      * Closes the connection and stops reconnecting. Pending requests are rejected and removed
+      * from the queue; other queued messages are kept until the next `connect()`.
+      *
+      * @param {number} [code=1000] - The WebSocket close code.
+      * @param {string} [reason] - The WebSocket close reason text.
+      */
+     close(code: number = CLOSE_CODES.NORMAL, reason?: string): void {
+          clearTimeout(this.reconnectTimer);
+          this.state = 'closed';
+
+          const socket = this.socket;
+          this.socket = undefined;
+          if (socket) {
+               socket.close(code, reason);
+               this.notifyClose({ code, reason: reason ?? '' });
+          }
+
+          const error = new Error('Client closed');
+          this.rejectOpenWaiters(error);
+          Array.from(this.pending.keys()).forEach(id => this.settle(id, error));
+     }
+
+     /**
+      * Retrieves the state of the connection.
+      *
+      * @returns {ClientState} - The state.
+      */
+     getState(): ClientState {
+          return this.state;
+     }
+
+     /**
+      * Sends a message, queueing it while offline.
+      *
+      * @param {string} event - The event type of the message.
+      * @param {any} [content] - The content of the message.
+      * @param {IClientSendOptions} [options] - The room or user to send the message to.
+      */
+     send<K extends keyof TEvents & string>(event: K, content?: TEvents[K], options: IClientSendOptions = {}): void {
+          this.deliver({ type: event, content, ...options });
+     }
+
+     /**
+      * Sends a message and awaits the server's reply, queueing it while offline.
+      *
+      * @param {string} event - The event type of the message.
+      * @param {any} [content] - The content of the message.
+      * @param {IClientRequestOptions} [options] - The room or user to send the message to, and the timeout.
+      * @returns {Promise<T>} - Resolves with the `content` of the `ack` reply; rejects with a `MessageError` on an `error` reply or timeout.
+      */
+     request<T = any, K extends keyof TEvents & string = keyof TEvents & string>(event: K, content?: TEvents[K], options: IClientRequestOptions = {}): Promise<T> {
+          const { timeout, ...address } = options;
+          return this.call<T>({ type: event, content, ...address }, timeout, false);
+     }
+
+     /**
+      * Joins a room. The client rejoins its rooms after reconnecting.
+      *
+      * @param {string} room - The name of the room.
+      * @returns {Promise<void>} - Resolves once the server confirmed.
+      */
+     async join(room: string): Promise<void> {
+          await this.call({ type: SYSTEM_EVENTS.ROOM_JOIN, room }, undefined, false);
+          this.rooms.add(room);
+     }
+
+     /**
+      * Leaves a room.
+      *
+      * @param {string} room - The name of the room.
+      * @returns {Promise<void>} - Resolves once the server confirmed.
+      */
+     async leave(room: string): Promise<void> {
+          this.rooms.delete(room);
+          await this.call({ type: SYSTEM_EVENTS.ROOM_LEAVE, room }, undefined, false);
+     }
+
+     /**
+      * Registers the handler for an event type, replacing any previous handler.
+      *
+      * @param {string} event - The event type; messages without a type use `message`.
+      * @param {ClientEventHandler} handler - The handler.
+      */
+     on<K extends keyof TEvents & string>(event: K, handler: ClientEventHandler<TEvents[K]>): void {
+          this.handlers.set(event, handler);
+     }
+
+     /**
+      * Removes the handler for an event type.
+      *
+      * @param {string} event - The event type.
+      */
+     off<K extends keyof TEvents & string>(event: K): void {
+          this.handlers.delete(event);
+     }
+
+     /**
+      * Registers a listener called whenever the connection opens.
+      *
+      * @param {Function} listener - The listener.
+      */
+     onOpen(listener: () => void): void {
+          this.openListeners.push(listener);
+     }
+
+     /**
+      * Registers a listener called whenever the connection closes.
+      *
+      * @param {Function} listener - The listener, called with the close code and reason.
+      */
+     onClose(listener: (info: ICloseInfo) => void): void {
+          this.closeListeners.push(listener);
+     }
+
+     /**
+      * Registers a listener called before each reconnect attempt.
+      *
+      * @param {Function} listener - The listener, called with the attempt number and the delay before it.
+      */
+     onReconnecting(listener: (attempt: number, delay: number) => void): void {
+          this.reconnectingListeners.push(listener);
+     }
+
+     /**
+      * Registers a listener called with errors that belong to no request.
+      *
+      * @param {Function} listener - The listener.
+      */
+     onError(listener: (error: Error) => void): void {
+          this.errorListeners.push(listener);
+     }
+
+     /**
+      * Opens a socket with a fresh token.
+      *
+      * @private
+      */
+     private async open(): Promise<void> {
+          this.state = this.wasOpen ? 'reconnecting' : 'connecting';
+
+          let token: string | null | undefined;
+          try {
+               token = typeof this.options.token === 'function' ? await this.options.token() : this.options.token;
+          } catch (error) {
+               this.reportError(error as Error);
+               this.retry({ code: CLOSE_CODES.INTERNAL_ERROR, reason: 'Token provider failed' });
+               return;
+          }
+          if (this.getState() === 'closed') {
+               return;
+          }
+
+          const Socket: ClientSocketConstructor | undefined = this.options.WebSocket ?? (globalThis as any).WebSocket;
+          if (!Socket) {
+               this.state = 'closed';
+               this.rejectOpenWaiters(new Error('No WebSocket implementation available; pass one in the WebSocket option'));
+               return;
+          }
+
+          const protocols = token ? ['json', `bearer.${token}`] : ['json'];
+          let socket: IClientSocket;
+          try {
+               socket = new Socket(this.options.url, protocols);
+          } catch (error) {
+               this.reportError(error as Error);
+               this.retry({ code: CLOSE_CODES.INTERNAL_ERROR, reason: (error as Error).message });
+               return;
+          }
+
+          socket.binaryType = 'arraybuffer';
+          this.socket = socket;
+          socket.onopen = () => this.handleOpen(socket);
+          socket.onmessage = (event: { data: unknown }) => this.handleMessage(socket, event.data);
+          socket.onclose = (event: { code: number; reason: string }) => this.handleClose(socket, { code: event.code, reason: event.reason });
+          socket.onerror = () => undefined;
+     }
+
+     /**
+      * Rejoins the rooms, replays missed messages and sends queued messages once a socket opens.
+      *
+      * @private
+      * @param {IClientSocket} socket - The socket that opened.
+      */
+     private async handleOpen(socket: IClientSocket): Promise<void> {
+          const since = this.lastSeq;
+          const replay = this.wasOpen && since > 0 && this.options.replay !== false;
+          this.replaying = replay ? new Set() : undefined;
+
+          try {
+               await Promise.all([...this.rooms].map(room => this.call({ type: SYSTEM_EVENTS.ROOM_JOIN, room }, undefined, true)));
+               if (replay) {
+                    await this.call({ type: SYSTEM_EVENTS.HISTORY_REPLAY, content: { since } }, undefined, true);
+               }
+          } catch (error) {
+               this.reportError(error as Error);
+          } finally {
+               this.replaying = undefined;
+          }
+
+          if (socket !== this.socket) {
+               return;
+          }
+
+          this.attempts = 0;
+          this.wasOpen = true;
+          this.state = 'open';
+
+          let message: OutgoingMessage | undefined;
+          while (socket.readyState === OPEN && (message = this.queue.shift()) !== undefined) {
+               this.transmit(message);
+          }
+
+          this.openWaiters.splice(0).forEach(waiter => waiter.resolve());
+          this.openListeners.forEach(listener => listener());
+     }
+
+     /**
+      * Dispatches a message received from the server.
+      *
+      * @private
+      * @param {IClientSocket} socket - The socket the message was received on.
+      * @param {unknown} data - The frame data.
+      */
+     private handleMessage(socket: IClientSocket, data: unknown): void {
+          if (socket !== this.socket) {
+               return;
+          }
+
+          let message: any;
+          try {
+               message = decode(data);
+          } catch {
+               this.reportError(new MessageError(ERROR_CODES.INVALID_JSON, 'Invalid JSON format'));
+               return;
+          }
+
+          const type: string = message.type ?? SYSTEM_EVENTS.MESSAGE;
+          if (type === SYSTEM_EVENTS.ACK || type === SYSTEM_EVENTS.ERROR) {
+               if (message.id !== undefined && this.pending.has(message.id)) {
+                    const reply = message as IErrorMessage;
+                    this.settle(message.id, type === SYSTEM_EVENTS.ERROR ? new MessageError(reply.code, reply.error, reply.details) : undefined, message.content);
+               } else if (type === SYSTEM_EVENTS.ERROR) {
+                    this.reportError(new MessageError(message.code, message.error, message.details));
+               }
+               return;
+          }
+
+          if (typeof message.seq === 'number') {
+               if (this.replaying?.has(message.seq)) {
+                    return;
+               }
+               this.replaying?.add(message.seq);
+               this.lastSeq = Math.max(this.lastSeq, message.seq);
+          }
+
+          if (type === SYSTEM_EVENTS.AUTH_EXPIRING) {
+               this.refreshToken();
+          } else if (type === SYSTEM_EVENTS.SERVER_SHUTDOWN) {
+               this.announcedDelay = message.content?.reconnectIn;
+          }
+
+          this.handleEvent(type, message);
+     }
+
+     /**
+      * Invokes the handler of an event, answering the server's requests with its result.
+      *
+      * @private
+      * @param {string} type - The event type.
+      * @param {IMessage<any>} message - The incoming message.
+      */
+     private handleEvent(type: string, message: IMessage<any>): void {
+          const handler = this.handlers.get(type);
+          if (!handler) {
+               if (message.id !== undefined) {
+                    this.transmit({ type: SYSTEM_EVENTS.ERROR, id: message.id, code: ERROR_CODES.UNKNOWN_EVENT, error: `Unknown event: ${type}` });
+               }
+               return;
+          }
+
+          Promise.resolve()
+               .then(() => handler(message.content, message))
+               .then(
+                    (result: unknown) => {
+                         if (message.id !== undefined) {
+                              this.transmit({ type: SYSTEM_EVENTS.ACK, id: message.id, content: result });
+                         }
+                    },
+                    (error: Error) => {
+                         if (message.id !== undefined) {
+                              const code = error instanceof MessageError ? error.code : ERROR_CODES.INTERNAL_ERROR;
+                              this.transmit({ type: SYSTEM_EVENTS.ERROR, id: message.id, code, error: error.message });
+                         } else {
+                              this.reportError(error);
+                         }
+                    }
+               );
+     }
+
+     /**
+      * Sends a fresh token to the server before the current one expires.
+      *
+      * @private
+      */
+     private async refreshToken(): Promise<void> {
+          if (typeof this.options.token !== 'function') {
+               return;
+          }
+
+          try {
+               const token = await this.options.token();
+               if (token) {
+                    await this.call({ type: SYSTEM_EVENTS.AUTH_REFRESH, content: { token } }, undefined, true);
+               }
+          } catch (error) {
+               this.reportError(error as Error);
+          }
+     }
+
+     /**
+      * Reports a closed socket, rejects the requests sent on it and reconnects unless the client was closed.
+      *
+      * @private
+      * @param {IClientSocket} socket - The socket that closed.
+      * @param {ICloseInfo} info - The close code and reason.
+      */
+     private handleClose(socket: IClientSocket, info: ICloseInfo): void {
+          if (socket !== this.socket) {
+               return;
+          }
+
+          this.socket = undefined;
+          const error = new Error(`Connection closed (${info.code})`);
+          this.pending.forEach((entry, id) => entry.sent && this.settle(id, error));
+          this.notifyClose(info);
+          this.retry(info);
+     }
+
+     /**
+      * Schedules the next connection attempt, or gives up.
+      *
+      * @private
+      * @param {ICloseInfo} info - Why the last connection or attempt ended.
+      */
+     private retry(info: ICloseInfo): void {
+          const {
+               enabled = true,
+               initialDelay = 500,
+               maxDelay = 30000,
+               factor = 2,
+               jitter = 0.5,
+               maxAttempts = Infinity,
+               shouldReconnect = ({ code }: ICloseInfo) => !TERMINAL_CLOSE_CODES.includes(code),
+          } = this.options.reconnect ?? {};
+
+          if (this.state === 'closed') {
+               return;
+          }
+          if (!enabled || this.attempts >= maxAttempts || !shouldReconnect(info)) {
+               this.state = 'closed';
+               this.rejectOpenWaiters(new Error(`Connection closed (${info.code}${info.reason ? `: ${info.reason}` : ''})`));
+               return;
+          }
+
+          const delay = this.announcedDelay !== undefined
+               ? Math.round(this.announcedDelay * (1 + jitter * Math.random()))
+               : Math.round(Math.min(maxDelay, initialDelay * factor ** this.attempts) * (1 - jitter * Math.random()));
+          this.announcedDelay = undefined;
+          this.attempts++;
+
+          this.state = this.wasOpen ? 'reconnecting' : 'connecting';
+          this.reconnectingListeners.forEach(listener => listener(this.attempts, delay));
+          this.reconnectTimer = setTimeout(() => this.open(), delay);
+     }
+
+     /**
+      * Sends a message that expects a reply and registers it as pending.
+      *
+      * @private
+      * @param {OutgoingMessage} message - The message, without an id.
+      * @param {number} [timeout] - Milliseconds to wait for the reply.
+      * @param {boolean} direct - Whether to write the message right away, even before queued messages.
+      * @returns {Promise<T>} - The `content` of the reply.
+      */
+     private call<T = any>(message: OutgoingMessage, timeout: number = this.options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT, direct: boolean): Promise<T> {
+          const id = `c${++this.nextId}`;
+          const request = { ...message, id };
+          const promise = new Promise<T>((resolve, reject) => {
+               const timer = setTimeout(() => {
+                    this.settle(id, new MessageError(ERROR_CODES.REQUEST_TIMEOUT, `Request timed out after ${timeout}ms`));
+               }, timeout);
+               this.pending.set(id, { resolve, reject, timer, message: request, sent: false });
+          });
+
+          if (direct) {
+               this.transmit(request);
+          } else {
+               this.deliver(request);
+          }
+          return promise;
+     }
+
+     /**
+      * Settles a pending request, removing it from the offline queue if it was not sent, so that
+      * a request that already failed is not sent after reconnecting.
+      *
+      * @private
+      * @param {string} id - The correlation id of the request.
+      * @param {Error} [error] - The error to reject the request with.
+      * @param {any} [content] - The content to resolve the request with.
+      */
+     private settle(id: string, error?: Error, content?: any): void {
+          const entry = this.pending.get(id);
+          if (!entry) {
+               return;
+          }
+
+          clearTimeout(entry.timer);
+          this.pending.delete(id);
+          if (!entry.sent) {
+               this.queue.remove(entry.message);
+          }
+          if (error) {
+               entry.reject(error);
+          } else {
+               entry.resolve(content);
+          }
+     }
+
+     /**
+      * Sends a message if the connection is open, or queues it.
+      *
+      * @private
+      * @param {OutgoingMessage} message - The message.
+      */
+     private deliver(message: OutgoingMessage): void {
+          if (this.state === 'open') {
+               this.transmit(message);
+          } else {
+               this.queue.push(message, 'data');
+          }
+     }
+
+     /**
+      * Writes a message to the socket, if it is open, marking the request it carries as sent.
+      *
+      * @private
+      * @param {OutgoingMessage} message - The message.
+      */
+     private transmit(message: OutgoingMessage): void {
+          if (this.socket?.readyState !== OPEN) {
+               return;
+          }
+
+          this.socket.send(encode(message));
+          const entry = message.type !== SYSTEM_EVENTS.ACK && message.type !== SYSTEM_EVENTS.ERROR && message.id !== undefined
+               ? this.pending.get(message.id)
+               : undefined;
+          if (entry) {
+               entry.sent = true;
+          }
+     }
+
+     /**
+      *
+      * @private
+      * @param {ICloseInfo} info - The close code and reason.
+      */
+     private notifyClose(info: ICloseInfo): void {
+          this.closeListeners.forEach(listener => listener(info));
+     }
+
+     /**
+      *
+      * @private
+      * @param {Error} error - The error.
+      */
+     private reportError(error: Error): void {
+          this.errorListeners.forEach(listener => listener(error));
+     }
+
+     /**
+      *
+      * @private
+      * @param {Error} error - The error to reject the waiters with.
+      */
+     private rejectOpenWaiters(error: Error): void {
+          this.openWaiters.splice(0).forEach(waiter => waiter.reject(error));
+     }
+}
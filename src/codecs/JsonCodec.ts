@@ -0,0 +1,57 @@
+import { ICodec } from '../interfaces/ICodec';
+import { ERROR_CODES } from '../config/errorCodes';
+import { MessageError } from '../utils/MessageError';
+import { isBinary, toBuffer } from '../utils/binary';
+
+/**
+ * JsonCodec: A codec serializing messages as JSON text frames.
+ *
+ * This is the default codec, used for connections that do not request a subprotocol. JSON has no
+ * binary type, so Buffers, ArrayBuffers and typed arrays are written as `{ "$binary": "<base64>" }`
+ * and turned back into Buffers when received.
+ */
+export class JsonCodec implements ICodec {
+     /**
+      * The subprotocol the codec is negotiated with.
+      *
+      * @type {string}
+      * @memberof JsonCodec
+      */
+     public readonly name: string = 'json';
+
+     /**
+      * Serializes a message as JSON, encoding binary data as base64.
+      *
+      * @param {object} message - The message to serialize.
+      * @returns {string} - The JSON text.
+      */
+     encode(message: object): string {
+          return JSON.stringify(message, function (this: any, key: string, value: unknown) {
+               const original = this[key];
+               if (isBinary(original)) {
+                    return { $binary: toBuffer(original).toString('base64') };
+               }
+               return value;
+          });
+     }
+
+     /**
+      * Deserializes JSON text, decoding `$binary` values into Buffers.
+      *
+      * @param {Buffer} data - The JSON text.
+      * @returns {unknown} - The decoded message.
+      * @throws {MessageError} - If the text is not valid JSON.
+      */
+     decode(data: Buffer): unknown {
+          try {
+               return JSON.parse(data.toString(), (_key: string, value: any) => {
+                    if (value && typeof value.$binary === 'string' && Object.keys(value).length === 1) {
+                         return Buffer.from(value.$binary, 'base64');
+                    }
+                    return value;
+               });
+          } catch {
+               throw new MessageError(ERROR_CODES.INVALID_JSON, 'Invalid JSON format');
+          }
+     }
+}
@@ -0,0 +1,409 @@
+import { ICodec } from '../interfaces/ICodec';
+import { ERROR_CODES } from '../config/errorCodes';
+import { MessageError } from '../utils/MessageError';
+import { isBinary, toBuffer } from '../utils/binary';
+
+/**
+ * The extension type MessagePack reserves for timestamps.
+ */
+const TIMESTAMP_EXTENSION = -1;
+
+/**
+ * The maximum nesting depth of arrays and maps in decoded data.
+ */
+const MAX_DEPTH = 100;
+
+/**
+ * Checks whether a value has a `toJSON` method, like dates.
+ *
+ * @param {object} value - The value to check.
+ * @returns {boolean} - True if the value has a `toJSON` method, false otherwise.
+ */
+function hasToJSON(value: object): value is { toJSON(): unknown } {
+     return typeof (value as { toJSON?: unknown }).toJSON === 'function';
+}
+
+/**
+ * MessagePackCodec: A codec serializing messages as MessagePack binary frames.
+ *
+ * Negotiated with the `msgpack` subprotocol. MessagePack is more compact and faster to encode than
+ * JSON for numeric payloads, and carries Buffers, ArrayBuffers and typed arrays as native `bin`
+ * values, which are received as Buffers.
+ *
+ * Values are encoded the way `JSON.stringify` would treat them, except for binary data: objects
+ * with a `toJSON` method (such as dates) are encoded as its result, and `undefined` and functions
+ * are omitted from maps. 64-bit integers are decoded as numbers and may lose precision beyond
+ * `Number.MAX_SAFE_INTEGER`; timestamp extensions are decoded as dates. Decoded data may nest
+ * arrays and maps at most 100 levels deep, and sizes that exceed the data are rejected before
+ * anything is allocated for them.
+ */
+export class MessagePackCodec implements ICodec {
+     /**
+      * The subprotocol the codec is negotiated with.
+      *
+      * @type {string}
+      * @memberof MessagePackCodec
+      */
+     public readonly name: string = 'msgpack';
+
+     /**
+      * Serializes a message as MessagePack.
+      *
+      * @param {object} message - The message to serialize.
+      * @returns {Buffer} - The MessagePack data.
+      */
+     encode(message: object): Buffer {
+          const encoder = new Encoder();
+          encoder.write(message);
+          return encoder.finish();
+     }
+
+     /**
+      * Deserializes MessagePack data.
+      *
+      * @param {Buffer} data - The MessagePack data.
+      * @returns {unknown} - The decoded message.
+      * @throws {MessageError} - If the data is not valid MessagePack.
+      */
+     decode(data: Buffer): unknown {
+          try {
+               const decoder = new Decoder(data);
+               const value = decoder.read();
+               decoder.finish();
+               return value;
+          } catch {
+               throw new MessageError(ERROR_CODES.INVALID_ENCODING, 'Invalid MessagePack data');
+          }
+     }
+}
+
+/**
+ * Encoder: Writes MessagePack values into a growing buffer.
+ */
+class Encoder {
+     private buffer: Buffer = Buffer.allocUnsafe(256);
+     private offset = 0;
+
+     /**
+      * Writes a value.
+      *
+      * @param {unknown} value - The value to write.
+      */
+     write(value: unknown): void {
+          if (value === null || value === undefined) {
+               this.byte(0xc0);
+          } else if (typeof value === 'boolean') {
+               this.byte(value ? 0xc3 : 0xc2);
+          } else if (typeof value === 'number') {
+               this.number(value);
+          } else if (typeof value === 'bigint') {
+               this.bigint(value);
+          } else if (typeof value === 'string') {
+               this.string(value);
+          } else if (isBinary(value)) {
+               this.binary(toBuffer(value));
+          } else if (Array.isArray(value)) {
+               this.header(value.length, 0x90, 16, 0xdc, 0xdd);
+               value.forEach(item => this.write(typeof item === 'function' ? null : item));
+          } else if (typeof value === 'object' && hasToJSON(value)) {
+               this.write(value.toJSON());
+          } else if (typeof value === 'object') {
+               const entries = Object.entries(value as Record<string, unknown>)
+                    .filter(([, item]) => item !== undefined && typeof item !== 'function');
+               this.header(entries.length, 0x80, 16, 0xde, 0xdf);
+               entries.forEach(([key, item]) => {
+                    this.string(key);
+                    this.write(item);
+               });
+          } else {
+               this.byte(0xc0);
+          }
+     }
+
+     /**
+      * Returns the written bytes.
+      *
+      * @returns {Buffer} - The MessagePack data.
+      */
+     finish(): Buffer {
+          return this.buffer.subarray(0, this.offset);
+     }
+
+     private number(value: number): void {
+          if (!Number.isSafeInteger(value)) {
+               this.reserve(9);
+               this.buffer[this.offset] = 0xcb;
+               this.buffer.writeDoubleBE(value, this.offset + 1);
+               this.offset += 9;
+          } else if (value >= 0) {
+               if (value < 0x80) {
+                    this.byte(value);
+               } else if (value <= 0xff) {
+                    this.byte(0xcc);
+                    this.byte(value);
+               } else if (value <= 0xffff) {
+                    this.byte(0xcd);
+                    this.uint16(value);
+               } else if (value <= 0xffffffff) {
+                    this.byte(0xce);
+                    this.uint32(value);
+               } else {
+                    this.bigint(BigInt(value));
+               }
+          } else {
+               if (value >= -0x20) {
+                    this.byte(value & 0xff);
+               } else if (value >= -0x80) {
+                    this.byte(0xd0);
+                    this.byte(value & 0xff);
+               } else if (value >= -0x8000) {
+                    this.byte(0xd1);
+                    this.uint16(value & 0xffff);
+               } else if (value >= -0x80000000) {
+                    this.reserve(5);
+                    this.buffer[this.offset] = 0xd2;
+                    this.buffer.writeInt32BE(value, this.offset + 1);
+                    this.offset += 5;
+               } else {
+                    this.bigint(BigInt(value));
+               }
+          }
+     }
+
+     private bigint(value: bigint): void {
+          this.reserve(9);
+          if (value >= BigInt(0)) {
+               this.buffer[this.offset] = 0xcf;
+               this.buffer.writeBigUInt64BE(value, this.offset + 1);
+          } else {
+               this.buffer[this.offset] = 0xd3;
+               this.buffer.writeBigInt64BE(value, this.offset + 1);
+          }
+          this.offset += 9;
+     }
+
+     private string(value: string): void {
+          const length = Buffer.byteLength(value);
+          if (length < 32) {
+               this.byte(0xa0 | length);
+          } else if (length <= 0xff) {
+               this.byte(0xd9);
+               this.byte(length);
+          } else {
+               this.header(length, 0, 0, 0xda, 0xdb);
+          }
+          this.reserve(length);
+          this.offset += this.buffer.write(value, this.offset, 'utf8');
+     }
+
+     private binary(value: Buffer): void {
+          if (value.length <= 0xff) {
+               this.byte(0xc4);
+               this.byte(value.length);
+          } else {
+               this.header(value.length, 0, 0, 0xc5, 0xc6);
+          }
+          this.reserve(value.length);
+          value.copy(this.buffer, this.offset);
+          this.offset += value.length;
+     }
+
+     /**
+      * Writes the header of a sized value: a fix type if the size is below `fixLimit`, and a
+      * 16-bit or 32-bit type otherwise.
+      */
+     private header(size: number, fixType: number, fixLimit: number, type16: number, type32: number): void {
+          if (size < fixLimit) {
+               this.byte(fixType | size);
+          } else if (size <= 0xffff) {
+               this.byte(type16);
+               this.uint16(size);
+          } else {
+               this.byte(type32);
+               this.uint32(size);
+          }
+     }
+
+     private byte(value: number): void {
+          this.reserve(1);
+          this.buffer[this.offset++] = value;
+     }
+
+     private uint16(value: number): void {
+          this.reserve(2);
+          this.buffer.writeUInt16BE(value, this.offset);
+          this.offset += 2;
+     }
+
+     private uint32(value: number): void {
+          this.reserve(4);
+          this.buffer.writeUInt32BE(value, this.offset);
+          this.offset += 4;
+     }
+
+     private reserve(size: number): void {
+          if (this.offset + size <= this.buffer.length) {
+               return;
+          }
+          const grown = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.offset + size));
+          this.buffer.copy(grown, 0, 0, this.offset);
+          this.buffer = grown;
+     }
+}
+
+/**
+ * Decoder: Reads MessagePack values from a buffer.
+ */
+class Decoder {
+     private offset = 0;
+     private depth = 0;
+
+     constructor(private buffer: Buffer) { }
+
+     /**
+      * Reads the next value.
+      *
+      * @returns {unknown} - The decoded value.
+      * @throws {Error} - If the data is truncated, nested too deeply or uses an unsupported type.
+      */
+     read(): unknown {
+          const type = this.uint(1);
+
+          if (type < 0x80) {
+               return type;
+          }
+          if (type < 0x90) {
+               return this.map(type & 0x0f);
+          }
+          if (type < 0xa0) {
+               return this.array(type & 0x0f);
+          }
+          if (type < 0xc0) {
+               return this.string(type & 0x1f);
+          }
+          if (type >= 0xe0) {
+               return type - 0x100;
+          }
+
+          switch (type) {
+               case 0xc0: return null;
+               case 0xc2: return false;
+               case 0xc3: return true;
+               case 0xc4: return Buffer.from(this.bytes(this.uint(1)));
+               case 0xc5: return Buffer.from(this.bytes(this.uint(2)));
+               case 0xc6: return Buffer.from(this.bytes(this.uint(4)));
+               case 0xc7: return this.extension(this.uint(1));
+               case 0xc8: return this.extension(this.uint(2));
+               case 0xc9: return this.extension(this.uint(4));
+               case 0xca: return this.bytes(4).readFloatBE(0);
+               case 0xcb: return this.bytes(8).readDoubleBE(0);
+               case 0xcc: return this.uint(1);
+               case 0xcd: return this.uint(2);
+               case 0xce: return this.uint(4);
+               case 0xcf: return Number(this.bytes(8).readBigUInt64BE(0));
+               case 0xd0: return this.bytes(1).readInt8(0);
+               case 0xd1: return this.bytes(2).readInt16BE(0);
+               case 0xd2: return this.bytes(4).readInt32BE(0);
+               case 0xd3: return Number(this.bytes(8).readBigInt64BE(0));
+               case 0xd4: return this.extension(1);
+               case 0xd5: return this.extension(2);
+               case 0xd6: return this.extension(4);
+               case 0xd7: return this.extension(8);
+               case 0xd8: return this.extension(16);
+               case 0xd9: return this.string(this.uint(1));
+               case 0xda: return this.string(this.uint(2));
+               case 0xdb: return this.string(this.uint(4));
+               case 0xdc: return this.array(this.uint(2));
+               case 0xdd: return this.array(this.uint(4));
+               case 0xde: return this.map(this.uint(2));
+               case 0xdf: return this.map(this.uint(4));
+               default: throw new Error(`Unsupported type 0x${type.toString(16)}`);
+          }
+     }
+
+     /**
+      * Checks that the whole buffer has been read.
+      *
+      * @throws {Error} - If bytes are left over after the value.
+      */
+     finish(): void {
+          if (this.offset !== this.buffer.length) {
+               throw new Error('Unexpected data after value');
+          }
+     }
+
+     private array(length: number): unknown[] {
+          this.enter(length);
+          const items: unknown[] = [];
+          for (let i = 0; i < length; i++) {
+               items.push(this.read());
+          }
+          this.depth--;
+          return items;
+     }
+
+     private map(size: number): Record<string, unknown> {
+          this.enter(size * 2);
+          const map: Record<string, unknown> = {};
+          for (let i = 0; i < size; i++) {
+               const key = String(this.read());
+               Object.defineProperty(map, key, { value: this.read(), enumerable: true, writable: true, configurable: true });
+          }
+          this.depth--;
+          return map;
+     }
+
+     /**
+      * Enters an array or map, checking its nesting depth and that the data left can hold its
+      * values, each of which takes at least one byte.
+      *
+      * @throws {Error} - If the array or map is nested too deeply or has more values than bytes left.
+      */
+     private enter(values: number): void {
+          if (++this.depth > MAX_DEPTH) {
+               throw new Error('Maximum nesting depth exceeded');
+          }
+          if (values > this.buffer.length - this.offset) {
+               throw new Error('Unexpected end of data');
+          }
+     }
+
+     private string(length: number): string {
+          return this.bytes(length).toString('utf8');
+     }
+
+     private extension(length: number): Date {
+          const type = this.bytes(1).readInt8(0);
+          const data = this.bytes(length);
+          if (type !== TIMESTAMP_EXTENSION) {
+               throw new Error(`Unsupported extension type ${type}`);
+          }
+
+          switch (length) {
+               case 4:
+                    return new Date(data.readUInt32BE(0) * 1000);
+               case 8: {
+                    const nanoseconds = data.readUInt32BE(0) >>> 2;
+                    const seconds = (data.readUInt32BE(0) & 0x03) * 0x100000000 + data.readUInt32BE(4);
+                    return new Date(seconds * 1000 + nanoseconds / 1e6);
+               }
+               case 12:
+                    return new Date(Number(data.readBigInt64BE(4)) * 1000 + data.readUInt32BE(0) / 1e6);
+               default:
+                    throw new Error(`Invalid timestamp length ${length}`);
+          }
+     }
+
+     private uint(size: number): number {
+          return this.bytes(size).readUIntBE(0, size);
+     }
+
+     private bytes(length: number): Buffer {
+          if (this.offset + length > this.buffer.length) {
+               throw new Error('Unexpected end of data');
+          }
+          const bytes = this.buffer.subarray(this.offset, this.offset + length);
+          this.offset += length;
+          return bytes;
+     }
+}
@@ -0,0 +1,15 @@
+/**
+ * WebSocket close codes used by the server when it closes a connection.
+ *
+ * Codes below 4000 are defined by RFC 6455; codes from 4000 are application-specific.
+ */
+export const CLOSE_CODES = {
+     NORMAL: 1000,
+     GOING_AWAY: 1001,
+     POLICY_VIOLATION: 1008,
+     INTERNAL_ERROR: 1011,
+     HEARTBEAT_TIMEOUT: 4000,
+     TOKEN_EXPIRED: 4001,
+     TOKEN_REVOKED: 4002,
+     SLOW_CONSUMER: 4003,
+};
@@ -0,0 +1,19 @@
+/**
+ * Error codes sent to clients in `IErrorMessage` replies.
+ *
+ * Clients should branch on these codes rather than on the human-readable `error` text.
+ */
+export const ERROR_CODES = {
+     AUTH_FAILED: 'AUTH_FAILED',
+     FORBIDDEN: 'FORBIDDEN',
+     INVALID_JSON: 'INVALID_JSON',
+     INVALID_ENCODING: 'INVALID_ENCODING',
+     INVALID_MESSAGE: 'INVALID_MESSAGE',
+     INVALID_ROOM: 'INVALID_ROOM',
+     NOT_ROOM_MEMBER: 'NOT_ROOM_MEMBER',
+     USER_OFFLINE: 'USER_OFFLINE',
+     UNKNOWN_EVENT: 'UNKNOWN_EVENT',
+     REQUEST_TIMEOUT: 'REQUEST_TIMEOUT',
+     RATE_LIMITED: 'RATE_LIMITED',
+     INTERNAL_ERROR: 'INTERNAL_ERROR',
+};
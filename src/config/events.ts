@@ -0,0 +1,27 @@
+/**
+ * Reserved event names used by the server's built-in message handling.
+ *
+ * Messages without a `type` are dispatched as `SYSTEM_EVENTS.MESSAGE`. Application events
+ * should use their own namespace (e.g. `chat:send`) to avoid clashing with these names.
+ */
+export const SYSTEM_EVENTS = {
+     MESSAGE: 'message',
+     ACK: 'ack',
+     ERROR: 'error',
+     ROOM_JOIN: 'room:join',
+     ROOM_LEAVE: 'room:leave',
+     ROOM_JOINED: 'room:joined',
+     ROOM_LEFT: 'room:left',
+     AUTH_REFRESH: 'auth:refresh',
+     AUTH_REFRESHED: 'auth:refreshed',
+     AUTH_EXPIRING: 'auth:expiring',
+     PRESENCE_ONLINE: 'presence:online',
+     PRESENCE_OFFLINE: 'presence:offline',
+     PRESENCE_STATUS: 'presence:status',
+     PRESENCE_SUBSCRIBE: 'presence:subscribe',
+     PRESENCE_SUBSCRIBED: 'presence:subscribed',
+     PRESENCE_UNSUBSCRIBE: 'presence:unsubscribe',
+     HISTORY_REPLAY: 'history:replay',
+     HISTORY_REPLAYED: 'history:replayed',
+     SERVER_SHUTDOWN: 'server:shutdown',
+};
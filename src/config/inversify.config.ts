@@ -8,6 +8,29 @@ import { IAuthService } from "../interfaces/IAuthService";
 import { AuthService } from "../services/AuthService";
 import { IWebSocketService } from "../interfaces/IWebSocketService";
 import { WebSocketService } from "../services/WebSocketService";
+import { IRoomService } from "../interfaces/IRoomService";
+import { RoomService } from "../services/RoomService";
+import { IEventRouter } from "../interfaces/IEventRouter";
+import { EventRouter } from "../services/EventRouter";
+import { IAckService } from "../interfaces/IAckService";
+import { AckService } from "../services/AckService";
+import { IAdapter } from "../interfaces/IAdapter";
+import { IMetricsService } from "../interfaces/IMetricsService";
+import { MetricsService } from "../services/MetricsService";
+import { IRateLimiter } from "../interfaces/IRateLimiter";
+import { RateLimiterService } from "../services/RateLimiterService";
+import { IMessageValidator } from "../interfaces/IMessageValidator";
+import { ValidationService } from "../services/ValidationService";
+import { IMiddlewareService } from "../interfaces/IMiddleware";
+import { MiddlewareService } from "../services/MiddlewareService";
+import { ICodecService } from "../interfaces/ICodec";
+import { CodecService } from "../services/CodecService";
+import { IAuthorizationService } from "../interfaces/IAuthorizationService";
+import { AuthorizationService } from "../services/AuthorizationService";
+import { IPresenceService } from "../interfaces/IPresenceService";
+import { PresenceService } from "../services/PresenceService";
+import { IMessageStore } from "../interfaces/IMessageStore";
+import { InMemoryMessageStore } from "../stores/InMemoryMessageStore";
 import { WebSocketController } from "../controllers/WebSocketController";
 import { IConfig } from "../interfaces/IConfig";
 import { Config } from "../utils/Config";
@@ -25,6 +48,18 @@ import { Config } from "../utils/Config";
  * - Binds `ILogger` to a singleton instance of `LoggerService` for logging functionalities.
  * - Binds `IAuthService` to a singleton instance of `AuthService` for authentication-related operations.
  * - Binds `IWebSocketService` to a singleton instance of `WebSocketService` for WebSocket handling.
+ * - Binds `IRoomService` to a singleton instance of `RoomService` for room membership tracking.
+ * - Binds `IEventRouter` to a singleton instance of `EventRouter` for dispatching incoming messages by type.
+ * - Binds `IAckService` to a singleton instance of `AckService` for correlating requests with their replies.
+ * - Binds `IMetricsService` to a singleton instance of `MetricsService` for collecting metrics.
+ * - Binds `IMessageValidator` to a singleton instance of `ValidationService` for validating incoming messages.
+ * - Binds `IMiddlewareService` to a singleton instance of `MiddlewareService` for running middleware chains.
+ * - Binds `ICodecService` to a singleton instance of `CodecService` for negotiating message codecs.
+ * - Binds `IAuthorizationService` to a singleton instance of `AuthorizationService` for checking access policies.
+ * - Binds `IPresenceService` to a singleton instance of `PresenceService` for tracking online users.
+ * - Binds `IRateLimiter` to the configured rate limiter, or a singleton instance of `RateLimiterService` otherwise.
+ * - Binds `IMessageStore` to the configured message store, or an `InMemoryMessageStore` otherwise, for keeping the message history.
+ * - Binds `IAdapter` to the configured adapter, if any, for forwarding messages between server instances.
  * - Binds `WebSocketController` to a singleton instance for managing WebSocket events and connections.
  *
  * Each dependency is registered with a singleton scope to ensure one shared instance across the application.
@@ -49,6 +84,68 @@ export function createContainer(configOptions: Partial<IConfig>): Container {
           .to(WebSocketService)
           .inSingletonScope();
 
+     container
+          .bind<IRoomService>(TYPES.IRoomService)
+          .to(RoomService)
+          .inSingletonScope();
+
+     container
+          .bind<IEventRouter>(TYPES.IEventRouter)
+          .to(EventRouter)
+          .inSingletonScope();
+
+     container
+          .bind<IAckService>(TYPES.IAckService)
+          .to(AckService)
+          .inSingletonScope();
+
+     container
+          .bind<IMetricsService>(TYPES.IMetricsService)
+          .to(MetricsService)
+          .inSingletonScope();
+
+     container
+          .bind<IMessageValidator>(TYPES.IMessageValidator)
+          .to(ValidationService)
+          .inSingletonScope();
+
+     container
+          .bind<IMiddlewareService>(TYPES.IMiddlewareService)
+          .to(MiddlewareService)
+          .inSingletonScope();
+
+     container
+          .bind<ICodecService>(TYPES.ICodecService)
+          .to(CodecService)
+          .inSingletonScope();
+
+     container
+          .bind<IAuthorizationService>(TYPES.IAuthorizationService)
+          .to(AuthorizationService)
+          .inSingletonScope();
+
+     container
+          .bind<IPresenceService>(TYPES.IPresenceService)
+          .to(PresenceService)
+          .inSingletonScope();
+
+     if (configOptions.rateLimiter) {
+          container.bind<IRateLimiter>(TYPES.IRateLimiter).toConstantValue(configOptions.rateLimiter);
+     } else {
+          container
+               .bind<IRateLimiter>(TYPES.IRateLimiter)
+               .to(RateLimiterService)
+               .inSingletonScope();
+     }
+
+     container
+          .bind<IMessageStore>(TYPES.IMessageStore)
+          .toConstantValue(configOptions.messageStore ?? new InMemoryMessageStore(configOptions.history?.size));
+
+     if (configOptions.adapter) {
+          container.bind<IAdapter>(TYPES.IAdapter).toConstantValue(configOptions.adapter);
+     }
+
      container
           .bind<WebSocketController>(TYPES.WebSocketController)
           .to(WebSocketController)
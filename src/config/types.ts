@@ -2,6 +2,18 @@ export const TYPES = {
      ILogger: 'ILogger',
      IAuthService: 'IAuthService',
      IWebSocketService: 'IWebSocketService',
+     IRoomService: 'IRoomService',
+     IEventRouter: 'IEventRouter',
+     IAckService: 'IAckService',
+     IAdapter: 'IAdapter',
+     IMetricsService: 'IMetricsService',
+     IRateLimiter: 'IRateLimiter',
+     IMessageValidator: 'IMessageValidator',
+     IMiddlewareService: 'IMiddlewareService',
+     ICodecService: 'ICodecService',
+     IAuthorizationService: 'IAuthorizationService',
+     IPresenceService: 'IPresenceService',
+     IMessageStore: 'IMessageStore',
      WebSocketController: 'WebSocketController',
      IConfig: 'IConfig',
 };
@@ -1,15 +1,201 @@
-import { inject, injectable } from 'inversify';
+import { inject, injectable, optional } from 'inversify';
 
-import { WebSocketServer, WebSocket } from 'ws';
-import { IncomingMessage } from 'http';
+import { WebSocketServer, WebSocket, RawData, PerMessageDeflateOptions } from 'ws';
+import { IncomingMessage, STATUS_CODES } from 'http';
 import { Socket } from 'net';
+import { randomUUID } from 'crypto';
+import { deflateRaw } from 'zlib';
 
 import { TYPES } from '../config/types';
+import { ERROR_CODES } from '../config/errorCodes';
+import { SYSTEM_EVENTS } from '../config/events';
+import { CLOSE_CODES } from '../config/closeCodes';
 import { ILogger } from '../interfaces/ILogger';
 import { IAuthService } from '../interfaces/IAuthService';
 import { IWebSocketService } from '../interfaces/IWebSocketService';
+import { IRoomService } from '../interfaces/IRoomService';
 import { IMessage } from '../interfaces/IMessage';
+import { IEventRouter, IEventContext } from '../interfaces/IEventRouter';
+import { IErrorMessage } from '../interfaces/IErrorMessage';
+import { IAckService } from '../interfaces/IAckService';
+import { IAdapter, IAdapterPacket } from '../interfaces/IAdapter';
+import { IMetricsService } from '../interfaces/IMetricsService';
+import { IRateLimiter } from '../interfaces/IRateLimiter';
+import { IMessageValidator, IValidationIssue } from '../interfaces/IMessageValidator';
+import { IMiddlewareService, IHandshakeContext } from '../interfaces/IMiddleware';
+import { ICodec, ICodecService } from '../interfaces/ICodec';
+import { IAuthorizationService } from '../interfaces/IAuthorizationService';
+import { AccessAction } from '../interfaces/IAuthorizationOptions';
+import { IPresenceService, IPresenceChange } from '../interfaces/IPresenceService';
+import { IMessageStore } from '../interfaces/IMessageStore';
+import { MessagePriority, OverflowPolicy } from '../interfaces/IBackpressureOptions';
+import { IRateLimitPolicy, RateLimitAction } from '../interfaces/IRateLimitOptions';
+import { IPrincipal } from '../interfaces/IPrincipal';
+import { IConnection, IConnectionStats } from '../interfaces/IConnection';
+import { ICompressionOptions } from '../interfaces/ICompressionOptions';
 import { IConfig } from '../interfaces/IConfig';
+import { IDisconnectInfo, DisconnectReason } from '../interfaces/IDisconnectInfo';
+import { MessageError } from '../utils/MessageError';
+import { RejectionError } from '../utils/RejectionError';
+import { AuthenticationError } from '../utils/AuthenticationError';
+import { toBuffer } from '../utils/binary';
+import { assertValidClose, isValidCloseCode, truncateCloseReason } from '../utils/close';
+import { OutboundQueue } from '../utils/OutboundQueue';
+import { WebSocketMetrics } from '../metrics/WebSocketMetrics';
+import { User } from '../model/User';
+
+/**
+ * The default number of milliseconds before the credentials of a connection expire at which the client is warned.
+ */
+const DEFAULT_EXPIRY_WARNING = 60000;
+
+/**
+ * The longest delay `setTimeout` supports. Expiries further away are rescheduled once it elapses.
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * The default maximum number of messages replayed per `history:replay` request.
+ */
+const DEFAULT_REPLAY_LIMIT = 1000;
+
+/**
+ * The history stream of the messages broadcasted to every client.
+ */
+const BROADCAST_STREAM = 'broadcast';
+
+/**
+ * The default number of milliseconds a shutdown drains connections before terminating them.
+ */
+const DEFAULT_DRAIN_TIMEOUT = 10000;
+
+/**
+ * The default number of milliseconds clients are told to wait before reconnecting after a shutdown.
+ */
+const DEFAULT_RECONNECT_DELAY = 1000;
+
+/**
+ * The number of milliseconds between two checks while a shutdown drains connections.
+ */
+const DRAIN_POLL_INTERVAL = 50;
+
+/**
+ * The default number of bytes buffered by a socket above which outbound messages are queued.
+ */
+const DEFAULT_HIGH_WATER_MARK = 1024 * 1024;
+
+/**
+ * The default maximum number of data messages queued per connection.
+ */
+const DEFAULT_MAX_QUEUE_SIZE = 1000;
+
+/**
+ * The default maximum number of control messages queued per connection.
+ */
+const DEFAULT_MAX_CONTROL_QUEUE_SIZE = 1000;
+
+/**
+ * The default policy applied when the outbound queue of a connection is full.
+ */
+const DEFAULT_OVERFLOW_POLICY: OverflowPolicy = 'drop-oldest';
+
+/**
+ * The default size, in bytes, from which outgoing messages are compressed.
+ */
+const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+/**
+ * The default zlib settings of the permessage-deflate compressors.
+ */
+const DEFAULT_COMPRESSION_LEVEL = 3;
+const DEFAULT_COMPRESSION_MEM_LEVEL = 7;
+const DEFAULT_COMPRESSION_WINDOW_BITS = 13;
+const DEFAULT_COMPRESSION_CONCURRENCY = 10;
+
+/**
+ * The default share of compressed messages whose compression ratio is measured.
+ */
+const DEFAULT_COMPRESSION_SAMPLE_RATE = 0.1;
+
+/**
+ * Frame: A serialized message, shared by every connection it is sent to.
+ */
+interface Frame {
+     data: Buffer;
+     binary: boolean;
+     compress?: boolean;
+}
+
+/**
+ * Wraps the output of a codec in a frame, encoding text once so that it is not re-encoded per connection.
+ *
+ * @param {string | Buffer} payload - The serialized message, sent as a text or binary frame.
+ * @returns {Frame} - The frame.
+ */
+function toFrame(payload: string | Buffer): Frame {
+     return typeof payload === 'string' ? { data: Buffer.from(payload), binary: false } : { data: payload, binary: true };
+}
+
+/**
+ * Builds the permessage-deflate settings offered to clients from the compression options.
+ *
+ * The library threshold is disabled, as the compression policy decides per message.
+ *
+ * @param {ICompressionOptions} options - The compression options.
+ * @returns {PerMessageDeflateOptions} - The `perMessageDeflate` option of the WebSocket server.
+ */
+function toPerMessageDeflate(options: ICompressionOptions): PerMessageDeflateOptions {
+     const noContextTakeover = !(options.contextTakeover ?? false);
+     return {
+          threshold: 0,
+          zlibDeflateOptions: {
+               level: options.level ?? DEFAULT_COMPRESSION_LEVEL,
+               memLevel: options.memLevel ?? DEFAULT_COMPRESSION_MEM_LEVEL,
+          },
+          serverMaxWindowBits: options.windowBits ?? DEFAULT_COMPRESSION_WINDOW_BITS,
+          ...(options.clientMaxWindowBits !== undefined && { clientMaxWindowBits: options.clientMaxWindowBits }),
+          serverNoContextTakeover: noContextTakeover,
+          clientNoContextTakeover: noContextTakeover,
+          concurrencyLimit: options.concurrencyLimit ?? DEFAULT_COMPRESSION_CONCURRENCY,
+     };
+}
+
+/**
+ * AdmissionError: The refusal of an upgrade request by admission control.
+ */
+class AdmissionError extends Error {
+     /**
+      * @param {string} reason - What the request was refused for: `origin`, `rate`, `capacity`, `address` or `user`.
+      * @param {number} status - The HTTP status code of the response.
+      * @param {string} message - The response body.
+      * @param {number} [retryAfter] - Milliseconds until the client may try again.
+      */
+     constructor(public reason: string, public status: number, message: string, public retryAfter?: number) {
+          super(message);
+          this.name = 'AdmissionError';
+     }
+}
+
+/**
+ * Traffic: The messages and bytes a connection received and was sent.
+ */
+interface Traffic {
+     messagesReceived: number;
+     messagesSent: number;
+     bytesReceived: number;
+     bytesSent: number;
+     lastMessageAt: number | null;
+}
+
+/**
+ * Session: The credentials of a connection and the timers enforcing their expiry.
+ */
+interface Session {
+     connection: IConnection;
+     request: IncomingMessage;
+     warningTimer?: NodeJS.Timeout;
+     expiryTimer?: NodeJS.Timeout;
+}
 
 /**
  * WebSocketController: A class for managing WebSocket server and client interactions.
@@ -20,16 +206,43 @@ import { IConfig } from '../interfaces/IConfig';
  *
  * ## Responsibilities:
  * - Initializes a WebSocket server (`wss`) using provided configuration options.
- * - Manages WebSocket client connections and tracks them in a `Map`.
- * - Authenticates clients using token-based authentication.
+ * - Manages WebSocket client connections and tracks them in a `Map`, with the id, principal and request details of each.
+ * - Admits upgrade requests within the configured connection limits, origins and handshake rate.
+ * - Authenticates upgrade requests with the configured strategies before accepting them.
+ * - Warns clients before their credentials expire, lets them re-authenticate, and closes connections whose credentials expired or were revoked.
+ * - Tracks the presence of authenticated users and notifies subscribers and presence rooms of changes.
+ * - Negotiates the codec of each connection and serializes messages with it.
  * - Processes and broadcasts messages between connected clients.
+ * - Dispatches incoming messages to event handlers by their `type`.
+ * - Handles room join/leave events and scopes messages to room members.
+ * - Delivers direct messages to every connection of the addressed user.
+ * - Acknowledges messages carrying an `id` and correlates replies to server-side requests.
  * - Provides hooks for pre-processing and post-processing messages.
+ * - Pings clients periodically and removes connections that stop answering.
+ * - Reports why each connection ended through the `onDisconnect` hook.
+ * - Forwards messages to and from other server instances through an optional adapter.
+ * - Runs handshake middleware before accepting connections and message middleware before dispatching messages.
+ * - Validates incoming messages before they reach hooks or handlers.
+ * - Checks events, room joins and broadcasts against the access policies of the sender.
+ * - Limits the rate of incoming messages per connection, per user and per event type.
+ * - Records connection and message metrics.
  * - Logs key events such as connections, disconnections, and errors.
  *
  * ## Dependencies:
  * - `IWebSocketService`: Provides utility functions for WebSocket operations.
  * - `ILogger`: Handles logging of events and errors.
- * - `IAuthService`: Manages token-based client authentication.
+ * - `IAuthService`: Authenticates upgrade requests.
+ * - `IRoomService`: Tracks room membership of connected clients.
+ * - `IEventRouter`: Maps incoming message types to event handlers.
+ * - `IAckService`: Correlates server-side requests with client replies.
+ * - `IMetricsService`: Registry for the connection and message metrics.
+ * - `IRateLimiter`: Token buckets backing the configured rate limits.
+ * - `IMessageValidator`: Checks message envelopes and payloads against their schemas.
+ * - `IMiddlewareService`: Runs the handshake and message middleware chains.
+ * - `ICodecService`: Negotiates and provides the codec of each connection.
+ * - `IAuthorizationService`: Checks attempts against the configured access policies.
+ * - `IPresenceService`: Tracks which users are online and their status.
+ * - `IAdapter` (optional): Forwards messages between server instances.
  * - `IConfig`: Supplies configuration for the WebSocket server and hooks.
  */
 @injectable()
@@ -42,34 +255,197 @@ export class WebSocketController {
       */
      private wss: WebSocketServer;
 
+     /**
+      * The connection of each open socket.
+      *
+      * @private
+      * @type {Map<WebSocket, IConnection>}
+      * @memberof WebSocketController
+      */
+     private connections: Map<WebSocket, IConnection> = new Map();
+
+     /**
+      * The open sockets, keyed by the id of their connection.
+      *
+      * @private
+      * @type {Map<string, WebSocket>}
+      * @memberof WebSocketController
+      */
+     private sockets: Map<string, WebSocket> = new Map();
+
+     /**
+      * The connections of each authenticated user. Anonymous connections are not indexed, so that
+      * they cannot be addressed as the `Anonymous` user.
+      *
+      * @private
+      * @type {Map<string, Set<WebSocket>>}
+      * @memberof WebSocketController
+      */
+     private users: Map<string, Set<WebSocket>> = new Map();
+
+     /**
+      * Consecutive heartbeat pings each connection has left unanswered.
+      *
+      * @private
+      * @type {Map<WebSocket, number>}
+      * @memberof WebSocketController
+      */
+     private missedPongs: Map<WebSocket, number> = new Map();
+
+     /**
+      * Reasons recorded for connections the server is closing, reported once they have closed.
+      *
+      * @private
+      * @type {Map<WebSocket, DisconnectReason>}
+      * @memberof WebSocketController
+      */
+     private disconnectReasons: Map<WebSocket, DisconnectReason> = new Map();
+
+     /**
+      * The credentials of each connection and the timers enforcing their expiry.
+      *
+      * @private
+      * @type {Map<WebSocket, Session>}
+      * @memberof WebSocketController
+      */
+     private sessions: Map<WebSocket, Session> = new Map();
+
+     /**
+      * The users whose presence each connection subscribed to, `*` standing for every user.
+      *
+      * @private
+      * @type {Map<WebSocket, Set<string>>}
+      * @memberof WebSocketController
+      */
+     private presenceSubscriptions: Map<WebSocket, Set<string>> = new Map();
+
+     /**
+      * The live messages held back from each connection while its missed messages are replayed.
+      *
+      * @private
+      * @type {Map<WebSocket, object[]>}
+      * @memberof WebSocketController
+      */
+     private replayBuffers: Map<WebSocket, object[]> = new Map();
+
+     /**
+      * The last replay requested by each connection, after which its next replay starts.
+      *
+      * @private
+      * @type {Map<WebSocket, Promise<void>>}
+      * @memberof WebSocketController
+      */
+     private replays: Map<WebSocket, Promise<void>> = new Map();
+
+     /**
+      * The messages waiting for the socket of each connection to drain.
+      *
+      * @private
+      * @type {Map<WebSocket, OutboundQueue<Frame>>}
+      * @memberof WebSocketController
+      */
+     private outbound: Map<WebSocket, OutboundQueue<Frame>> = new Map();
+
+     /**
+      * The traffic counters of each connection.
+      *
+      * @private
+      * @type {Map<WebSocket, Traffic>}
+      * @memberof WebSocketController
+      */
+     private traffic: Map<WebSocket, Traffic> = new Map();
+
+     /**
+      * Whether the compression ratio of a sampled frame is being measured.
+      *
+      * @private
+      * @type {boolean}
+      * @memberof WebSocketController
+      */
+     private measuringCompression: boolean = false;
+
+     /**
+      * The connection slots of IP addresses and users each connection holds.
+      *
+      * @private
+      * @type {Map<WebSocket, string[]>}
+      * @memberof WebSocketController
+      */
+     private slots: Map<WebSocket, string[]> = new Map();
+
+     /**
+      * The number of connections and handshakes in progress of each IP address and user, keyed
+      * as `address:<ip>` or `user:<username>`. Only kept for the configured limits.
+      *
+      * @private
+      * @type {Map<string, number>}
+      * @memberof WebSocketController
+      */
+     private slotCounts: Map<string, number> = new Map();
+
+     /**
+      * The number of upgrade requests being admitted.
+      *
+      * @private
+      * @type {number}
+      * @memberof WebSocketController
+      */
+     private pendingAdmissions: number = 0;
+
+     /**
+      * The event handlers that have not settled yet, awaited when the server shuts down.
+      *
+      * @private
+      * @type {Set<Promise<void>>}
+      * @memberof WebSocketController
+      */
+     private inFlight: Set<Promise<void>> = new Set();
+
+     /**
+      * The pending shutdown, once `close()` has been called.
+      *
+      * @private
+      * @type {Promise<void>}
+      * @memberof WebSocketController
+      */
+     private closing?: Promise<void>;
+
+     /**
+      *
+      * @private
+      * @type {WebSocketMetrics}
+      * @memberof WebSocketController
+      */
+     private metrics: WebSocketMetrics;
+
      /**
       *
       * @private
-      * @type {Map<WebSocket, string>}
+      * @type {NodeJS.Timeout}
       * @memberof WebSocketController
       */
-     private clients: Map<WebSocket, string> = new Map();
+     private heartbeatTimer?: NodeJS.Timeout;
 
      /**
       *
       * @private
       * @memberof WebSocketController
       */
-     private beforeSend?: (message: IMessage<any>) => void;
+     private beforeSend?: (message: IMessage<any>, connection: IConnection) => void;
 
      /**
       *
       * @private
       * @memberof WebSocketController
       */
-     private afterSend?: (message: IMessage<any>) => void;
+     private afterSend?: (message: IMessage<any>, connection: IConnection) => void;
 
      /**
       *
       * @private
       * @memberof WebSocketController
       */
-     private onMessage?: (message: IMessage<any>) => void;
+     private onMessage?: (message: IMessage<any>, connection: IConnection) => void;
 
      /**
       * Constructor: Initializes the WebSocketController and sets up the WebSocket server.
@@ -77,20 +453,61 @@ export class WebSocketController {
       * @param {IWebSocketService} webSocketService - Utility service for WebSocket operations.
       * @param {ILogger} logger - Logger service for monitoring and debugging.
       * @param {IAuthService} authService - Authentication service for verifying tokens.
+      * @param {IRoomService} roomService - Room service for tracking room membership.
+      * @param {IEventRouter} eventRouter - Event router for dispatching incoming messages.
+      * @param {IAckService} ackService - Ack service for tracking server-side requests.
+      * @param {IMetricsService} metricsService - Metrics registry for recording connection and message metrics.
+      * @param {IRateLimiter} rateLimiter - Token buckets backing the configured rate limits.
+      * @param {IMessageValidator} messageValidator - Validator for incoming messages.
+      * @param {IMiddlewareService} middlewareService - Runner of the handshake and message middleware chains.
+      * @param {ICodecService} codecService - Provider of the codec of each connection.
+      * @param {IAuthorizationService} authorizationService - Checker of the access policies.
+      * @param {IPresenceService} presenceService - Tracker of online users.
+      * @param {IMessageStore} messageStore - History of the broadcast and room messages.
       * @param {IConfig} config - Configuration object for WebSocket server and hooks.
+      * @param {IAdapter} [adapter] - Adapter for forwarding messages between server instances.
       */
      constructor(
           @inject(TYPES.IWebSocketService) private webSocketService: IWebSocketService,
           @inject(TYPES.ILogger) private logger: ILogger,
           @inject(TYPES.IAuthService) private authService: IAuthService,
-          @inject(TYPES.IConfig) private config: IConfig
+          @inject(TYPES.IRoomService) private roomService: IRoomService,
+          @inject(TYPES.IEventRouter) private eventRouter: IEventRouter,
+          @inject(TYPES.IAckService) private ackService: IAckService,
+          @inject(TYPES.IMetricsService) private metricsService: IMetricsService,
+          @inject(TYPES.IRateLimiter) private rateLimiter: IRateLimiter,
+          @inject(TYPES.IMessageValidator) private messageValidator: IMessageValidator,
+          @inject(TYPES.IMiddlewareService) private middlewareService: IMiddlewareService,
+          @inject(TYPES.ICodecService) private codecService: ICodecService,
+          @inject(TYPES.IAuthorizationService) private authorizationService: IAuthorizationService,
+          @inject(TYPES.IPresenceService) private presenceService: IPresenceService,
+          @inject(TYPES.IMessageStore) private messageStore: IMessageStore,
+          @inject(TYPES.IConfig) private config: IConfig,
+          @inject(TYPES.IAdapter) @optional() private adapter?: IAdapter
      ) {
-          this.wss = new WebSocketServer({ noServer: true, ...this.config.wsOptions });
+          this.metrics = new WebSocketMetrics(this.metricsService);
+          this.wss = new WebSocketServer({
+               noServer: true,
+               handleProtocols: (protocols: Set<string>) => this.codecService.negotiate(protocols),
+               ...(this.config.compression?.enabled && { perMessageDeflate: toPerMessageDeflate(this.config.compression) }),
+               ...this.config.wsOptions,
+          });
           this.wss.on('connection', this.onConnection.bind(this));
+          this.presenceService.onChange(this.notifyPresence.bind(this));
 
           this.beforeSend = this.config.hooks?.beforeSend;
           this.afterSend = this.config.hooks?.afterSend;
           this.onMessage = this.config.onMessage;
+
+          this.registerSystemEvents();
+          this.startHeartbeat();
+
+          if (this.adapter) {
+               const dropPacket = (error: Error) => this.logger.warn('Dropped unreadable adapter packet', { error: error.message });
+               Promise.resolve(this.adapter.subscribe(packet => this.deliverPacket(packet), dropPacket)).catch((error: Error) => {
+                    this.logger.error('Adapter subscription failed', { error: error.message });
+               });
+          }
      }
 
      /**
@@ -100,132 +517,1799 @@ export class WebSocketController {
       * @param {Function} [afterSend] - Hook executed after a message is broadcasted.
       */
      public setLifecycleHooks(
-          beforeSend?: (message: IMessage<any>) => void,
-          afterSend?: (message: IMessage<any>) => void
+          beforeSend?: (message: IMessage<any>, connection: IConnection) => void,
+          afterSend?: (message: IMessage<any>, connection: IConnection) => void
      ) {
           this.beforeSend = beforeSend;
           this.afterSend = afterSend;
      }
 
      /**
-      * Handles HTTP-to-WebSocket upgrade requests.
+      * Handles HTTP-to-WebSocket upgrade requests. Requests are refused with a `503` response once
+      * the server is shutting down.
       *
       * @param {IncomingMessage} request - The incoming HTTP upgrade request.
       * @param {Socket} socket - The network socket for the connection.
       * @param {Buffer} head - The first packet of the upgraded stream.
       */
      public handleUpgrade(request: IncomingMessage, socket: Socket, head: Buffer): void {
-          this.wss.handleUpgrade(request, socket, head, (ws: WebSocket) => {
-               this.wss.emit('connection', ws, request);
+          if (this.closing) {
+               this.rejectUpgrade(socket, 503, 'Server shutting down');
+               return;
+          }
+
+          const onSocketError = (error: Error) => {
+               this.logger.debug('Socket error during handshake', { error: error.message });
+          };
+          socket.on('error', onSocketError);
+
+          this.admit(request, socket, head).finally(() => {
+               socket.removeListener('error', onSocketError);
           });
      }
 
      /**
-      * Handles a new WebSocket connection, authenticates the client, and sets up event listeners.
+      * Admits an upgrade request, holding a place among the handshakes in progress until it is
+      * accepted or refused. The connection slots reserved for a refused request are released.
       *
       * @private
-      * @param {WebSocket} ws - The WebSocket instance for the connected client.
-      * @param {IncomingMessage} request - The incoming HTTP request for the connection.
+      * @param {IncomingMessage} request - The incoming HTTP upgrade request.
+      * @param {Socket} socket - The network socket for the connection.
+      * @param {Buffer} head - The first packet of the upgraded stream.
+      * @returns {Promise<void>} - Resolves once the request is accepted or rejected.
       */
-     private onConnection(ws: WebSocket, request: IncomingMessage): void {
-          const token = this.extractToken(request.url);
-          const username = token ? this.authService.verifyToken(token) : null;
+     private async admit(request: IncomingMessage, socket: Socket, head: Buffer): Promise<void> {
+          const address = this.getRemoteAddress(request);
+          const slots: string[] = [];
+          let accepted = false;
 
-          if (token && !username) {
-               ws.send(JSON.stringify({ error: 'Authentication Failed' }));
-               ws.close(1008, 'Authentication Failed');
-               this.logger.warn('WebSocket connection closed due to failed authentication.');
-               return;
+          this.pendingAdmissions++;
+          try {
+               accepted = await this.negotiate(request, socket, head, address, slots);
+          } finally {
+               this.pendingAdmissions--;
+               if (!accepted) {
+                    this.releaseSlots(slots);
+               }
+          }
+     }
+
+     /**
+      * Applies admission control, authenticates an upgrade request and runs the handshake
+      * middleware before accepting it.
+      *
+      * Requests refused by admission control are answered with an HTTP error response. Requests
+      * with invalid credentials are upgraded so that the client receives an `AUTH_FAILED`
+      * error, then closed. The handshake middleware chain runs next, with the authenticated
+      * principal in its context; the connection is only accepted if every middleware calls
+      * `next()`. Values the middleware attaches to the handshake context are carried over to the
+      * connection.
+      *
+      * @private
+      * @param {IncomingMessage} request - The incoming HTTP upgrade request.
+      * @param {Socket} socket - The network socket for the connection.
+      * @param {Buffer} head - The first packet of the upgraded stream.
+      * @param {string} address - The IP address of the client.
+      * @param {string[]} slots - Collects the connection slots reserved for the request.
+      * @returns {Promise<boolean>} - True if the connection was accepted.
+      */
+     private async negotiate(request: IncomingMessage, socket: Socket, head: Buffer, address: string, slots: string[]): Promise<boolean> {
+          try {
+               await this.checkAdmission(request, address, slots);
+          } catch (error) {
+               this.refuseAdmission(socket, error as Error, address);
+               return false;
           }
 
-          const user = username || 'Anonymous';
-          this.clients.set(ws, user);
-          this.logger.log(`User connected: ${user}`);
+          let principal: IPrincipal | null;
+          try {
+               principal = await this.authService.authenticate(request);
+          } catch (error) {
+               if (!(error instanceof AuthenticationError)) {
+                    this.logger.error('Error in auth strategy', { error: (error as Error).message });
+                    this.rejectUpgrade(socket, 500, 'Internal Server Error');
+                    return false;
+               }
 
-          ws.on('message', (data: string) => {
-               let message: IMessage;
+               this.metrics.authFailures.inc();
+               this.logger.warn('WebSocket connection closed due to failed authentication.', { error: error.message, remoteAddress: address });
+               this.wss.handleUpgrade(request, socket, head, (ws: WebSocket) => {
+                    this.sendError(ws, ERROR_CODES.AUTH_FAILED, 'Authentication Failed');
+                    ws.close(CLOSE_CODES.POLICY_VIOLATION, 'Authentication Failed');
+               });
+               return false;
+          }
 
+          if (principal) {
                try {
-                    message = JSON.parse(data);
-                    message.sender = user;
+                    this.reserveSlot(slots, `user:${principal.id}`, this.config.admission?.maxConnectionsPerUser, 'Too many connections for user');
                } catch (error) {
-                    this.logger.error(`Error parsing message: ${(error as Error).message}`);
-                    ws.send(JSON.stringify({ error: 'Invalid JSON format' }));
-                    ws.close();
-                    return;
+                    this.refuseAdmission(socket, error as Error, address);
+                    return false;
                }
+          }
 
-               try {
-                    if (this.onMessage) {
-                         this.onMessage(message);
-                    } else {
-                         if (this.beforeSend) {
-                              this.beforeSend(message);
-                         }
-
-                         this.broadcastMessage(message);
-
-                         if (this.afterSend) {
-                              this.afterSend(message);
-                         }
-                    }
-               } catch (error) {
-                    this.logger.error(`Error processing message: ${(error as Error).message}`);
-                    ws.send(JSON.stringify({ error: 'Internal server error' }));
+          const context: IHandshakeContext = { request, principal, data: {} };
+          let accepted: boolean;
+          try {
+               accepted = await this.middlewareService.runHandshake(context);
+          } catch (error) {
+               if (error instanceof RejectionError) {
+                    this.logger.warn('Upgrade rejected by middleware', { status: error.status, error: error.message, remoteAddress: address });
+                    this.rejectUpgrade(socket, error.status, error.message);
+               } else {
+                    this.logger.error('Error in handshake middleware', { error: (error as Error).message });
+                    this.rejectUpgrade(socket, 500, 'Internal Server Error');
                }
-          });
+               return false;
+          }
 
-          ws.on('close', () => {
-               this.clients.delete(ws);
-               this.logger.log(`User disconnected: ${user}`);
-          });
+          if (!accepted) {
+               this.rejectUpgrade(socket, 403, 'Forbidden');
+               return false;
+          }
 
-          ws.on('error', (error: Error) => {
-               this.logger.error(`WebSocket error: ${error.message}`);
+          if (this.closing) {
+               this.rejectUpgrade(socket, 503, 'Server shutting down');
+               return false;
+          }
+
+          let upgraded = false;
+          this.wss.handleUpgrade(request, socket, head, (ws: WebSocket) => {
+               upgraded = true;
+               this.slots.set(ws, slots);
+               this.wss.emit('connection', ws, request, context, address);
           });
+          return upgraded;
      }
 
      /**
-      * Broadcasts a message to all connected WebSocket clients.
+      * Checks the origin, handshake rate and connection counts of an upgrade request, reserving
+      * a connection slot for its IP address.
       *
       * @private
-      * @param {IMessage<any>} message - The message to be broadcasted.
+      * @param {IncomingMessage} request - The incoming HTTP upgrade request.
+      * @param {string} address - The IP address of the client.
+      * @param {string[]} slots - Collects the connection slots reserved for the request.
+      * @returns {Promise<void>} - Resolves if the request is admitted.
+      * @throws {AdmissionError} - If the request is refused.
       */
-     private broadcastMessage(message: IMessage<any>): void {
-          this.wss.clients.forEach(client => {
-               if (client.readyState === WebSocket.OPEN) {
-                    client.send(JSON.stringify(message));
+     private async checkAdmission(request: IncomingMessage, address: string, slots: string[]): Promise<void> {
+          const options = this.config.admission;
+          if (!options) {
+               return;
+          }
+
+          const origin = request.headers.origin;
+          if (origin && options.allowedOrigins && !options.allowedOrigins.some(allowed => typeof allowed === 'string' ? allowed === origin : allowed.test(origin))) {
+               throw new AdmissionError('origin', 403, 'Origin not allowed');
+          }
+
+          if (options.handshakeRate) {
+               const result = await this.rateLimiter.consume(`handshake:${address}`, options.handshakeRate);
+               if (!result.allowed) {
+                    throw new AdmissionError('rate', 429, 'Too many handshakes', result.retryAfter);
                }
-          });
-          this.logger.log(`Broadcasted message from ${message.sender}`);
+          }
+
+          if (options.maxConnections !== undefined && this.connections.size + this.pendingAdmissions > options.maxConnections) {
+               throw new AdmissionError('capacity', 503, 'Too many connections');
+          }
+
+          this.reserveSlot(slots, `address:${address}`, options.maxConnectionsPerIp, 'Too many connections from address');
      }
 
      /**
-      * Extracts the token from a WebSocket request URL for authentication.
+      * Reserves a connection slot of an IP address or user, if it has any left.
       *
       * @private
-      * @param {string | undefined} url - The URL from which to extract the token.
-      * @returns {string | null} - The extracted token or null if not found.
+      * @param {string[]} slots - Collects the connection slots reserved for the request.
+      * @param {string} key - The IP address or user, as `address:<ip>` or `user:<username>`.
+      * @param {number | undefined} limit - The maximum number of connections of the key.
+      * @param {string} message - The reason given when no slot is left.
+      * @throws {AdmissionError} - If the key has no slot left.
       */
-     private extractToken(url: string | undefined): string | null {
-          if (!url) return null;
-          try {
-               const params = new URLSearchParams(url.split('?')[1]);
-               return params.get('token');
-          } catch {
-               return null;
+     private reserveSlot(slots: string[], key: string, limit: number | undefined, message: string): void {
+          if (limit === undefined) {
+               return;
+          }
+
+          const used = this.slotCounts.get(key) ?? 0;
+          if (used >= limit) {
+               throw new AdmissionError(key.slice(0, key.indexOf(':')), 429, message);
           }
+          this.slotCounts.set(key, used + 1);
+          slots.push(key);
      }
 
      /**
-      * Gracefully shuts down the WebSocket server and logs the closure.
+      * Releases connection slots of IP addresses and users.
+      *
+      * @private
+      * @param {string[]} slots - The slots to release.
       */
-     public close() {
-          this.clients.forEach((username, ws) => {
-               ws.close(1001, 'Server shutting down');
-          });
-          this.wss.close(() => {
-               this.logger.warn('WebSocket server closed.');
+     private releaseSlots(slots: string[]): void {
+          slots.forEach(key => {
+               const used = (this.slotCounts.get(key) ?? 1) - 1;
+               if (used > 0) {
+                    this.slotCounts.set(key, used);
+               } else {
+                    this.slotCounts.delete(key);
+               }
           });
      }
+
+     /**
+      * Answers an upgrade request refused by admission control, logging and counting the refusal.
+      *
+      * @private
+      * @param {Socket} socket - The network socket of the upgrade request.
+      * @param {Error} error - Why the request was refused.
+      * @param {string} address - The IP address of the client.
+      */
+     private refuseAdmission(socket: Socket, error: Error, address: string): void {
+          if (!(error instanceof AdmissionError)) {
+               this.logger.error('Error in admission control', { error: error.message });
+               this.rejectUpgrade(socket, 500, 'Internal Server Error');
+               return;
+          }
+
+          this.metrics.admissionRejections.inc({ reason: error.reason });
+          this.logger.warn('Upgrade refused by admission control', { reason: error.reason, status: error.status, remoteAddress: address });
+          const headers: Record<string, string> = {};
+          if (error.retryAfter !== undefined && Number.isFinite(error.retryAfter)) {
+               headers['Retry-After'] = String(Math.ceil(error.retryAfter / 1000));
+          }
+          this.rejectUpgrade(socket, error.status, error.message, headers);
+     }
+
+     /**
+      * Reads the IP address of the client of an upgrade request, from the `X-Forwarded-For`
+      * header when the server is configured to trust its proxies.
+      *
+      * Each trusted proxy appends the address it received the request from, so the address is
+      * the entry appended by the outermost trusted proxy: the rightmost entry for a single proxy.
+      * Entries to its left are sent by the client and are never used.
+      *
+      * @private
+      * @param {IncomingMessage} request - The incoming HTTP upgrade request.
+      * @returns {string} - The IP address.
+      */
+     private getRemoteAddress(request: IncomingMessage): string {
+          const trustProxy = this.config.admission?.trustProxy;
+          const forwarded = request.headers['x-forwarded-for'];
+          const hops = typeof trustProxy === 'number' ? trustProxy : trustProxy ? 1 : 0;
+          if (hops > 0 && forwarded) {
+               const entries = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)
+                    .split(',')
+                    .map(entry => entry.trim())
+                    .filter(entry => entry !== '');
+               if (entries.length > 0) {
+                    return entries[Math.max(entries.length - hops, 0)];
+               }
+          }
+          return request.socket.remoteAddress ?? 'unknown';
+     }
+
+     /**
+      * Answers an upgrade request with an HTTP error response and closes the socket.
+      *
+      * @private
+      * @param {Socket} socket - The network socket of the upgrade request.
+      * @param {number} status - The HTTP status code.
+      * @param {string} message - The response body.
+      * @param {Record<string, string>} [headers={}] - Additional response headers.
+      */
+     private rejectUpgrade(socket: Socket, status: number, message: string, headers: Record<string, string> = {}): void {
+          if (!socket.writable) {
+               socket.destroy();
+               return;
+          }
+
+          socket.once('finish', () => socket.destroy());
+          socket.end(
+               `HTTP/1.1 ${status} ${STATUS_CODES[status] ?? ''}\r\n` +
+               'Connection: close\r\n' +
+               'Content-Type: text/plain\r\n' +
+               Object.entries(headers).map(([name, value]) => `${name}: ${value}\r\n`).join('') +
+               `Content-Length: ${Buffer.byteLength(message)}\r\n` +
+               '\r\n' +
+               message
+          );
+     }
+
+     /**
+      * Handles a new WebSocket connection and sets up event listeners.
+      *
+      * @private
+      * @param {WebSocket} ws - The WebSocket instance for the connected client.
+      * @param {IncomingMessage} request - The incoming HTTP request for the connection.
+      * @param {IHandshakeContext} [handshake] - The principal and values attached to the connection during the handshake.
+      * @param {string} [remoteAddress] - The IP address of the client, as read by admission control.
+      */
+     private onConnection(ws: WebSocket, request: IncomingMessage, handshake?: IHandshakeContext, remoteAddress?: string): void {
+          const principal = handshake?.principal ?? null;
+          const user = principal?.id ?? 'Anonymous';
+          const connection: IConnection = {
+               id: randomUUID(),
+               user,
+               principal,
+               remoteAddress: remoteAddress ?? request.socket.remoteAddress,
+               headers: request.headers,
+               connectedAt: Date.now(),
+               protocol: ws.protocol,
+               data: handshake?.data ?? {},
+          };
+          const connectionId = connection.id;
+          const subject = principal ? principal.id : `anonymous:${connectionId}`;
+          const session: Session = { connection, request };
+          this.sessions.set(ws, session);
+          this.scheduleExpiry(ws, session);
+          this.connections.set(ws, connection);
+          this.sockets.set(connectionId, ws);
+          if (principal) {
+               this.addUserSocket(user, ws);
+          }
+          this.missedPongs.set(ws, 0);
+          this.traffic.set(ws, { messagesReceived: 0, messagesSent: 0, bytesReceived: 0, bytesSent: 0, lastMessageAt: null });
+          this.outbound.set(ws, new OutboundQueue(
+               this.config.backpressure?.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE,
+               this.config.backpressure?.overflow ?? DEFAULT_OVERFLOW_POLICY,
+               this.config.backpressure?.maxControlQueueSize ?? DEFAULT_MAX_CONTROL_QUEUE_SIZE
+          ));
+          this.metrics.connectionsActive.inc();
+          this.metrics.connectionsTotal.inc();
+          this.logger.info('User connected', { user, connectionId, remoteAddress: connection.remoteAddress });
+          if (principal) {
+               this.presenceService.connect(user);
+          }
+
+          ws.on('pong', () => {
+               if (this.missedPongs.has(ws)) {
+                    this.missedPongs.set(ws, 0);
+               }
+          });
+
+          const codec = this.codecService.get(ws.protocol);
+
+          ws.on('message', (data: RawData) => {
+               const buffer = Array.isArray(data) ? Buffer.concat(data) : toBuffer(data);
+               const traffic = this.traffic.get(ws);
+               if (traffic) {
+                    traffic.messagesReceived++;
+                    traffic.bytesReceived += buffer.length;
+                    traffic.lastMessageAt = Date.now();
+               }
+
+               let message: IMessage;
+
+               try {
+                    message = codec.decode(buffer) as IMessage;
+               } catch (error) {
+                    const reason = error instanceof MessageError
+                         ? error
+                         : new MessageError(ERROR_CODES.INVALID_ENCODING, 'Invalid message encoding');
+                    this.metrics.parseErrors.inc();
+                    this.logger.error('Error parsing message', { user, codec: codec.name, error: (error as Error).message });
+                    this.sendError(ws, reason.code, reason.message);
+                    this.disconnect(ws, 'server');
+                    return;
+               }
+
+               const issues = this.messageValidator.validateEnvelope(message);
+               if (issues.length > 0) {
+                    this.rejectInvalidMessage(ws, user, 'unknown', issues);
+                    return;
+               }
+
+               message.sender = user;
+               delete message.seq;
+               const context: IEventContext = {
+                    ws,
+                    user,
+                    connection,
+                    principal: connection.principal,
+                    message,
+                    data: connection.data,
+                    send: (reply: object) => {
+                         this.sendPayload(ws, this.encodeFrame(codec, reply, 'reply'));
+                    },
+               };
+
+               this.enforceRateLimits(context, connectionId, subject).then(
+                    (allowed: boolean) => {
+                         if (allowed) {
+                              this.processMessage(context);
+                         }
+                    },
+                    (error: Error) => {
+                         this.logger.error('Rate limiter failed', { user, error: error.message });
+                         this.processMessage(context);
+                    }
+               );
+          });
+
+          ws.on('close', (code: number, reason: Buffer) => {
+               const info: IDisconnectInfo = {
+                    user,
+                    reason: this.disconnectReasons.get(ws) ?? 'client',
+                    code,
+                    message: reason.toString(),
+                    connection,
+               };
+
+               this.roomService.leaveAll(ws);
+               this.connections.delete(ws);
+               this.sockets.delete(connectionId);
+               this.removeUserSocket(user, ws);
+               this.missedPongs.delete(ws);
+               this.disconnectReasons.delete(ws);
+               this.clearExpiry(session);
+               this.sessions.delete(ws);
+               this.presenceSubscriptions.delete(ws);
+               this.replayBuffers.delete(ws);
+               this.replays.delete(ws);
+               this.metrics.outboundQueueDepth.dec(undefined, this.outbound.get(ws)?.clear() ?? 0);
+               this.outbound.delete(ws);
+               this.traffic.delete(ws);
+               this.releaseSlots(this.slots.get(ws) ?? []);
+               this.slots.delete(ws);
+               if (principal) {
+                    this.presenceService.disconnect(user);
+               }
+               this.releaseRateLimits(connectionId, subject, !principal);
+               this.metrics.connectionsActive.dec();
+               this.metrics.disconnectionsTotal.inc({ reason: info.reason });
+               this.logger.info('User disconnected', { user, reason: info.reason, code });
+
+               if (this.config.hooks?.onDisconnect) {
+                    try {
+                         this.config.hooks.onDisconnect(info);
+                    } catch (error) {
+                         this.logger.error('Error in onDisconnect hook', { user, error: (error as Error).message });
+                    }
+               }
+          });
+
+          ws.on('error', (error: Error) => {
+               if (!this.disconnectReasons.has(ws)) {
+                    this.disconnectReasons.set(ws, 'error');
+               }
+               this.logger.error('WebSocket error', { user, error: error.message });
+          });
+
+          if (this.config.hooks?.onConnect) {
+               try {
+                    this.config.hooks.onConnect(connection);
+               } catch (error) {
+                    this.logger.error('Error in onConnect hook', { user, error: (error as Error).message });
+               }
+          }
+     }
+
+     /**
+      * Takes a token from every rate limit bucket that applies to an incoming message.
+      *
+      * Connection buckets are keyed by connection, user and event buckets by the authenticated
+      * username, or by connection for anonymous clients so that they do not share one bucket.
+      * When a bucket is empty, the configured action is applied and the message is not handled.
+      *
+      * @private
+      * @param {IEventContext} context - The context of the incoming message.
+      * @param {string} connectionId - The identifier of the connection the message arrived on.
+      * @param {string} subject - The identity user and event buckets are keyed by.
+      * @returns {Promise<boolean>} - True if the message may be handled, false otherwise.
+      */
+     private async enforceRateLimits(context: IEventContext, connectionId: string, subject: string): Promise<boolean> {
+          const options = this.config.rateLimit;
+          if (!options) {
+               return true;
+          }
+
+          const event = context.message.type ?? SYSTEM_EVENTS.MESSAGE;
+          const limits: Array<[string, string, IRateLimitPolicy | undefined]> = [
+               ['connection', `connection:${connectionId}`, options.perConnection],
+               ['user', `user:${subject}`, options.perUser],
+               ['event', `event:${event}:${subject}`, options.perEvent?.[event]],
+          ];
+
+          for (const [scope, key, policy] of limits) {
+               if (!policy) {
+                    continue;
+               }
+
+               const result = await this.rateLimiter.consume(key, policy);
+               if (!result.allowed) {
+                    this.rejectRateLimited(context, scope, event, policy.action ?? options.action ?? 'error', result.retryAfter);
+                    return false;
+               }
+          }
+
+          return true;
+     }
+
+     /**
+      * Applies the action configured for a message that exceeded a rate limit.
+      *
+      * @private
+      * @param {IEventContext} context - The context of the rejected message.
+      * @param {string} scope - The scope of the exceeded limit: `connection`, `user` or `event`.
+      * @param {string} event - The event type of the rejected message.
+      * @param {RateLimitAction} action - What to do with the message.
+      * @param {number} retryAfter - Milliseconds until the client may send again.
+      */
+     private rejectRateLimited(context: IEventContext, scope: string, event: string, action: RateLimitAction, retryAfter: number): void {
+          this.metrics.rateLimited.inc({ scope, action });
+
+          if (action === 'disconnect') {
+               this.logger.warn('Rate limit exceeded, disconnecting', { user: context.user, event, scope });
+               this.disconnect(context.ws, 'server', CLOSE_CODES.POLICY_VIOLATION, 'Rate limit exceeded');
+               return;
+          }
+
+          this.logger.debug('Rate limit exceeded', { user: context.user, event, scope, action });
+          if (action === 'error') {
+               this.sendError(context.ws, ERROR_CODES.RATE_LIMITED, 'Rate limit exceeded', { scope, event, ...(Number.isFinite(retryAfter) && { retryAfter }) }, context.message.id);
+          }
+     }
+
+     /**
+      * Discards the rate limit buckets that belonged to a closed connection.
+      *
+      * The user and event buckets of authenticated users are kept, so that reconnecting does not
+      * reset their limits.
+      *
+      * @private
+      * @param {string} connectionId - The identifier of the closed connection.
+      * @param {string} subject - The identity user and event buckets were keyed by.
+      * @param {boolean} anonymous - Whether the connection was unauthenticated.
+      */
+     private releaseRateLimits(connectionId: string, subject: string, anonymous: boolean): void {
+          const options = this.config.rateLimit;
+          if (!options) {
+               return;
+          }
+
+          const keys = [`connection:${connectionId}`];
+          if (anonymous) {
+               keys.push(`user:${subject}`);
+               Object.keys(options.perEvent ?? {}).forEach(event => keys.push(`event:${event}:${subject}`));
+          }
+
+          keys.forEach(key => {
+               Promise.resolve(this.rateLimiter.reset(key)).catch((error: Error) => {
+                    this.logger.error('Rate limiter reset failed', { error: error.message });
+               });
+          });
+     }
+
+     /**
+      * Runs the message middleware chain and dispatches the message if every middleware calls `next()`.
+      *
+      * A `MessageError` thrown by middleware is answered with an error reply, a `RejectionError`
+      * closes the connection with its close code, and any other error is answered with an
+      * `INTERNAL_ERROR` reply. A rejection with an invalid close code closes the connection with
+      * `1008`, and its message is truncated to fit in the close reason.
+      *
+      * @private
+      * @param {IEventContext} context - The context of the incoming message.
+      */
+     private processMessage(context: IEventContext): void {
+          this.middlewareService.runMessage(context).then(
+               (accepted: boolean) => {
+                    if (accepted) {
+                         this.dispatchMessage(context);
+                    }
+               },
+               (error: Error) => {
+                    const { ws, user, message } = context;
+                    if (error instanceof RejectionError) {
+                         const code = isValidCloseCode(error.closeCode) ? error.closeCode : CLOSE_CODES.POLICY_VIOLATION;
+                         this.logger.warn('Connection rejected by middleware', { user, code, error: error.message });
+                         this.disconnect(ws, 'server', code, truncateCloseReason(error.message));
+                    } else if (error instanceof MessageError) {
+                         this.logger.warn('Message rejected by middleware', { user, code: error.code, error: error.message });
+                         this.sendError(ws, error.code, error.message, error.details, message.id);
+                    } else {
+                         this.logger.error('Error in message middleware', { user, error: error.message });
+                         this.sendError(ws, ERROR_CODES.INTERNAL_ERROR, 'Internal server error', undefined, message.id);
+                    }
+               }
+          );
+     }
+
+     /**
+      * Dispatches an incoming message to the handler registered for its type.
+      *
+      * Messages without a `type` are dispatched as the default `message` event. `ack` and `error`
+      * messages are replies to server-side requests and are never dispatched. When the message
+      * carries an `id`, the handler's return value is sent back in an `ack` reply, and a thrown
+      * error in an `error` reply, both tied to that id. Messages denied by the access policy of
+      * their event are answered with a `FORBIDDEN` error, and payloads failing the schema of their
+      * event with an `INVALID_MESSAGE` error; neither reaches the handler.
+      *
+      * @private
+      * @param {IEventContext} context - The context of the incoming message.
+      */
+     private dispatchMessage(context: IEventContext): void {
+          const { ws, message } = context;
+          const event = message.type ?? SYSTEM_EVENTS.MESSAGE;
+
+          if (event === SYSTEM_EVENTS.ACK || event === SYSTEM_EVENTS.ERROR) {
+               if (!this.ackService.handleReply(message, ws)) {
+                    this.logger.warn('Ignored reply for unknown request', { user: context.user, event, id: message.id });
+               }
+               return;
+          }
+
+          if (!this.eventRouter.has(event)) {
+               this.metrics.messagesReceived.inc({ event: 'unknown' });
+               this.logger.warn('Unknown event', { user: context.user, event });
+               this.sendError(ws, ERROR_CODES.UNKNOWN_EVENT, `Unknown event: ${event}`, { type: event }, message.id);
+               return;
+          }
+
+          this.metrics.messagesReceived.inc({ event });
+
+          this.authorize(context, 'event', event).then(
+               (allowed: boolean) => {
+                    if (allowed) {
+                         this.handleEvent(context, event);
+                    } else {
+                         this.sendError(ws, ERROR_CODES.FORBIDDEN, 'Forbidden', { action: 'event', target: event }, message.id);
+                    }
+               },
+               (error: Error) => {
+                    this.logger.error('Error in access policy', { user: context.user, event, error: error.message });
+                    this.sendError(ws, ERROR_CODES.INTERNAL_ERROR, 'Internal server error', undefined, message.id);
+               }
+          );
+     }
+
+     /**
+      * Validates the payload of an authorized message and invokes the handler of its event.
+      *
+      * @private
+      * @param {IEventContext} context - The context of the incoming message.
+      * @param {string} event - The event type of the message.
+      */
+     private handleEvent(context: IEventContext, event: string): void {
+          const { ws, message } = context;
+
+          const issues = this.messageValidator.validate(event, message);
+          if (issues.length > 0) {
+               this.rejectInvalidMessage(ws, context.user, event, issues, message.id);
+               return;
+          }
+
+          const startedAt = Date.now();
+          const task = this.eventRouter.dispatch(event, context).then(
+               (result: unknown) => {
+                    this.logger.debug('Handled message', { user: context.user, event, duration: Date.now() - startedAt });
+                    if (message.id !== undefined) {
+                         try {
+                              context.send({ type: SYSTEM_EVENTS.ACK, id: message.id, content: result });
+                         } catch (error) {
+                              this.logger.error('Error sending acknowledgement', { user: context.user, event, error: (error as Error).message });
+                              this.sendError(ws, ERROR_CODES.INTERNAL_ERROR, 'Internal server error', undefined, message.id);
+                         }
+                    }
+               },
+               (error: Error) => {
+                    if (error instanceof MessageError) {
+                         this.logger.warn('Message rejected', { user: context.user, event, code: error.code, error: error.message, duration: Date.now() - startedAt });
+                         this.sendError(ws, error.code, error.message, error.details, message.id);
+                    } else {
+                         this.logger.error('Error processing message', { user: context.user, event, error: error.message, duration: Date.now() - startedAt });
+                         this.sendError(ws, ERROR_CODES.INTERNAL_ERROR, 'Internal server error', undefined, message.id);
+                    }
+               }
+          ).catch((error: Error) => {
+               this.logger.error('Error replying to message', { user: context.user, event, error: error.message });
+          });
+          this.inFlight.add(task);
+          task.finally(() => this.inFlight.delete(task)).catch(() => undefined);
+     }
+
+     /**
+      * Answers a message that failed validation with an `INVALID_MESSAGE` error pointing at the failing value.
+      *
+      * @private
+      * @param {WebSocket} ws - The client that sent the message.
+      * @param {string} user - The username of the client.
+      * @param {string} event - The event type of the message, or `unknown` if its envelope is invalid.
+      * @param {IValidationIssue[]} issues - The reasons the message is invalid.
+      * @param {string} [id] - The correlation id of the message.
+      */
+     private rejectInvalidMessage(ws: WebSocket, user: string, event: string, issues: IValidationIssue[], id?: string): void {
+          const [{ path }] = issues;
+          this.metrics.invalidMessages.inc({ event });
+          this.logger.warn('Invalid message', { user, event, path });
+          this.sendError(ws, ERROR_CODES.INVALID_MESSAGE, 'Invalid message', { type: event, path, errors: issues }, id);
+     }
+
+     /**
+      * Checks an attempt of the sender of a message against the access policies, logging denials.
+      *
+      * @private
+      * @param {IEventContext} context - The context of the incoming message.
+      * @param {AccessAction} action - What the sender attempts to do.
+      * @param {string} target - The event or room the attempt is about, or `*` for broadcasts.
+      * @returns {Promise<boolean>} - True if the attempt is allowed.
+      */
+     private async authorize(context: IEventContext, action: AccessAction, target: string): Promise<boolean> {
+          const user = User.fromPrincipal(context.principal);
+          const allowed = await this.authorizationService.authorize(user, { action, target, message: context.message });
+
+          if (!allowed) {
+               this.metrics.forbidden.inc({ action });
+               this.logger.warn('Access denied', { user: context.user, action, target, roles: user.roles });
+          }
+          return allowed;
+     }
+
+     /**
+      * Registers the handlers for the built-in events.
+      *
+      * The default `message` event is handled by the configured `onMessage` callback if there is
+      * one, and otherwise routed to its recipient, room, or all clients. Application code may
+      * replace any of these handlers through the event router.
+      *
+      * @private
+      */
+     private registerSystemEvents(): void {
+          this.eventRouter.on(SYSTEM_EVENTS.MESSAGE, (_payload, context) => {
+               if (this.onMessage) {
+                    this.onMessage(context.message, context.connection);
+               } else {
+                    return this.routeMessage(context);
+               }
+          });
+
+          this.eventRouter.on(SYSTEM_EVENTS.ROOM_JOIN, async (_payload, context) => {
+               const room = this.getRoomName(context);
+               if (!(await this.authorize(context, 'room', room))) {
+                    throw new MessageError(ERROR_CODES.FORBIDDEN, 'Forbidden', { action: 'room', target: room });
+               }
+               this.roomService.join(context.ws, room);
+               context.send({ type: SYSTEM_EVENTS.ROOM_JOINED, room });
+               this.logger.info('User joined room', { user: context.user, room });
+          });
+
+          this.eventRouter.on(SYSTEM_EVENTS.ROOM_LEAVE, (_payload, context) => {
+               const room = this.getRoomName(context);
+               this.roomService.leave(context.ws, room);
+               context.send({ type: SYSTEM_EVENTS.ROOM_LEFT, room });
+               this.logger.info('User left room', { user: context.user, room });
+          });
+
+          this.eventRouter.on(SYSTEM_EVENTS.AUTH_REFRESH, (payload, context) => {
+               if (typeof payload?.token !== 'string' || !payload.token) {
+                    throw this.invalidContent(SYSTEM_EVENTS.AUTH_REFRESH, 'content.token', 'must be a non-empty string');
+               }
+               return this.reauthenticate(context, payload.token);
+          });
+
+          this.eventRouter.on(SYSTEM_EVENTS.PRESENCE_SUBSCRIBE, (payload, context) => {
+               const users = this.getPresenceUsers(SYSTEM_EVENTS.PRESENCE_SUBSCRIBE, payload);
+               const subscriptions = this.presenceSubscriptions.get(context.ws) ?? new Set<string>();
+               users.forEach(user => subscriptions.add(user));
+               this.presenceSubscriptions.set(context.ws, subscriptions);
+
+               const snapshot = users.includes('*')
+                    ? this.presenceService.getOnlineUsers()
+                    : users.map(user => this.presenceService.get(user)).filter(presence => presence !== null);
+               context.send({ type: SYSTEM_EVENTS.PRESENCE_SUBSCRIBED, content: snapshot });
+          });
+
+          this.eventRouter.on(SYSTEM_EVENTS.PRESENCE_UNSUBSCRIBE, (payload, context) => {
+               const users = this.getPresenceUsers(SYSTEM_EVENTS.PRESENCE_UNSUBSCRIBE, payload);
+               const subscriptions = this.presenceSubscriptions.get(context.ws);
+               if (users.includes('*')) {
+                    this.presenceSubscriptions.delete(context.ws);
+               } else {
+                    users.forEach(user => subscriptions?.delete(user));
+               }
+          });
+
+          this.eventRouter.on(SYSTEM_EVENTS.PRESENCE_STATUS, (payload, context) => {
+               if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+                    throw this.invalidContent(SYSTEM_EVENTS.PRESENCE_STATUS, 'content', 'must be an object');
+               }
+               if (!context.principal) {
+                    throw new MessageError(ERROR_CODES.FORBIDDEN, 'Anonymous clients have no presence', { action: 'event', target: SYSTEM_EVENTS.PRESENCE_STATUS });
+               }
+               this.presenceService.setStatus(context.user, payload);
+          });
+
+          this.eventRouter.on(SYSTEM_EVENTS.HISTORY_REPLAY, (payload, context) => {
+               const since = payload?.since;
+               if (!Number.isInteger(since) || since < 0) {
+                    throw this.invalidContent(SYSTEM_EVENTS.HISTORY_REPLAY, 'content.since', 'must be a non-negative integer');
+               }
+               return this.replay(context, since);
+          });
+     }
+
+     /**
+      * Creates the `INVALID_MESSAGE` error of a system event whose payload is malformed.
+      *
+      * @private
+      * @param {string} event - The system event.
+      * @param {string} path - The path of the invalid value.
+      * @param {string} reason - Why the value is invalid.
+      * @returns {MessageError} - The error to throw.
+      */
+     private invalidContent(event: string, path: string, reason: string): MessageError {
+          return new MessageError(ERROR_CODES.INVALID_MESSAGE, 'Invalid message', {
+               type: event,
+               path,
+               errors: [{ path, message: reason }],
+          });
+     }
+
+     /**
+      * Reads the users of a presence subscription request; no `users` list stands for every user.
+      *
+      * @private
+      * @param {string} event - The system event.
+      * @param {any} payload - The `content` of the message.
+      * @returns {string[]} - The usernames, or `['*']` for every user.
+      * @throws {MessageError} - If `users` is not a list of usernames.
+      */
+     private getPresenceUsers(event: string, payload: any): string[] {
+          const users = payload?.users;
+          if (users === undefined) {
+               return ['*'];
+          }
+          if (!Array.isArray(users) || !users.every(user => typeof user === 'string')) {
+               throw this.invalidContent(event, 'content.users', 'must be an array of strings');
+          }
+          return users;
+     }
+
+     /**
+      * Sends a presence change to the connections subscribed to the user and the members of the presence rooms.
+      *
+      * @private
+      * @param {IPresenceChange} change - The presence change.
+      */
+     private notifyPresence({ type, presence }: IPresenceChange): void {
+          const recipients = new Set<WebSocket>();
+          this.presenceSubscriptions.forEach((users, ws) => {
+               if (users.has('*') || users.has(presence.user)) {
+                    recipients.add(ws);
+               }
+          });
+          (this.config.presence?.rooms ?? []).forEach(room => {
+               this.roomService.getMembers(room).forEach(ws => recipients.add(ws));
+          });
+
+          this.logger.debug('Presence changed', { user: presence.user, change: type });
+          if (recipients.size > 0) {
+               this.fanOut('presence', recipients, 'control', { type: `presence:${type}`, sender: 'server', content: presence });
+          }
+     }
+
+     /**
+      * Sends a connection the broadcast and room messages it missed since a sequence id, once the
+      * replays it requested before have completed.
+      *
+      * @private
+      * @param {IEventContext} context - The context of the `history:replay` message.
+      * @param {number} since - The last sequence id the client saw.
+      * @returns {Promise<void>} - Resolves once the missed messages are sent.
+      */
+     private replay(context: IEventContext, since: number): Promise<void> {
+          const { ws } = context;
+          const replay = (this.replays.get(ws) ?? Promise.resolve())
+               .catch(() => undefined)
+               .then(() => this.replayMissed(context, since));
+
+          this.replays.set(ws, replay);
+          const release = () => {
+               if (this.replays.get(ws) === replay) {
+                    this.replays.delete(ws);
+               }
+          };
+          replay.then(release, release);
+          return replay;
+     }
+
+     /**
+      * Sends a connection the broadcast and room messages it missed since a sequence id.
+      *
+      * Messages are read from the broadcast stream and the streams of the rooms the connection is a
+      * member of. Live messages sent to the connection in the meantime are held back and sent after
+      * the replay, skipping those the replay already contained.
+      *
+      * @private
+      * @param {IEventContext} context - The context of the `history:replay` message.
+      * @param {number} since - The last sequence id the client saw.
+      * @returns {Promise<void>} - Resolves once the missed messages are sent.
+      */
+     private async replayMissed(context: IEventContext, since: number): Promise<void> {
+          const { ws } = context;
+          const streams = [BROADCAST_STREAM, ...this.roomService.getRooms(ws).map(room => `room:${room}`)];
+          const limit = this.config.history?.replayLimit ?? DEFAULT_REPLAY_LIMIT;
+          const buffer: object[] = [];
+          let lastSeq = since;
+
+          this.replayBuffers.set(ws, buffer);
+          try {
+               const messages = await this.messageStore.since(streams, since, limit);
+               messages.forEach(message => {
+                    context.send(message);
+                    lastSeq = Math.max(lastSeq, message.seq ?? lastSeq);
+               });
+               context.send({ type: SYSTEM_EVENTS.HISTORY_REPLAYED, content: { since, count: messages.length, lastSeq } });
+               this.logger.debug('Replayed missed messages', { user: context.user, since, count: messages.length });
+          } finally {
+               if (this.replayBuffers.get(ws) === buffer) {
+                    this.replayBuffers.delete(ws);
+               }
+               buffer
+                    .filter((message: { seq?: number }) => message.seq === undefined || message.seq > lastSeq)
+                    .forEach(message => context.send(message));
+          }
+     }
+
+     /**
+      * Replaces the credentials of a connection with a fresh token and reschedules their expiry.
+      *
+      * The connection keeps its current credentials if the token is rejected, so that a client can
+      * retry until they expire.
+      *
+      * @private
+      * @param {IEventContext} context - The context of the `auth:refresh` message.
+      * @param {string} token - The fresh token.
+      * @returns {Promise<{ expiresAt?: number }>} - When the fresh credentials expire.
+      * @throws {MessageError} - If the token is rejected or belongs to another user.
+      */
+     private async reauthenticate(context: IEventContext, token: string): Promise<{ expiresAt?: number }> {
+          const session = this.sessions.get(context.ws);
+          if (!session) {
+               throw new MessageError(ERROR_CODES.AUTH_FAILED, 'Authentication Failed');
+          }
+
+          let principal: IPrincipal;
+          try {
+               principal = await this.authService.reauthenticate(token, session.request);
+          } catch (error) {
+               if (!(error instanceof AuthenticationError)) {
+                    throw error;
+               }
+               this.metrics.authFailures.inc();
+               this.logger.warn('Re-authentication failed', { user: context.user, error: error.message });
+               throw new MessageError(ERROR_CODES.AUTH_FAILED, 'Authentication Failed');
+          }
+
+          if (principal.id !== context.user) {
+               this.metrics.authFailures.inc();
+               this.logger.warn('Re-authentication failed: token belongs to another user', { user: context.user, principal: principal.id });
+               throw new MessageError(ERROR_CODES.AUTH_FAILED, 'Authentication Failed');
+          }
+
+          session.connection.principal = principal;
+          this.scheduleExpiry(context.ws, session);
+          context.send({ type: SYSTEM_EVENTS.AUTH_REFRESHED, content: { expiresAt: principal.expiresAt } });
+          this.logger.info('User re-authenticated', { user: context.user, expiresAt: principal.expiresAt });
+          return { expiresAt: principal.expiresAt };
+     }
+
+     /**
+      * Schedules the `auth:expiring` warning and the close of a connection when its credentials expire.
+      *
+      * @private
+      * @param {WebSocket} ws - The connection.
+      * @param {Session} session - The credentials of the connection.
+      */
+     private scheduleExpiry(ws: WebSocket, session: Session): void {
+          this.clearExpiry(session);
+
+          const expiresAt = session.connection.principal?.expiresAt;
+          if (expiresAt === undefined) {
+               return;
+          }
+
+          const remaining = expiresAt - Date.now();
+          const warnIn = remaining - (this.config.auth?.expiryWarning ?? DEFAULT_EXPIRY_WARNING);
+          if (warnIn <= MAX_TIMER_DELAY) {
+               session.warningTimer = setTimeout(() => {
+                    this.sendPayload(ws, this.encodeFrame(this.codecService.get(ws.protocol), { type: SYSTEM_EVENTS.AUTH_EXPIRING, content: { expiresAt } }, 'system'));
+               }, Math.max(0, warnIn));
+          }
+
+          session.expiryTimer = setTimeout(() => {
+               if (Date.now() < expiresAt) {
+                    this.scheduleExpiry(ws, session);
+                    return;
+               }
+               this.logger.info('Closing connection: credentials expired', { user: this.connections.get(ws)?.user });
+               this.disconnect(ws, 'expired', CLOSE_CODES.TOKEN_EXPIRED, 'Token expired');
+          }, Math.min(Math.max(0, remaining), MAX_TIMER_DELAY));
+     }
+
+     /**
+      * Cancels the expiry timers of a connection.
+      *
+      * @private
+      * @param {Session} session - The credentials of the connection.
+      */
+     private clearExpiry(session: Session): void {
+          clearTimeout(session.warningTimer);
+          clearTimeout(session.expiryTimer);
+     }
+
+     /**
+      * Revokes a token and closes every local connection authenticated with it.
+      *
+      * @param {string} jti - The `jti` (JWT ID) claim of the token.
+      * @param {number} [expiresAt] - When the token expires, in milliseconds since the epoch.
+      * @returns {number} - The number of connections closed.
+      */
+     public revokeToken(jti: string, expiresAt?: number): number {
+          this.authService.revokeToken(jti, expiresAt);
+
+          let closed = 0;
+          this.sessions.forEach((session, ws) => {
+               if (session.connection.principal?.claims.jti === jti) {
+                    this.disconnect(ws, 'revoked', CLOSE_CODES.TOKEN_REVOKED, 'Token revoked');
+                    closed++;
+               }
+          });
+
+          if (closed > 0) {
+               this.logger.warn('Closed connections of revoked token', { jti, connections: closed });
+          }
+          return closed;
+     }
+
+     /**
+      * Lists the open connections.
+      *
+      * @returns {IConnection[]} - The connections, oldest first.
+      */
+     public getConnections(): IConnection[] {
+          return Array.from(this.connections.values());
+     }
+
+     /**
+      * Retrieves an open connection by its id.
+      *
+      * @param {string} id - The id of the connection.
+      * @returns {IConnection | null} - The connection, or null if it is not open.
+      */
+     public getConnection(id: string): IConnection | null {
+          const ws = this.sockets.get(id);
+          return ws ? this.connections.get(ws) ?? null : null;
+     }
+
+     /**
+      * Retrieves the traffic statistics of an open connection.
+      *
+      * @param {string} id - The id of the connection.
+      * @returns {IConnectionStats | null} - The statistics, or null if the connection is not open.
+      */
+     public getConnectionStats(id: string): IConnectionStats | null {
+          const ws = this.sockets.get(id);
+          const traffic = ws && this.traffic.get(ws);
+          if (!ws || !traffic) {
+               return null;
+          }
+
+          return {
+               ...traffic,
+               rooms: this.roomService.getRooms(ws),
+               queued: this.outbound.get(ws)?.size ?? 0,
+               bufferedAmount: ws.bufferedAmount,
+          };
+     }
+
+     /**
+      * Closes a connection by its id.
+      *
+      * @param {string} id - The id of the connection.
+      * @param {number} [code=1000] - The WebSocket close code.
+      * @param {string} [reason] - The WebSocket close reason text.
+      * @returns {boolean} - True if the connection was open.
+      * @throws {Error} - If the close code may not be sent or the reason exceeds 123 bytes.
+      */
+     public disconnectConnection(id: string, code: number = CLOSE_CODES.NORMAL, reason?: string): boolean {
+          assertValidClose(code, reason);
+          const ws = this.sockets.get(id);
+          if (!ws) {
+               return false;
+          }
+
+          this.logger.info('Closing connection', { user: this.connections.get(ws)?.user, connectionId: id, code, reason });
+          this.disconnect(ws, 'server', code, reason);
+          return true;
+     }
+
+     /**
+      * Closes every local connection of a user.
+      *
+      * @param {string} username - The user.
+      * @param {number} [code=1000] - The WebSocket close code.
+      * @param {string} [reason] - The WebSocket close reason text.
+      * @returns {number} - The number of connections closed.
+      * @throws {Error} - If the close code may not be sent or the reason exceeds 123 bytes.
+      */
+     public disconnectUser(username: string, code: number = CLOSE_CODES.NORMAL, reason?: string): number {
+          assertValidClose(code, reason);
+          const sockets = this.getUserSockets(username);
+          if (sockets.length > 0) {
+               this.logger.info('Closing connections of user', { user: username, connections: sockets.length, code, reason });
+          }
+          sockets.forEach(ws => this.disconnect(ws, 'server', code, reason));
+          return sockets.length;
+     }
+
+     /**
+      * Delivers a message to its recipient, its room, or all clients, running the lifecycle hooks around it.
+      *
+      * @private
+      * @param {IEventContext} context - The context of the incoming message.
+      * @returns {Promise<void>} - Resolves once the message is delivered.
+      * @throws {MessageError} - If the sender is not a member of the room, may not broadcast, or the recipient is offline.
+      */
+     private async routeMessage(context: IEventContext): Promise<void> {
+          const { ws, message, connection } = context;
+
+          if (!message.to && message.room && !this.roomService.isMember(ws, message.room)) {
+               throw new MessageError(ERROR_CODES.NOT_ROOM_MEMBER, 'Not a member of room', { room: message.room });
+          }
+
+          if (!message.to && !message.room && !(await this.authorize(context, 'broadcast', '*'))) {
+               throw new MessageError(ERROR_CODES.FORBIDDEN, 'Forbidden', { action: 'broadcast', target: '*' });
+          }
+
+          if (this.beforeSend) {
+               this.beforeSend(message, connection);
+          }
+
+          if (message.to) {
+               if (!this.sendToUser(message.to, message)) {
+                    throw new MessageError(ERROR_CODES.USER_OFFLINE, 'Recipient is not connected', { to: message.to });
+               }
+          } else if (message.room) {
+               this.broadcastToRoom(message.room, message);
+          } else {
+               this.broadcastMessage(message);
+          }
+
+          if (this.afterSend) {
+               this.afterSend(message, connection);
+          }
+     }
+
+     /**
+      * Broadcasts a message to all connected WebSocket clients, on every server instance.
+      *
+      * @param {IMessage<any>} message - The message to be broadcasted.
+      */
+     public broadcastMessage(message: IMessage<any>): void {
+          this.record(BROADCAST_STREAM, message, recorded => {
+               this.deliverToAll(recorded);
+               this.publish({ kind: 'broadcast', message: recorded });
+          });
+     }
+
+     /**
+      * Broadcasts a message to all connected members of a room, on every server instance.
+      *
+      * @param {string} room - The name of the room.
+      * @param {IMessage<any>} message - The message to be broadcasted.
+      */
+     public broadcastToRoom(room: string, message: IMessage<any>): void {
+          this.record(`room:${room}`, { ...message, room }, recorded => {
+               this.deliverToRoom(room, recorded);
+               this.publish({ kind: 'room', room, message: recorded });
+          });
+     }
+
+     /**
+      * Stores a message in the history and delivers it with its sequence id.
+      *
+      * Delivery waits for stores returning a promise; if the store fails, the message is delivered
+      * without a sequence id.
+      *
+      * @private
+      * @param {string} stream - The history stream of the message.
+      * @param {IMessage<any>} message - The message to store.
+      * @param {Function} deliver - Delivers the stored message.
+      */
+     private record(stream: string, message: IMessage<any>, deliver: (message: IMessage<any>) => void): void {
+          const fail = (error: Error) => {
+               this.logger.error('Message store failed', { stream, error: error.message });
+               deliver(message);
+          };
+
+          let seq: number | Promise<number>;
+          try {
+               seq = this.messageStore.append(stream, message);
+          } catch (error) {
+               fail(error as Error);
+               return;
+          }
+
+          if (typeof seq === 'number') {
+               deliver({ ...message, seq });
+          } else {
+               seq.then(seq => deliver({ ...message, seq }), fail);
+          }
+     }
+
+     /**
+      * Sends a message to every open connection of a user, on every server instance.
+      *
+      * When an adapter is configured, the message is also forwarded to the other instances and is
+      * considered delivered, since the user may be connected to one of them.
+      *
+      * @param {string} username - The recipient of the message.
+      * @param {IMessage<any>} message - The message to be sent.
+      * @returns {boolean} - True if the message was sent or forwarded, false if the user is offline.
+      */
+     public sendToUser(username: string, message: IMessage<any>): boolean {
+          const delivered = this.deliverToUser(username, message);
+          this.publish({ kind: 'direct', to: username, message });
+
+          if (!delivered && !this.adapter) {
+               this.logger.warn('Direct message not delivered: recipient is offline', { user: message.sender, to: username });
+               return false;
+          }
+          return true;
+     }
+
+     /**
+      * Sends a message to all local WebSocket clients.
+      *
+      * @private
+      * @param {IMessage<any>} message - The message to be sent.
+      */
+     private deliverToAll(message: IMessage<any>): void {
+          const recipients = this.fanOut('broadcast', this.wss.clients, 'data', message);
+          this.logger.debug('Broadcasted message', { user: message.sender, event: message.type, recipients });
+     }
+
+     /**
+      * Sends a message to the local members of a room.
+      *
+      * @private
+      * @param {string} room - The name of the room.
+      * @param {IMessage<any>} message - The message to be sent.
+      */
+     private deliverToRoom(room: string, message: IMessage<any>): void {
+          const recipients = this.fanOut('room', this.roomService.getMembers(room), 'data', { ...message, room });
+          this.logger.debug('Broadcasted message to room', { user: message.sender, event: message.type, room, recipients });
+     }
+
+     /**
+      * Sends a message to the local open connections of a user.
+      *
+      * @private
+      * @param {string} username - The recipient of the message.
+      * @param {IMessage<any>} message - The message to be sent.
+      * @returns {boolean} - True if the message was sent to at least one local connection.
+      */
+     private deliverToUser(username: string, message: IMessage<any>): boolean {
+          const sockets = this.getUserSockets(username).filter(ws => ws.readyState === WebSocket.OPEN);
+          if (sockets.length === 0) {
+               return false;
+          }
+
+          this.fanOut('direct', sockets, 'data', { ...message, to: username });
+          this.logger.debug('Sent direct message', { user: message.sender, event: message.type, to: username });
+          return true;
+     }
+
+     /**
+      * Sends a message to a set of connections, recording the fan-out metrics.
+      *
+      * The message is serialized into a frame at most once per codec, and the frame is shared by
+      * every connection using that codec, including the outbound queues it waits in.
+      *
+      * @private
+      * @param {string} kind - How the message is addressed, used as the metrics label.
+      * @param {Iterable<WebSocket>} clients - The connections to send to.
+      * @param {MessagePriority} priority - The outbound lane of the message.
+      * @param {object} message - The message to send.
+      * @returns {number} - The number of connections the message was sent or queued to.
+      */
+     private fanOut(kind: string, clients: Iterable<WebSocket>, priority: MessagePriority, message: object): number {
+          const startedAt = process.hrtime.bigint();
+          const frames: Map<string, Frame> = new Map();
+          let recipients = 0;
+
+          for (const client of clients) {
+               const buffer = this.replayBuffers.get(client);
+               if (buffer) {
+                    buffer.push(message);
+                    recipients++;
+                    continue;
+               }
+
+               const codec = this.codecService.get(client.protocol);
+               let frame = frames.get(codec.name);
+               if (frame === undefined) {
+                    frame = this.encodeFrame(codec, message, kind);
+                    frames.set(codec.name, frame);
+               }
+
+               if (this.sendPayload(client, frame, priority)) {
+                    recipients++;
+               }
+          }
+
+          this.metrics.broadcastDuration.observe(Number(process.hrtime.bigint() - startedAt) / 1e9, { kind });
+          this.metrics.broadcastRecipients.observe(recipients, { kind });
+          return recipients;
+     }
+
+     /**
+      * Serializes a message into a frame, deciding from the compression policy whether it is
+      * sent compressed.
+      *
+      * Messages are compressed when their event type is opted in, or when they are at least the
+      * threshold in size and their event type is not opted out.
+      *
+      * @private
+      * @param {ICodec} codec - The codec of the connections the frame is sent to.
+      * @param {object} message - The message to serialize.
+      * @param {string} kind - How the message is addressed, used as the metrics label.
+      * @returns {Frame} - The frame.
+      */
+     private encodeFrame(codec: ICodec, message: object, kind: string): Frame {
+          const frame = toFrame(codec.encode(message));
+          const options = this.config.compression;
+          if (!options?.enabled) {
+               return frame;
+          }
+
+          const type = (message as Partial<IMessage>).type ?? 'message';
+          frame.compress = options.events?.[type] ?? frame.data.length >= (options.threshold ?? DEFAULT_COMPRESSION_THRESHOLD);
+
+          if (frame.compress && Math.random() < (options.sampleRate ?? DEFAULT_COMPRESSION_SAMPLE_RATE)) {
+               this.measureCompression(frame, kind);
+          }
+          return frame;
+     }
+
+     /**
+      * Records the compression ratio of a sampled frame, once per frame however many connections
+      * share it.
+      *
+      * The frame is compressed again on the zlib thread pool, off the send path, and samples are
+      * skipped while a measurement is in progress, so that sampling cannot pile up work.
+      *
+      * @private
+      * @param {Frame} frame - The compressed frame.
+      * @param {string} kind - How the message is addressed, used as the metrics label.
+      */
+     private measureCompression(frame: Frame, kind: string): void {
+          if (this.measuringCompression || frame.data.length === 0) {
+               return;
+          }
+
+          const options = this.config.compression;
+          this.measuringCompression = true;
+          deflateRaw(
+               frame.data,
+               {
+                    level: options?.level ?? DEFAULT_COMPRESSION_LEVEL,
+                    memLevel: options?.memLevel ?? DEFAULT_COMPRESSION_MEM_LEVEL,
+                    windowBits: options?.windowBits ?? DEFAULT_COMPRESSION_WINDOW_BITS,
+               },
+               (error: Error | null, compressed: Buffer) => {
+                    this.measuringCompression = false;
+                    if (!error) {
+                         this.metrics.compressionRatio.observe(compressed.length / frame.data.length, { kind });
+                    }
+               }
+          );
+     }
+
+     /**
+      * Sends a serialized message to a connection if it is open, or queues it while the socket is
+      * above its high-water mark.
+      *
+      * When the queue is full, data messages are dropped or the connection is closed according to
+      * the overflow policy. Control messages are queued ahead of data messages and never dropped;
+      * the connection is closed as a slow consumer once their lane is full.
+      *
+      * @private
+      * @param {WebSocket} ws - The connection to send to.
+      * @param {Frame} frame - The serialized message.
+      * @param {MessagePriority} [priority='control'] - The outbound lane of the message.
+      * @returns {boolean} - True if the message was sent or queued, false otherwise.
+      */
+     private sendPayload(ws: WebSocket, frame: Frame, priority: MessagePriority = 'control'): boolean {
+          if (ws.readyState !== WebSocket.OPEN) {
+               return false;
+          }
+
+          const queue = this.outbound.get(ws);
+          if (!queue || (queue.size === 0 && !this.isAboveHighWaterMark(ws))) {
+               this.write(ws, frame);
+               return true;
+          }
+
+          const overflow = queue.push(frame, priority);
+          if (overflow === null) {
+               this.metrics.outboundQueueDepth.inc();
+               return true;
+          }
+
+          this.metrics.outboundOverflows.inc({ policy: overflow });
+          if (overflow === 'disconnect') {
+               this.logger.warn('Slow consumer disconnected', { user: this.connections.get(ws)?.user, queued: queue.size, bufferedAmount: ws.bufferedAmount });
+               this.disconnect(ws, 'slow', CLOSE_CODES.SLOW_CONSUMER, 'Slow consumer');
+               return false;
+          }
+          this.logger.debug('Outbound queue full', { user: this.connections.get(ws)?.user, policy: overflow });
+          return overflow === 'drop-oldest';
+     }
+
+     /**
+      * Writes a frame to the socket of a connection, flushing its queue once the frame is written.
+      *
+      * @private
+      * @param {WebSocket} ws - The connection to write to.
+      * @param {Frame} frame - The serialized message.
+      */
+     private write(ws: WebSocket, frame: Frame): void {
+          ws.send(frame.data, { binary: frame.binary, ...(frame.compress !== undefined && { compress: frame.compress }) }, () => this.flush(ws));
+          this.metrics.messagesSent.inc();
+          if (frame.compress && ws.extensions.includes('permessage-deflate')) {
+               this.metrics.messagesCompressed.inc();
+          }
+
+          const traffic = this.traffic.get(ws);
+          if (traffic) {
+               traffic.messagesSent++;
+               traffic.bytesSent += frame.data.length;
+          }
+     }
+
+     /**
+      * Writes the queued messages of a connection until its socket is back above the high-water mark.
+      *
+      * @private
+      * @param {WebSocket} ws - The connection to flush.
+      */
+     private flush(ws: WebSocket): void {
+          const queue = this.outbound.get(ws);
+          while (queue && queue.size > 0 && ws.readyState === WebSocket.OPEN && !this.isAboveHighWaterMark(ws)) {
+               this.write(ws, queue.shift()!);
+               this.metrics.outboundQueueDepth.dec();
+          }
+     }
+
+     /**
+      * Checks whether the socket of a connection buffers more than the configured high-water mark.
+      *
+      * @private
+      * @param {WebSocket} ws - The connection.
+      * @returns {boolean} - True if outbound messages should be queued.
+      */
+     private isAboveHighWaterMark(ws: WebSocket): boolean {
+          return ws.bufferedAmount >= (this.config.backpressure?.highWaterMark ?? DEFAULT_HIGH_WATER_MARK);
+     }
+
+     /**
+      * Delivers a packet received from another server instance to the local connections.
+      *
+      * @private
+      * @param {IAdapterPacket} packet - The packet received through the adapter.
+      */
+     private deliverPacket(packet: IAdapterPacket): void {
+          try {
+               if (packet.kind === 'room' && packet.room) {
+                    this.deliverToRoom(packet.room, packet.message);
+               } else if (packet.kind === 'direct' && packet.to) {
+                    this.deliverToUser(packet.to, packet.message);
+               } else if (packet.kind === 'broadcast') {
+                    this.deliverToAll(packet.message);
+               }
+          } catch (error) {
+               this.logger.error('Error delivering adapter packet', { kind: packet.kind, error: (error as Error).message });
+          }
+     }
+
+     /**
+      * Publishes a packet to the other server instances, if an adapter is configured.
+      *
+      * @private
+      * @param {IAdapterPacket} packet - The packet to publish.
+      */
+     private publish(packet: IAdapterPacket): void {
+          if (!this.adapter) {
+               return;
+          }
+
+          Promise.resolve()
+               .then(() => this.adapter!.publish(packet))
+               .catch((error: Error) => {
+                    this.logger.error('Adapter publish failed', { kind: packet.kind, error: error.message });
+               });
+     }
+
+     /**
+      * Sends a request to every local connection of a user and awaits the first reply. Replies
+      * from other connections carrying the same id are ignored.
+      *
+      * @param {string} username - The user to send the request to.
+      * @param {string} event - The event name of the request.
+      * @param {any} payload - The content of the request.
+      * @param {number} [timeout] - Milliseconds to wait for the reply. Defaults to `requestTimeout`.
+      * @returns {Promise<T>} - Resolves with the reply content, or rejects with a `MessageError`.
+      */
+     public request<T = any>(username: string, event: string, payload?: any, timeout?: number): Promise<T> {
+          const { id, promise } = this.ackService.createRequest<T>(timeout, this.getUserSockets(username));
+          const message: IMessage<any> = { type: event, id, sender: 'server', content: payload };
+
+          if (!this.deliverToUser(username, message)) {
+               this.ackService.cancel(id, new MessageError(ERROR_CODES.USER_OFFLINE, 'Recipient is not connected', { to: username }));
+          }
+
+          return promise;
+     }
+
+     /**
+      * Adds every connection of a user to a room.
+      *
+      * @param {string} username - The user joining the room.
+      * @param {string} room - The name of the room.
+      * @returns {number} - The number of connections that joined the room.
+      */
+     public joinRoom(username: string, room: string): number {
+          const sockets = this.getUserSockets(username);
+          sockets.forEach(ws => this.roomService.join(ws, room));
+          return sockets.length;
+     }
+
+     /**
+      * Removes every connection of a user from a room.
+      *
+      * @param {string} username - The user leaving the room.
+      * @param {string} room - The name of the room.
+      * @returns {number} - The number of connections that left the room.
+      */
+     public leaveRoom(username: string, room: string): number {
+          return this.getUserSockets(username).filter(ws => this.roomService.leave(ws, room)).length;
+     }
+
+     /**
+      * Retrieves the distinct usernames of the members of a room.
+      *
+      * @param {string} room - The name of the room.
+      * @returns {string[]} - The usernames of the room members.
+      */
+     public getRoomMembers(room: string): string[] {
+          const usernames = new Set<string>();
+          this.roomService.getMembers(room).forEach(ws => {
+               const connection = this.connections.get(ws);
+               if (connection) {
+                    usernames.add(connection.user);
+               }
+          });
+          return Array.from(usernames);
+     }
+
+     /**
+      * Reads and validates the room name of a room join/leave message.
+      *
+      * @private
+      * @param {IEventContext} context - The context of the incoming message.
+      * @returns {string} - The room name.
+      * @throws {MessageError} - If the room name is missing or empty.
+      */
+     private getRoomName(context: IEventContext): string {
+          const room = context.message.room;
+          if (typeof room !== 'string' || room.trim() === '') {
+               throw new MessageError(ERROR_CODES.INVALID_ROOM, 'Invalid room name');
+          }
+          return room;
+     }
+
+     /**
+      * Retrieves the connections of a user.
+      *
+      * @private
+      * @param {string} username - The user to look up.
+      * @returns {WebSocket[]} - The connections belonging to the user.
+      */
+     private getUserSockets(username: string): WebSocket[] {
+          return Array.from(this.users.get(username) ?? []);
+     }
+
+     /**
+      * Indexes a connection under its username.
+      *
+      * @private
+      * @param {string} username - The user owning the connection.
+      * @param {WebSocket} ws - The connection to index.
+      */
+     private addUserSocket(username: string, ws: WebSocket): void {
+          let sockets = this.users.get(username);
+          if (!sockets) {
+               sockets = new Set();
+               this.users.set(username, sockets);
+          }
+          sockets.add(ws);
+     }
+
+     /**
+      * Removes a connection from the username index, dropping the user once no connections remain.
+      *
+      * @private
+      * @param {string} username - The user owning the connection.
+      * @param {WebSocket} ws - The connection to remove.
+      */
+     private removeUserSocket(username: string, ws: WebSocket): void {
+          const sockets = this.users.get(username);
+          sockets?.delete(ws);
+          if (sockets && sockets.size === 0) {
+               this.users.delete(username);
+          }
+     }
+
+     /**
+      * Sends a structured error reply to a client.
+      *
+      * @private
+      * @param {WebSocket} ws - The client to notify.
+      * @param {string} code - The machine-readable error code.
+      * @param {string} error - The human-readable error description.
+      * @param {Record<string, any>} [details] - Additional information about the error.
+      * @param {string} [id] - The correlation id of the message that caused the error.
+      */
+     private sendError(ws: WebSocket, code: string, error: string, details?: Record<string, any>, id?: string): void {
+          const reply: IErrorMessage = {
+               type: 'error',
+               ...(id !== undefined && { id }),
+               code,
+               error,
+               ...(details && { details }),
+          };
+          if (this.sendPayload(ws, this.encodeFrame(this.codecService.get(ws.protocol), reply, 'error'))) {
+               this.metrics.errorsSent.inc({ code });
+          }
+     }
+
+     /**
+      * Starts pinging connections at the configured heartbeat interval.
+      *
+      * @private
+      */
+     private startHeartbeat(): void {
+          const { enabled = true, interval = 30000 } = this.config.heartbeat ?? {};
+          if (!enabled || interval <= 0) {
+               return;
+          }
+
+          this.heartbeatTimer = setInterval(() => this.checkHeartbeats(), interval);
+          this.heartbeatTimer.unref();
+     }
+
+     /**
+      * Removes connections that have left too many pings unanswered and pings the others.
+      *
+      * Removed connections are no longer tracked, so that a connection waiting for its close
+      * handshake is not closed again on the next interval.
+      *
+      * @private
+      */
+     private checkHeartbeats(): void {
+          const { maxMissedPongs = 2, terminateOnTimeout = true } = this.config.heartbeat ?? {};
+
+          this.missedPongs.forEach((missed, ws) => {
+               if (missed >= maxMissedPongs) {
+                    this.logger.warn('Heartbeat timeout', { user: this.connections.get(ws)?.user, missedPongs: missed });
+                    this.missedPongs.delete(ws);
+                    if (terminateOnTimeout) {
+                         this.disconnectReasons.set(ws, 'timeout');
+                         ws.terminate();
+                    } else {
+                         this.disconnect(ws, 'timeout', CLOSE_CODES.HEARTBEAT_TIMEOUT, 'Heartbeat timeout');
+                    }
+                    return;
+               }
+
+               if (ws.readyState === WebSocket.OPEN) {
+                    this.missedPongs.set(ws, missed + 1);
+                    ws.ping();
+               }
+          });
+     }
+
+     /**
+      * Closes a connection from the server side, recording why it was closed.
+      *
+      * @private
+      * @param {WebSocket} ws - The connection to close.
+      * @param {DisconnectReason} reason - Why the server is closing the connection.
+      * @param {number} [code] - The WebSocket close code.
+      * @param {string} [message] - The WebSocket close reason text.
+      */
+     private disconnect(ws: WebSocket, reason: DisconnectReason, code?: number, message?: string): void {
+          this.disconnectReasons.set(ws, reason);
+          ws.close(code, message);
+     }
+
+     /**
+      * Gracefully shuts down the WebSocket server and logs the closure.
+      *
+      * Upgrade requests are refused from the start. Clients receive a `server:shutdown` notice with
+      * the delay after which they should reconnect, then in-flight handlers and outgoing buffers
+      * are drained and connections are closed with `1001`. Connections still open once the drain
+      * timeout has elapsed are terminated. Calling `close()` again returns the pending shutdown.
+      *
+      * @returns {Promise<void>} - Resolves once every connection is closed.
+      */
+     public close(): Promise<void> {
+          if (!this.closing) {
+               this.closing = this.shutdown();
+          }
+          return this.closing;
+     }
+
+     /**
+      * Notifies, drains and closes every connection, then closes the WebSocket server and the adapter.
+      *
+      * @private
+      * @returns {Promise<void>} - Resolves once every connection is closed.
+      */
+     private async shutdown(): Promise<void> {
+          const { drainTimeout = DEFAULT_DRAIN_TIMEOUT, reconnectDelay = DEFAULT_RECONNECT_DELAY } = this.config.shutdown ?? {};
+          const deadline = Date.now() + drainTimeout;
+
+          clearInterval(this.heartbeatTimer);
+          this.logger.warn('Server shutting down', { connections: this.connections.size, inFlight: this.inFlight.size, drainTimeout });
+          this.fanOut('shutdown', this.connections.keys(), 'control', { type: SYSTEM_EVENTS.SERVER_SHUTDOWN, sender: 'server', content: { reconnectIn: reconnectDelay } });
+
+          await this.waitUntil(() => this.inFlight.size === 0, deadline);
+          await this.waitUntil(() => [...this.connections.keys()].every(ws => !this.outbound.get(ws)?.size && ws.bufferedAmount === 0), deadline);
+
+          this.ackService.cancelAll(new Error('Server shutting down'));
+          this.connections.forEach((_connection, ws) => {
+               this.disconnect(ws, 'shutdown', CLOSE_CODES.GOING_AWAY, 'Server shutting down');
+          });
+
+          if (!(await this.waitUntil(() => this.connections.size === 0, deadline))) {
+               this.logger.warn('Terminating connections after drain timeout', { connections: this.connections.size });
+               this.connections.forEach((_connection, ws) => ws.terminate());
+               await this.waitUntil(() => this.connections.size === 0, Date.now() + DRAIN_POLL_INTERVAL);
+          }
+
+          await new Promise<void>(resolve => this.wss.close(() => resolve()));
+          this.logger.warn('WebSocket server closed.');
+
+          if (this.adapter) {
+               try {
+                    await this.adapter.close();
+               } catch (error) {
+                    this.logger.error('Adapter close failed', { error: (error as Error).message });
+               }
+          }
+     }
+
+     /**
+      * Waits until a condition holds or a deadline passes, checking it at a fixed interval.
+      *
+      * @private
+      * @param {Function} condition - The condition to wait for.
+      * @param {number} deadline - The timestamp after which to stop waiting.
+      * @returns {Promise<boolean>} - True if the condition holds, false if the deadline passed first.
+      */
+     private async waitUntil(condition: () => boolean, deadline: number): Promise<boolean> {
+          while (!condition()) {
+               if (Date.now() >= deadline) {
+                    return false;
+               }
+               await new Promise(resolve => setTimeout(resolve, Math.min(DRAIN_POLL_INTERVAL, deadline - Date.now())));
+          }
+          return true;
+     }
 }
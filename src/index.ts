@@ -1,15 +1,84 @@
+export * from './adapters/InMemoryAdapter';
+export * from './adapters/PubSubAdapter';
+export * from './auth/ApiKeyStrategy';
+export * from './auth/CustomStrategy';
+export * from './auth/extractToken';
+export * from './auth/JwtStrategy';
+export * from './client/WebSocketClient';
+export * from './codecs/JsonCodec';
+export * from './codecs/MessagePackCodec';
+export * from './config/closeCodes';
+export * from './config/errorCodes';
+export * from './config/events';
 export * from './config/inversify.config';
 export * from './config/types';
 export * from './controllers/WebSocketController';
+export * from './interfaces/IAckService';
+export * from './interfaces/IAdapter';
+export * from './interfaces/IAdminOptions';
+export * from './interfaces/IAdmissionOptions';
+export * from './interfaces/IAuthOptions';
+export * from './interfaces/IAuthorizationOptions';
+export * from './interfaces/IAuthorizationService';
 export * from './interfaces/IAuthService';
+export * from './interfaces/IAuthStrategy';
+export * from './interfaces/IBackpressureOptions';
+export * from './interfaces/ICodec';
+export * from './interfaces/ICompressionOptions';
 export * from './interfaces/IConfig';
+export * from './interfaces/IConnection';
+export * from './interfaces/IDisconnectInfo';
+export * from './interfaces/IErrorMessage';
+export * from './interfaces/IEventRouter';
+export * from './interfaces/IHeartbeatOptions';
+export * from './interfaces/IHistoryOptions';
 export * from './interfaces/ILogger';
+export * from './interfaces/ILoggingOptions';
 export * from './interfaces/IMessage';
+export * from './interfaces/IMessageStore';
+export * from './interfaces/IMessageValidator';
+export * from './interfaces/IMetricsOptions';
+export * from './interfaces/IMetricsService';
+export * from './interfaces/IMiddleware';
+export * from './interfaces/IPresenceOptions';
+export * from './interfaces/IPresenceService';
+export * from './interfaces/IPrincipal';
+export * from './interfaces/IRateLimiter';
+export * from './interfaces/IRateLimitOptions';
+export * from './interfaces/IRoomService';
+export * from './interfaces/IShutdownOptions';
+export * from './interfaces/ITlsOptions';
+export * from './interfaces/IWebSocketClient';
 export * from './interfaces/IWebSocketManager';
 export * from './interfaces/IWebSocketService';
+export * from './metrics/Counter';
+export * from './metrics/Gauge';
+export * from './metrics/Histogram';
+export * from './metrics/Metric';
+export * from './metrics/WebSocketMetrics';
 export * from './model/User';
+export * from './services/AckService';
+export * from './services/AuthorizationService';
 export * from './services/AuthService';
+export * from './services/CodecService';
+export * from './services/EventRouter';
 export * from './services/LoggerService';
+export * from './services/MetricsService';
+export * from './services/MiddlewareService';
+export * from './services/PresenceService';
+export * from './services/RateLimiterService';
+export * from './services/RoomService';
+export * from './services/ValidationService';
 export * from './services/WebSocketService';
+export * from './stores/InMemoryMessageStore';
+export * from './transports/ConsoleTransport';
+export * from './transports/JsonLineTransport';
+export * from './utils/AuthenticationError';
+export * from './utils/binary';
+export * from './utils/close';
 export * from './utils/Config';
+export * from './utils/MessageError';
+export * from './utils/OutboundQueue';
+export * from './utils/RejectionError';
+export * from './utils/UpgradeRouter';
 export * from './api/WebSocketManager';
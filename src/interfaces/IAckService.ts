@@ -0,0 +1,69 @@
+import { IMessage } from './IMessage';
+import { IErrorMessage } from './IErrorMessage';
+
+/**
+ * IPendingRequest: A server-side request awaiting its reply.
+ *
+ * ## Properties:
+ * - **id** (string): The correlation id to send with the request message.
+ * - **promise** (Promise<T>): Resolves with the reply content, or rejects with a `MessageError`.
+ */
+export interface IPendingRequest<T = any> {
+     /**
+      * The correlation id to send with the request message.
+      */
+     id: string;
+
+     /**
+      * Resolves with the reply content, or rejects with a `MessageError` on an error reply or timeout.
+      */
+     promise: Promise<T>;
+}
+
+/**
+ * IAckService: Interface for correlating server-side requests with client replies.
+ *
+ * This interface defines the contract for tracking requests sent by the server to clients,
+ * matching the `ack` and `error` replies they send back by their correlation id and the
+ * connection they arrive on, and enforcing a timeout on each request.
+ *
+ * ## Methods:
+ * - **createRequest**: Registers a new pending request.
+ * - **handleReply**: Settles the pending request a reply belongs to.
+ * - **cancel**: Rejects a pending request.
+ * - **cancelAll**: Rejects every pending request.
+ */
+export interface IAckService {
+     /**
+      * Registers a new pending request.
+      *
+      * @param {number} [timeout] - Milliseconds to wait for the reply. Defaults to the configured `requestTimeout`.
+      * @param {Iterable<object>} [recipients] - The connections the request is sent to, the only ones whose replies settle it.
+      * @returns {IPendingRequest<T>} - The correlation id and the promise of the reply.
+      */
+     createRequest<T = any>(timeout?: number, recipients?: Iterable<object>): IPendingRequest<T>;
+
+     /**
+      * Settles the pending request a reply belongs to.
+      *
+      * @param {IMessage<any> | IErrorMessage} reply - An `ack` or `error` reply sent by a client.
+      * @param {object} [from] - The connection the reply was received on.
+      * @returns {boolean} - True if the reply matched a pending request, false otherwise.
+      */
+     handleReply(reply: IMessage<any> | IErrorMessage, from?: object): boolean;
+
+     /**
+      * Rejects a pending request.
+      *
+      * @param {string} id - The correlation id of the request.
+      * @param {Error} error - The error to reject the request with.
+      */
+     cancel(id: string, error: Error): void;
+
+     /**
+      * Rejects every pending request, for example when the server shuts down.
+      *
+      * @param {Error} error - The error to reject the requests with.
+      */
+     cancelAll(error: Error): void;
+}
@@ -0,0 +1,104 @@
+import { IMessage } from './IMessage';
+
+/**
+ * IAdapterPacket: A message forwarded between server instances by an adapter.
+ *
+ * ## Properties:
+ * - **kind** ('broadcast' | 'room' | 'direct'): How the message is addressed.
+ * - **room** (string | undefined): The target room of a `room` packet.
+ * - **to** (string | undefined): The target username of a `direct` packet.
+ * - **message** (IMessage<any>): The message to deliver.
+ */
+export interface IAdapterPacket {
+     /**
+      * How the message is addressed: to all clients, to the members of a room, or to one user.
+      */
+     kind: 'broadcast' | 'room' | 'direct';
+
+     /**
+      * The target room of a `room` packet.
+      */
+     room?: string;
+
+     /**
+      * The target username of a `direct` packet.
+      */
+     to?: string;
+
+     /**
+      * The message to deliver.
+      */
+     message: IMessage<any>;
+}
+
+/**
+ * IAdapter: Interface for forwarding messages between server instances.
+ *
+ * When several instances run behind a load balancer, each instance only holds the connections
+ * that reached it. An adapter publishes the broadcasts, room messages and direct messages of one
+ * instance to all the others, which deliver them to their own local connections. Adapters must
+ * not hand an instance's own packets back to it.
+ *
+ * ## Methods:
+ * - **publish**: Sends a packet to the other instances.
+ * - **subscribe**: Registers the handler for packets published by the other instances.
+ * - **close**: Stops receiving packets and releases the adapter's resources.
+ */
+export interface IAdapter {
+     /**
+      * Sends a packet to the other instances.
+      *
+      * @param {IAdapterPacket} packet - The packet to publish.
+      */
+     publish(packet: IAdapterPacket): void | Promise<void>;
+
+     /**
+      * Registers the handler for packets published by the other instances. Packets that cannot be
+      * read are dropped and reported to `onError` instead.
+      *
+      * @param {Function} handler - Invoked with each packet received from another instance.
+      * @param {Function} [onError] - Invoked with the error of each packet that cannot be read.
+      */
+     subscribe(handler: (packet: IAdapterPacket) => void, onError?: (error: Error) => void): void | Promise<void>;
+
+     /**
+      * Stops receiving packets and releases the adapter's resources.
+      */
+     close(): void | Promise<void>;
+}
+
+/**
+ * IPubSubClient: Interface for the publish/subscribe broker backing a `PubSubAdapter`.
+ *
+ * Any broker with channel-based publish/subscribe (Redis, NATS, a local stand-in, ...) can
+ * back the adapter through a thin wrapper implementing this interface.
+ *
+ * ## Methods:
+ * - **publish**: Publishes a payload on a channel.
+ * - **subscribe**: Registers a listener for payloads published on a channel.
+ * - **unsubscribe**: Removes the listeners of a channel.
+ */
+export interface IPubSubClient {
+     /**
+      * Publishes a payload on a channel.
+      *
+      * @param {string} channel - The channel to publish on.
+      * @param {string} payload - The serialized payload.
+      */
+     publish(channel: string, payload: string): void | Promise<unknown>;
+
+     /**
+      * Registers a listener for payloads published on a channel.
+      *
+      * @param {string} channel - The channel to subscribe to.
+      * @param {Function} listener - Invoked with each serialized payload.
+      */
+     subscribe(channel: string, listener: (payload: string) => void): void | Promise<unknown>;
+
+     /**
+      * Removes the listeners of a channel.
+      *
+      * @param {string} channel - The channel to unsubscribe from.
+      */
+     unsubscribe(channel: string): void | Promise<unknown>;
+}
@@ -0,0 +1,38 @@
+import { IncomingMessage } from 'http';
+
+import { IPrincipal } from './IPrincipal';
+
+/**
+ * IAdminOptions: Interface for configuring the admin REST API.
+ *
+ * ## Properties:
+ * - **enabled** (boolean | undefined): Flag to mount the admin API on the Express application.
+ * - **path** (string | undefined): The route the admin API is mounted on.
+ * - **roles** (string[] | undefined): The roles of which a caller needs at least one.
+ * - **authorize** (Function | undefined): Decides whether an authenticated caller may use the admin API, instead of `roles`.
+ */
+export interface IAdminOptions {
+     /**
+      * Flag to mount the admin API on the Express application (default: `false`).
+      */
+     enabled?: boolean;
+
+     /**
+      * The route the admin API is mounted on (default: `'/admin'`).
+      */
+     path?: string;
+
+     /**
+      * The roles of which a caller needs at least one (default: `['admin']`).
+      */
+     roles?: string[];
+
+     /**
+      * Decides whether an authenticated caller may use the admin API. Replaces the `roles` check.
+      *
+      * @param {IPrincipal} principal - The authenticated caller.
+      * @param {IncomingMessage} request - The HTTP request.
+      * @returns {boolean | Promise<boolean>} - True if the caller may use the admin API.
+      */
+     authorize?: (principal: IPrincipal, request: IncomingMessage) => boolean | Promise<boolean>;
+}
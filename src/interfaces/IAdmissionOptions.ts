@@ -0,0 +1,60 @@
+import { IRateLimitPolicy } from './IRateLimitOptions';
+
+/**
+ * IAdmissionOptions: Interface for configuring which upgrade requests are admitted.
+ *
+ * Admission control runs before authentication and the handshake middleware. Refused requests
+ * are answered with an HTTP error response and never upgraded:
+ *
+ * - `403 Forbidden` when the `Origin` header is not allowed.
+ * - `429 Too Many Requests` when an address opens handshakes too fast, or an address or user
+ *   already has the maximum number of connections.
+ * - `503 Service Unavailable` when the server already has the maximum number of connections.
+ *
+ * ## Properties:
+ * - **maxConnections** (number | undefined): The maximum number of connections of the server.
+ * - **maxConnectionsPerUser** (number | undefined): The maximum number of connections of an authenticated user.
+ * - **maxConnectionsPerIp** (number | undefined): The maximum number of connections from an IP address.
+ * - **allowedOrigins** (Array<string | RegExp> | undefined): The origins browsers may connect from.
+ * - **handshakeRate** (object | undefined): Token bucket limiting the handshakes per IP address.
+ * - **trustProxy** (boolean | number | undefined): Whether, or through how many proxies, to read the client address from the `X-Forwarded-For` header.
+ */
+export interface IAdmissionOptions {
+     /**
+      * The maximum number of connections of the server, including handshakes in progress.
+      */
+     maxConnections?: number;
+
+     /**
+      * The maximum number of connections of an authenticated user. Anonymous clients are only
+      * limited per IP address.
+      */
+     maxConnectionsPerUser?: number;
+
+     /**
+      * The maximum number of connections from an IP address.
+      */
+     maxConnectionsPerIp?: number;
+
+     /**
+      * The origins browsers may connect from, e.g. `['https://app.example.com', /\.example\.com$/]`.
+      * Requests without an `Origin` header, sent by non-browser clients, are admitted.
+      */
+     allowedOrigins?: Array<string | RegExp>;
+
+     /**
+      * Token bucket limiting the handshakes per IP address: a burst of up to `capacity`
+      * handshakes, then `refillPerSecond` handshakes per second.
+      */
+     handshakeRate?: Pick<IRateLimitPolicy, 'capacity' | 'refillPerSecond'>;
+
+     /**
+      * Whether to read the client address from the `X-Forwarded-For` header when the server runs
+      * behind reverse proxies (default: `false`). `true` trusts a single proxy and reads the
+      * rightmost entry, the one the proxy appended; a number trusts that many proxies and reads
+      * the entry appended by the outermost of them. Entries to the left of it are set by the
+      * client and ignored, so they cannot be used to evade the per-address limits. The address is
+      * used for the limits and logs, and reported as the `remoteAddress` of the connection.
+      */
+     trustProxy?: boolean | number;
+}
@@ -0,0 +1,47 @@
+import { IAuthStrategy } from './IAuthStrategy';
+import { IPrincipal } from './IPrincipal';
+
+/**
+ * RevocationCheck: A function checking whether a token has been revoked, e.g. against a shared deny-list.
+ *
+ * @param {string} jti - The `jti` (JWT ID) claim of the token.
+ * @param {IPrincipal} principal - The principal of the token.
+ * @returns {boolean | Promise<boolean>} - True if the token has been revoked.
+ */
+export type RevocationCheck = (jti: string, principal: IPrincipal) => boolean | Promise<boolean>;
+
+/**
+ * IAuthOptions: Interface for configuring how connections are authenticated.
+ *
+ * ## Properties:
+ * - **strategies** (IAuthStrategy[] | undefined): The strategies to try, in order.
+ * - **allowAnonymous** (boolean | undefined): Whether requests without credentials are accepted.
+ * - **expiryWarning** (number | undefined): Milliseconds before the credentials expire at which the client is warned.
+ * - **isRevoked** (RevocationCheck | undefined): Checks whether a token has been revoked.
+ */
+export interface IAuthOptions {
+     /**
+      * The strategies to try, in order (default: a `JwtStrategy` verifying HS256 tokens signed with
+      * the `secretKey`, read from the `Authorization` header, a `bearer.` subprotocol or the
+      * `token` query parameter). Strategies reading cookies require `admission.allowedOrigins`.
+      */
+     strategies?: IAuthStrategy[];
+
+     /**
+      * Whether requests without credentials are accepted as the `Anonymous` user (default: `true`).
+      */
+     allowAnonymous?: boolean;
+
+     /**
+      * Milliseconds before the credentials of a connection expire at which the client receives an
+      * `auth:expiring` message (default: `60000`).
+      */
+     expiryWarning?: number;
+
+     /**
+      * Checks whether a token has been revoked, in addition to the tokens revoked through
+      * `revokeToken()`. Called for tokens carrying a `jti` claim when a client connects or
+      * re-authenticates.
+      */
+     isRevoked?: RevocationCheck;
+}
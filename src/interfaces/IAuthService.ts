@@ -1,3 +1,7 @@
+import { IncomingMessage } from 'http';
+
+import { IPrincipal } from './IPrincipal';
+
 /**
  * IAuthService: Interface for authentication services.
  *
@@ -10,15 +14,70 @@ export interface IAuthService {
       * Generates a secure token for a given username.
       *
       * @param {string} username - The username for which the token will be generated.
+      * @param {IGenerateTokenOptions} [options] - The roles and additional claims of the token.
       * @returns {string} - A string representing the generated authentication token.
       */
-     generateToken(username: string): string;
+     generateToken(username: string, options?: IGenerateTokenOptions): string;
 
      /**
-      * Verifies the provided token and retrieves the associated username if the token is valid.
+      * Verifies the provided token and retrieves the associated principal if the token is valid.
       *
       * @param {string} token - The authentication token to be verified.
-      * @returns {string | null} - The username associated with the token if valid, or null if invalid.
+      * @returns {IPrincipal | null} - The principal associated with the token if valid, or null if invalid.
+      */
+     verifyToken(token: string): IPrincipal | null;
+
+     /**
+      * Authenticates an upgrade request with the configured strategies, in order.
+      *
+      * @param {IncomingMessage} request - The HTTP upgrade request.
+      * @returns {Promise<IPrincipal | null>} - The authenticated principal, or null for anonymous requests.
+      * @throws {AuthenticationError} - If the credentials are invalid, or missing while anonymous requests are not allowed.
+      */
+     authenticate(request: IncomingMessage): Promise<IPrincipal | null>;
+
+     /**
+      * Verifies a token sent by a connected client to re-authenticate.
+      *
+      * @param {string} token - The fresh token.
+      * @param {IncomingMessage} request - The HTTP upgrade request of the connection.
+      * @returns {Promise<IPrincipal>} - The principal of the token.
+      * @throws {AuthenticationError} - If no strategy accepts the token, or the token has been revoked.
+      */
+     reauthenticate(token: string, request: IncomingMessage): Promise<IPrincipal>;
+
+     /**
+      * Adds a token to the deny-list.
+      *
+      * @param {string} jti - The `jti` (JWT ID) claim of the token.
+      * @param {number} [expiresAt] - When the token expires, in milliseconds since the epoch, after which it no longer needs to be listed.
+      */
+     revokeToken(jti: string, expiresAt?: number): void;
+
+     /**
+      * Checks whether the token of a principal has been revoked.
+      *
+      * @param {IPrincipal} principal - The principal of the token.
+      * @returns {Promise<boolean>} - True if the token has been revoked.
+      */
+     isRevoked(principal: IPrincipal): Promise<boolean>;
+}
+
+/**
+ * IGenerateTokenOptions: Interface for the contents of a generated token.
+ *
+ * ## Properties:
+ * - **roles** (string[] | undefined): The roles of the principal.
+ * - **claims** (Record<string, any> | undefined): Additional claims to include in the token.
+ */
+export interface IGenerateTokenOptions {
+     /**
+      * The roles of the principal.
+      */
+     roles?: string[];
+
+     /**
+      * Additional claims to include in the token.
       */
-     verifyToken(token: string): string | null;
+     claims?: Record<string, any>;
 }
@@ -0,0 +1,158 @@
+import { IncomingMessage } from 'http';
+
+import { IPrincipal } from './IPrincipal';
+
+/**
+ * TokenSource: Where in the upgrade request a credential is read from.
+ *
+ * - `header`: An HTTP header, by default `Authorization`, optionally prefixed by a scheme such as `Bearer`.
+ * - `cookie`: A cookie, by default `token`. Browsers send cookies with requests made by any site, so
+ *   strategies reading cookies require `admission.allowedOrigins`.
+ * - `protocol`: A `Sec-WebSocket-Protocol` entry starting with a prefix, by default `bearer.`. Browsers
+ *   cannot set headers on WebSocket requests, but they can offer subprotocols.
+ * - `query`: A query parameter, by default `token`. Query strings often end up in proxy logs.
+ */
+export type TokenSource =
+     | { type: 'header'; name?: string; scheme?: string }
+     | { type: 'cookie'; name?: string }
+     | { type: 'protocol'; prefix?: string }
+     | { type: 'query'; name?: string };
+
+/**
+ * IAuthStrategy: Interface for a way of authenticating upgrade requests.
+ *
+ * Strategies are tried in order until one recognizes the request. A strategy returns `null` when
+ * the request carries no credentials it understands, so that the next strategy is tried, and
+ * throws an `AuthenticationError` when it finds credentials that are invalid.
+ *
+ * ## Properties:
+ * - **name** (string): The name of the strategy, used in logs.
+ * - **sources** (TokenSource[] | undefined): Where the strategy reads credentials from.
+ *
+ * ## Methods:
+ * - **authenticate**: Authenticates an upgrade request.
+ * - **verify** (optional): Verifies a credential sent by a connected client to re-authenticate.
+ */
+export interface IAuthStrategy {
+     /**
+      * The name of the strategy, used in logs.
+      */
+     readonly name: string;
+
+     /**
+      * Where the strategy reads credentials from, in order. A strategy reading cookies can only be
+      * used when `admission.allowedOrigins` is configured.
+      */
+     readonly sources?: TokenSource[];
+
+     /**
+      * Authenticates an upgrade request.
+      *
+      * @param {IncomingMessage} request - The HTTP upgrade request.
+      * @returns {Promise<IPrincipal | null>} - The authenticated principal, or null if the request
+      * carries no credentials for this strategy.
+      * @throws {AuthenticationError} - If the request carries invalid credentials.
+      */
+     authenticate(request: IncomingMessage): Promise<IPrincipal | null>;
+
+     /**
+      * Verifies a credential sent by a connected client to re-authenticate. Strategies without
+      * this method cannot be used to re-authenticate.
+      *
+      * @param {string} token - The credential.
+      * @param {IncomingMessage} request - The HTTP upgrade request of the connection.
+      * @returns {IPrincipal | Promise<IPrincipal>} - The principal of the credential.
+      * @throws {AuthenticationError} - If the credential is invalid.
+      */
+     verify?(token: string, request: IncomingMessage): IPrincipal | Promise<IPrincipal>;
+}
+
+/**
+ * IJwtStrategyOptions: Interface for configuring a `JwtStrategy`.
+ *
+ * Exactly one of `secret`, `publicKey`, `publicKeyFile` or `jwksFile` provides the verification key.
+ *
+ * ## Properties:
+ * - **secret** (string | undefined): The shared secret of HS256 tokens.
+ * - **publicKey** (string | Buffer | undefined): The PEM public key of RS256 tokens.
+ * - **publicKeyFile** (string | undefined): The path of a PEM file holding the public key of RS256 tokens.
+ * - **jwksFile** (string | undefined): The path of a JWKS file; tokens are verified with the key matching their `kid`.
+ * - **algorithms** (string[] | undefined): The accepted signature algorithms.
+ * - **issuer** (string | undefined): The required `iss` claim.
+ * - **audience** (string | undefined): The required `aud` claim.
+ * - **idClaim** (string | undefined): The claim holding the principal id.
+ * - **rolesClaim** (string | undefined): The claim holding the principal roles.
+ * - **sources** (TokenSource[] | undefined): Where the token is read from, in order.
+ */
+export interface IJwtStrategyOptions {
+     /**
+      * The shared secret of HS256 tokens.
+      */
+     secret?: string;
+
+     /**
+      * The PEM public key of RS256 tokens.
+      */
+     publicKey?: string | Buffer;
+
+     /**
+      * The path of a PEM file holding the public key of RS256 tokens.
+      */
+     publicKeyFile?: string;
+
+     /**
+      * The path of a JWKS file (`{ "keys": [...] }`). Tokens are verified with the key matching the
+      * `kid` in their header, or with the only key of the file if they have none.
+      */
+     jwksFile?: string;
+
+     /**
+      * The accepted signature algorithms (default: `['HS256']` with a secret, `['RS256']` otherwise).
+      */
+     algorithms?: Array<'HS256' | 'HS384' | 'HS512' | 'RS256' | 'RS384' | 'RS512' | 'ES256' | 'ES384' | 'ES512' | 'PS256' | 'PS384' | 'PS512'>;
+
+     /**
+      * The required `iss` claim.
+      */
+     issuer?: string;
+
+     /**
+      * The required `aud` claim.
+      */
+     audience?: string;
+
+     /**
+      * The claim holding the principal id (default: `sub`, falling back to `username`).
+      */
+     idClaim?: string;
+
+     /**
+      * The claim holding the principal roles (default: `roles`).
+      */
+     rolesClaim?: string;
+
+     /**
+      * Where the token is read from, in order (default: the `Authorization` header, a `bearer.`
+      * subprotocol and the `token` query parameter).
+      */
+     sources?: TokenSource[];
+}
+
+/**
+ * IApiKeyStrategyOptions: Interface for configuring an `ApiKeyStrategy`.
+ *
+ * ## Properties:
+ * - **keys** (Record<string, string | IPrincipal>): The accepted keys, mapped to a principal id or a full principal.
+ * - **sources** (TokenSource[] | undefined): Where the key is read from, in order.
+ */
+export interface IApiKeyStrategyOptions {
+     /**
+      * The accepted keys, mapped to the id of their principal or to a full principal.
+      */
+     keys: Record<string, string | IPrincipal>;
+
+     /**
+      * Where the key is read from, in order (default: the `X-API-Key` header and an `apikey.` subprotocol).
+      */
+     sources?: TokenSource[];
+}
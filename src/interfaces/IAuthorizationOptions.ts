@@ -0,0 +1,101 @@
+import { IMessage } from './IMessage';
+import { User } from '../model/User';
+
+/**
+ * AccessAction: What a client attempts to do.
+ *
+ * - `event`: Send a message of an event type. The target is the event name.
+ * - `room`: Join a room. The target is the room name.
+ * - `broadcast`: Send a message to every connected client. The target is `*`.
+ */
+export type AccessAction = 'event' | 'room' | 'broadcast';
+
+/**
+ * IAccessRequest: Interface for an attempt checked against an access policy.
+ *
+ * ## Properties:
+ * - **action** (AccessAction): What the client attempts to do.
+ * - **target** (string): The event or room the attempt is about.
+ * - **message** (IMessage): The message making the attempt.
+ */
+export interface IAccessRequest {
+     /**
+      * What the client attempts to do.
+      */
+     action: AccessAction;
+
+     /**
+      * The event or room the attempt is about, or `*` for broadcasts.
+      */
+     target: string;
+
+     /**
+      * The message making the attempt.
+      */
+     message: IMessage;
+}
+
+/**
+ * IAccessRule: Interface for a declarative access policy.
+ *
+ * A user is granted access when they have at least one of the `roles` and every one of the
+ * `permissions`. An empty rule grants access to everyone.
+ *
+ * ## Properties:
+ * - **roles** (string[] | undefined): Roles of which the user needs at least one.
+ * - **permissions** (string[] | undefined): Permissions the user needs all of.
+ */
+export interface IAccessRule {
+     /**
+      * Roles of which the user needs at least one.
+      */
+     roles?: string[];
+
+     /**
+      * Permissions the user needs all of, read from the `permissions` or `scope` claim.
+      */
+     permissions?: string[];
+}
+
+/**
+ * AccessCheck: A function deciding whether a user is granted access.
+ *
+ * @param {User} user - The user making the attempt.
+ * @param {IAccessRequest} request - The attempt.
+ * @returns {boolean | Promise<boolean>} - True to grant access.
+ */
+export type AccessCheck = (user: User, request: IAccessRequest) => boolean | Promise<boolean>;
+
+/**
+ * AccessPolicy: A declarative rule or a function deciding whether a user is granted access.
+ */
+export type AccessPolicy = IAccessRule | AccessCheck;
+
+/**
+ * IAuthorizationOptions: Interface for configuring what authenticated clients may do.
+ *
+ * Attempts without a policy are allowed. The `*` key of `events` and `rooms` holds the policy of
+ * the events and rooms that have none of their own.
+ *
+ * ## Properties:
+ * - **events** (Record<string, AccessPolicy> | undefined): Policies for sending messages, keyed by event type.
+ * - **rooms** (Record<string, AccessPolicy> | undefined): Policies for joining rooms, keyed by room name.
+ * - **broadcast** (AccessPolicy | undefined): Policy for sending messages to every connected client.
+ */
+export interface IAuthorizationOptions {
+     /**
+      * Policies for sending messages, keyed by event type. Messages without a `type` are checked
+      * against the `message` policy.
+      */
+     events?: Record<string, AccessPolicy>;
+
+     /**
+      * Policies for joining rooms, keyed by room name.
+      */
+     rooms?: Record<string, AccessPolicy>;
+
+     /**
+      * Policy for sending messages to every connected client.
+      */
+     broadcast?: AccessPolicy;
+}
@@ -0,0 +1,22 @@
+import { IAccessRequest } from './IAuthorizationOptions';
+import { User } from '../model/User';
+
+/**
+ * IAuthorizationService: Interface for deciding what clients may do.
+ *
+ * This interface defines the contract for an authorization service, which checks the attempts
+ * of a user to send events, join rooms and broadcast against the configured access policies.
+ *
+ * ## Methods:
+ * - **authorize**: Checks whether a user is granted an attempt.
+ */
+export interface IAuthorizationService {
+     /**
+      * Checks whether a user is granted an attempt.
+      *
+      * @param {User} user - The user making the attempt.
+      * @param {IAccessRequest} request - The attempt.
+      * @returns {Promise<boolean>} - True if the attempt is allowed.
+      */
+     authorize(user: User, request: IAccessRequest): Promise<boolean>;
+}
@@ -0,0 +1,56 @@
+/**
+ * OverflowPolicy: What happens when the outbound queue of a connection is full.
+ *
+ * - `drop-oldest`: The oldest queued message is discarded to make room for the new one.
+ * - `drop-newest`: The new message is discarded.
+ * - `disconnect`: The connection is closed with code 4003 (slow consumer).
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'disconnect';
+
+/**
+ * MessagePriority: The lane of an outbound message.
+ *
+ * - `control`: Replies, errors and server notifications. Sent before any queued data and never dropped;
+ *   a connection whose control lane is full is closed with code 4003 (slow consumer).
+ * - `data`: Broadcast, room and direct messages. Subject to the overflow policy.
+ */
+export type MessagePriority = 'control' | 'data';
+
+/**
+ * IBackpressureOptions: Interface for configuring the outbound queues of connections.
+ *
+ * Messages are written to a connection while its socket buffers less than `highWaterMark` bytes.
+ * Beyond that, they wait in the connection's outbound queue until the socket drains, so that a
+ * slow consumer cannot make the server buffer unbounded memory.
+ *
+ * ## Properties:
+ * - **highWaterMark** (number | undefined): Bytes buffered by a socket above which messages are queued.
+ * - **maxQueueSize** (number | undefined): The maximum number of data messages queued per connection.
+ * - **maxControlQueueSize** (number | undefined): The maximum number of control messages queued per connection.
+ * - **overflow** (OverflowPolicy | undefined): What happens when the queue of a connection is full.
+ */
+export interface IBackpressureOptions {
+     /**
+      * Bytes buffered by a socket above which messages are queued instead of written
+      * (default: `1048576`, i.e. 1 MiB).
+      */
+     highWaterMark?: number;
+
+     /**
+      * The maximum number of data messages queued per connection (default: `1000`). Control
+      * messages are not counted.
+      */
+     maxQueueSize?: number;
+
+     /**
+      * The maximum number of control messages queued per connection (default: `1000`). Control
+      * messages are never dropped: a connection with more of them queued, typically a client
+      * that keeps sending requests without reading the replies, is closed with code 4003.
+      */
+     maxControlQueueSize?: number;
+
+     /**
+      * What happens when the queue of a connection is full (default: `'drop-oldest'`).
+      */
+     overflow?: OverflowPolicy;
+}
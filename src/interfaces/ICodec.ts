@@ -0,0 +1,71 @@
+/**
+ * ICodec: Interface for serializing messages to and from WebSocket frames.
+ *
+ * Each codec is identified by the WebSocket subprotocol clients request it with in the
+ * `Sec-WebSocket-Protocol` header. Codecs producing strings are sent as text frames, codecs
+ * producing buffers as binary frames.
+ *
+ * ## Properties:
+ * - **name** (string): The subprotocol the codec is negotiated with.
+ *
+ * ## Methods:
+ * - **encode**: Serializes an outgoing message.
+ * - **decode**: Deserializes an incoming frame.
+ */
+export interface ICodec {
+     /**
+      * The subprotocol the codec is negotiated with, e.g. `json` or `msgpack`.
+      */
+     readonly name: string;
+
+     /**
+      * Serializes an outgoing message. Buffers, ArrayBuffers and typed arrays in the message are
+      * preserved as binary data.
+      *
+      * @param {object} message - The message to serialize.
+      * @returns {string | Buffer} - The frame payload.
+      */
+     encode(message: object): string | Buffer;
+
+     /**
+      * Deserializes an incoming frame.
+      *
+      * @param {Buffer} data - The frame payload.
+      * @returns {unknown} - The decoded message.
+      * @throws {MessageError} - If the payload is not valid for the codec.
+      */
+     decode(data: Buffer): unknown;
+}
+
+/**
+ * ICodecService: Interface for the codecs available to connections.
+ *
+ * ## Methods:
+ * - **register**: Makes a codec available for negotiation.
+ * - **negotiate**: Picks the subprotocol for a connection from those the client offers.
+ * - **get**: Retrieves the codec of a negotiated subprotocol.
+ */
+export interface ICodecService {
+     /**
+      * Makes a codec available for negotiation, replacing any codec with the same name.
+      *
+      * @param {ICodec} codec - The codec to register.
+      */
+     register(codec: ICodec): void;
+
+     /**
+      * Picks the subprotocol for a connection: the first one offered by the client that has a codec.
+      *
+      * @param {Set<string>} protocols - The subprotocols offered by the client, in order of preference.
+      * @returns {string | false} - The chosen subprotocol, or false if none has a codec.
+      */
+     negotiate(protocols: Set<string>): string | false;
+
+     /**
+      * Retrieves the codec of a negotiated subprotocol.
+      *
+      * @param {string} [protocol] - The subprotocol of the connection.
+      * @returns {ICodec} - Its codec, or the JSON codec if no subprotocol was negotiated.
+      */
+     get(protocol?: string): ICodec;
+}
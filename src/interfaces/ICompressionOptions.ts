@@ -0,0 +1,81 @@
+/**
+ * ICompressionOptions: Interface for configuring permessage-deflate compression.
+ *
+ * When enabled, the server offers the `permessage-deflate` extension to clients and compresses
+ * outgoing messages of at least `threshold` bytes for the clients that negotiated it. The
+ * `events` map opts individual event types in or out regardless of their size. Each compressor
+ * holds a zlib context of about `2^(windowBits + 2) + 2^(memLevel + 9)` bytes per connection.
+ *
+ * ## Properties:
+ * - **enabled** (boolean | undefined): Whether to negotiate compression with clients.
+ * - **threshold** (number | undefined): The smallest message, in bytes, that is compressed.
+ * - **events** (Record<string, boolean> | undefined): Event types always (`true`) or never (`false`) compressed.
+ * - **level** (number | undefined): The zlib compression level, from 0 (none) to 9 (smallest).
+ * - **memLevel** (number | undefined): The zlib memory level, from 1 to 9.
+ * - **windowBits** (number | undefined): The base-2 logarithm of the compression window size, from 9 to 15.
+ * - **clientMaxWindowBits** (number | undefined): The largest window clients may compress with.
+ * - **contextTakeover** (boolean | undefined): Whether compressors keep their history between messages.
+ * - **concurrencyLimit** (number | undefined): The maximum number of concurrent zlib operations.
+ * - **sampleRate** (number | undefined): The share of compressed messages whose ratio is measured.
+ */
+export interface ICompressionOptions {
+     /**
+      * Whether to negotiate permessage-deflate with clients (default: `false`).
+      */
+     enabled?: boolean;
+
+     /**
+      * The smallest message, in bytes, that is compressed (default: `1024`). Smaller messages
+      * rarely shrink enough to be worth the CPU time.
+      */
+     threshold?: number;
+
+     /**
+      * Event types that are always (`true`) or never (`false`) compressed, regardless of their
+      * size, e.g. `{ 'chat:typing': false, 'snapshot': true }`. Messages without a type use
+      * `message`.
+      */
+     events?: Record<string, boolean>;
+
+     /**
+      * The zlib compression level, from 0 (none) to 9 (smallest, slowest) (default: `3`).
+      */
+     level?: number;
+
+     /**
+      * The zlib memory level, from 1 (least memory) to 9 (fastest) (default: `7`).
+      */
+     memLevel?: number;
+
+     /**
+      * The base-2 logarithm of the compression window size, from 9 to 15 (default: `13`, i.e.
+      * 8 KiB).
+      */
+     windowBits?: number;
+
+     /**
+      * The base-2 logarithm of the largest window clients may compress with, from 9 to 15
+      * (default: unset, i.e. the client's choice). Clients whose offer does not include the
+      * optional `client_max_window_bits` parameter are then refused compression.
+      */
+     clientMaxWindowBits?: number;
+
+     /**
+      * Whether compressors keep their history between the messages of a connection (default:
+      * `false`). Keeping it improves the ratio of similar messages, but holds the zlib context
+      * of every connection in memory for its lifetime.
+      */
+     contextTakeover?: boolean;
+
+     /**
+      * The maximum number of concurrent zlib operations (default: `10`).
+      */
+     concurrencyLimit?: number;
+
+     /**
+      * The share of compressed messages whose compression ratio is measured for the metrics,
+      * between 0 and 1 (default: `0.1`). Measuring compresses the message once more,
+      * on the zlib thread pool and one message at a time.
+      */
+     sampleRate?: number;
+}
@@ -2,6 +2,25 @@ import { Application } from 'express';
 import { ServerOptions } from 'ws';
 
 import { IMessage } from './IMessage';
+import { IHeartbeatOptions } from './IHeartbeatOptions';
+import { IDisconnectInfo } from './IDisconnectInfo';
+import { IConnection } from './IConnection';
+import { IAdapter } from './IAdapter';
+import { ILoggingOptions } from './ILoggingOptions';
+import { IMetricsOptions } from './IMetricsOptions';
+import { IRateLimitOptions } from './IRateLimitOptions';
+import { IRateLimiter } from './IRateLimiter';
+import { MessageSchema } from './IMessageValidator';
+import { ICodec } from './ICodec';
+import { IAuthOptions } from './IAuthOptions';
+import { IAuthorizationOptions } from './IAuthorizationOptions';
+import { IPresenceOptions } from './IPresenceOptions';
+import { IHistoryOptions } from './IHistoryOptions';
+import { IMessageStore } from './IMessageStore';
+import { IShutdownOptions } from './IShutdownOptions';
+import { IBackpressureOptions } from './IBackpressureOptions';
+import { IAdmissionOptions } from './IAdmissionOptions';
+import { ICompressionOptions } from './ICompressionOptions';
 
 /**
  * IConfig: Interface for application configuration settings.
@@ -17,9 +36,29 @@ import { IMessage } from './IMessage';
  * - **hooks** (object | undefined): Optional lifecycle hooks for WebSocket message processing.
  *   - **beforeSend** (Function | undefined): Hook executed before a message is broadcasted.
  *   - **afterSend** (Function | undefined): Hook executed after a message is broadcasted.
+ *   - **onConnect** (Function | undefined): Hook executed after a connection has been accepted.
+ *   - **onDisconnect** (Function | undefined): Hook executed after a connection has closed.
  * - **enableLogging** (boolean | undefined): Flag to enable or disable logging across the application.
+ * - **logging** (ILoggingOptions | undefined): Optional log level, format and transport settings.
  * - **setupRoutes** (Function | undefined): Callback for setting up application routes.
  * - **onMessage** (Function | undefined): Custom handler for processing incoming WebSocket messages.
+ * - **requestTimeout** (number): Milliseconds to wait for the reply to a server-side request.
+ * - **heartbeat** (IHeartbeatOptions | undefined): Optional heartbeat settings for detecting dead connections.
+ * - **adapter** (IAdapter | undefined): Optional adapter forwarding messages between server instances.
+ * - **metrics** (IMetricsOptions | undefined): Optional metrics endpoint and naming settings.
+ * - **rateLimit** (IRateLimitOptions | undefined): Optional limits on the rate of incoming messages.
+ * - **rateLimiter** (IRateLimiter | undefined): Optional replacement for the in-memory token buckets.
+ * - **schemas** (Record<string, MessageSchema> | undefined): Optional payload schemas, keyed by event name.
+ * - **codecs** (ICodec[] | undefined): Optional codecs added to the built-in JSON and MessagePack codecs.
+ * - **auth** (IAuthOptions | undefined): Optional strategies authenticating upgrade requests.
+ * - **authorization** (IAuthorizationOptions | undefined): Optional access policies for events, rooms and broadcasts.
+ * - **presence** (IPresenceOptions | undefined): Optional presence tracking settings.
+ * - **history** (IHistoryOptions | undefined): Optional message history and replay settings.
+ * - **messageStore** (IMessageStore | undefined): Optional replacement for the in-memory message history.
+ * - **shutdown** (IShutdownOptions | undefined): Optional graceful shutdown settings.
+ * - **backpressure** (IBackpressureOptions | undefined): Optional outbound queue settings.
+ * - **admission** (IAdmissionOptions | undefined): Optional connection limits and handshake checks.
+ * - **compression** (ICompressionOptions | undefined): Optional permessage-deflate settings and per-message policy.
  */
 export interface IConfig {
      /**
@@ -50,15 +89,31 @@ export interface IConfig {
            * Hook executed before a message is broadcasted.
            *
            * @param {IMessage<any>} message - The message being processed.
+           * @param {IConnection} connection - The connection the message was received on.
            */
-          beforeSend?: (message: IMessage<any>) => void;
+          beforeSend?: (message: IMessage<any>, connection: IConnection) => void;
 
           /**
            * Hook executed after a message is broadcasted.
            *
            * @param {IMessage<any>} message - The message that was processed.
+           * @param {IConnection} connection - The connection the message was received on.
            */
-          afterSend?: (message: IMessage<any>) => void;
+          afterSend?: (message: IMessage<any>, connection: IConnection) => void;
+
+          /**
+           * Hook executed after a connection has been accepted.
+           *
+           * @param {IConnection} connection - The new connection.
+           */
+          onConnect?: (connection: IConnection) => void;
+
+          /**
+           * Hook executed after a connection has closed, with the reason it ended.
+           *
+           * @param {IDisconnectInfo} info - Information about the closed connection.
+           */
+          onDisconnect?: (info: IDisconnectInfo) => void;
      };
 
      /**
@@ -66,6 +121,11 @@ export interface IConfig {
       */
      enableLogging?: boolean;
 
+     /**
+      * Optional log level, format and transport settings.
+      */
+     logging?: ILoggingOptions;
+
      /**
       * Callback for setting up application routes.
       *
@@ -77,6 +137,92 @@ export interface IConfig {
       * Custom handler for processing incoming WebSocket messages.
       *
       * @param {IMessage<any>} message - The incoming WebSocket message.
+      * @param {IConnection} connection - The connection the message was received on.
+      */
+     onMessage?: (message: IMessage<any>, connection: IConnection) => void;
+
+     /**
+      * Milliseconds to wait for the reply to a server-side request before it is rejected.
+      */
+     requestTimeout: number;
+
+     /**
+      * Optional heartbeat settings for detecting dead connections.
+      */
+     heartbeat?: IHeartbeatOptions;
+
+     /**
+      * Optional adapter forwarding messages between server instances.
+      */
+     adapter?: IAdapter;
+
+     /**
+      * Optional metrics endpoint and naming settings.
+      */
+     metrics?: IMetricsOptions;
+
+     /**
+      * Optional limits on the rate of incoming messages.
+      */
+     rateLimit?: IRateLimitOptions;
+
+     /**
+      * Optional replacement for the in-memory token buckets, for example one backed by a shared store.
+      */
+     rateLimiter?: IRateLimiter;
+
+     /**
+      * Optional payload schemas, keyed by event name.
+      */
+     schemas?: Record<string, MessageSchema>;
+
+     /**
+      * Optional codecs added to the built-in JSON and MessagePack codecs.
+      */
+     codecs?: ICodec[];
+
+     /**
+      * Optional strategies authenticating upgrade requests.
+      */
+     auth?: IAuthOptions;
+
+     /**
+      * Optional access policies for events, rooms and broadcasts.
+      */
+     authorization?: IAuthorizationOptions;
+
+     /**
+      * Optional presence tracking settings.
+      */
+     presence?: IPresenceOptions;
+
+     /**
+      * Optional message history and replay settings.
+      */
+     history?: IHistoryOptions;
+
+     /**
+      * Optional replacement for the in-memory message history, for example one backed by a shared database.
+      */
+     messageStore?: IMessageStore;
+
+     /**
+      * Optional graceful shutdown settings.
+      */
+     shutdown?: IShutdownOptions;
+
+     /**
+      * Optional outbound queue settings.
+      */
+     backpressure?: IBackpressureOptions;
+
+     /**
+      * Optional connection limits and handshake checks.
+      */
+     admission?: IAdmissionOptions;
+
+     /**
+      * Optional permessage-deflate settings and per-message compression policy.
       */
-     onMessage?: (message: IMessage<any>) => void;
+     compression?: ICompressionOptions;
 }
@@ -0,0 +1,118 @@
+import { IncomingHttpHeaders } from 'http';
+
+import { IPrincipal } from './IPrincipal';
+
+/**
+ * IConnection: Interface for a client connection.
+ *
+ * One connection exists per open WebSocket. It is passed to hooks, middleware and event handlers,
+ * and can be looked up by its `id` through `WebSocketManager.getConnection()`.
+ *
+ * ## Properties:
+ * - **id** (string): The unique identifier of the connection.
+ * - **user** (string): The username of the client, or `Anonymous`.
+ * - **principal** (IPrincipal | null): The authenticated principal of the client, or null for anonymous clients.
+ * - **remoteAddress** (string | undefined): The IP address the client connected from.
+ * - **headers** (IncomingHttpHeaders): The headers of the upgrade request.
+ * - **connectedAt** (number): When the connection was opened, in milliseconds since the epoch.
+ * - **protocol** (string): The negotiated subprotocol, or an empty string.
+ * - **data** (Record<string, any>): Values attached to the connection by middleware and handlers.
+ */
+export interface IConnection {
+     /**
+      * The unique identifier of the connection.
+      */
+     readonly id: string;
+
+     /**
+      * The username of the client, or `Anonymous`.
+      */
+     readonly user: string;
+
+     /**
+      * The authenticated principal of the client, or null for anonymous clients. Replaced when the
+      * client re-authenticates.
+      */
+     principal: IPrincipal | null;
+
+     /**
+      * The IP address the client connected from, read from the `X-Forwarded-For` header when
+      * `admission.trustProxy` is set.
+      */
+     readonly remoteAddress: string | undefined;
+
+     /**
+      * The headers of the upgrade request.
+      */
+     readonly headers: IncomingHttpHeaders;
+
+     /**
+      * When the connection was opened, in milliseconds since the epoch.
+      */
+     readonly connectedAt: number;
+
+     /**
+      * The negotiated subprotocol, naming the codec of the connection, or an empty string.
+      */
+     readonly protocol: string;
+
+     /**
+      * Values attached to the connection by middleware and handlers, shared by all messages of the connection.
+      */
+     data: Record<string, any>;
+}
+
+/**
+ * IConnectionStats: Interface for the traffic statistics of a connection.
+ *
+ * ## Properties:
+ * - **messagesReceived** (number): The number of messages received from the client.
+ * - **messagesSent** (number): The number of messages written to the client.
+ * - **bytesReceived** (number): The number of bytes received from the client.
+ * - **bytesSent** (number): The number of bytes written to the client.
+ * - **lastMessageAt** (number | null): When the last message was received, in milliseconds since the epoch.
+ * - **rooms** (string[]): The rooms the connection is a member of.
+ * - **queued** (number): The number of messages waiting in the outbound queue.
+ * - **bufferedAmount** (number): The number of bytes buffered by the socket.
+ */
+export interface IConnectionStats {
+     /**
+      * The number of messages received from the client.
+      */
+     messagesReceived: number;
+
+     /**
+      * The number of messages written to the client.
+      */
+     messagesSent: number;
+
+     /**
+      * The number of bytes received from the client.
+      */
+     bytesReceived: number;
+
+     /**
+      * The number of bytes written to the client.
+      */
+     bytesSent: number;
+
+     /**
+      * When the last message was received, in milliseconds since the epoch, or null if none was.
+      */
+     lastMessageAt: number | null;
+
+     /**
+      * The rooms the connection is a member of.
+      */
+     rooms: string[];
+
+     /**
+      * The number of messages waiting in the outbound queue.
+      */
+     queued: number;
+
+     /**
+      * The number of bytes buffered by the socket and not yet sent.
+      */
+     bufferedAmount: number;
+}
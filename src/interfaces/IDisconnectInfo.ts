@@ -0,0 +1,55 @@
+import { IConnection } from './IConnection';
+
+/**
+ * DisconnectReason: Why a connection ended.
+ *
+ * - **client**: The client closed the connection.
+ * - **server**: The server closed the connection, for example after an invalid message.
+ * - **timeout**: The connection stopped answering heartbeat pings.
+ * - **error**: The connection failed with a socket error.
+ * - **shutdown**: The server is shutting down.
+ * - **expired**: The credentials of the connection expired before the client re-authenticated.
+ * - **revoked**: The token of the connection was revoked.
+ * - **slow**: The outbound queue of the connection overflowed under the `disconnect` policy.
+ */
+export type DisconnectReason = 'client' | 'server' | 'timeout' | 'error' | 'shutdown' | 'expired' | 'revoked' | 'slow';
+
+/**
+ * IDisconnectInfo: Interface describing a closed connection.
+ *
+ * Passed to the `onDisconnect` hook so that application code can tell, for example, a
+ * heartbeat timeout apart from a clean close.
+ *
+ * ## Properties:
+ * - **user** (string): The username of the disconnected client.
+ * - **reason** (DisconnectReason): Why the connection ended.
+ * - **code** (number): The WebSocket close code.
+ * - **message** (string): The WebSocket close reason text, if any.
+ * - **connection** (IConnection): The closed connection.
+ */
+export interface IDisconnectInfo {
+     /**
+      * The username of the disconnected client.
+      */
+     user: string;
+
+     /**
+      * Why the connection ended.
+      */
+     reason: DisconnectReason;
+
+     /**
+      * The WebSocket close code.
+      */
+     code: number;
+
+     /**
+      * The WebSocket close reason text, if any.
+      */
+     message: string;
+
+     /**
+      * The closed connection.
+      */
+     connection: IConnection;
+}
@@ -0,0 +1,39 @@
+/**
+ * IErrorMessage: Interface for error replies sent by the server.
+ *
+ * Every error the server reports to a client uses this structure, so clients can handle
+ * failures uniformly regardless of which part of the server produced them.
+ *
+ * ## Properties:
+ * - **type** ('error'): Discriminator identifying the message as an error reply.
+ * - **id** (string | undefined): The correlation id of the message that caused the error, if it had one.
+ * - **code** (string): A machine-readable error code, one of `ERROR_CODES`.
+ * - **error** (string): A human-readable description of the error.
+ * - **details** (object | undefined): Additional information about the error.
+ */
+export interface IErrorMessage {
+     /**
+      * Discriminator identifying the message as an error reply.
+      */
+     type: 'error';
+
+     /**
+      * The correlation id of the message that caused the error, if it had one.
+      */
+     id?: string;
+
+     /**
+      * A machine-readable error code, one of `ERROR_CODES`.
+      */
+     code: string;
+
+     /**
+      * A human-readable description of the error.
+      */
+     error: string;
+
+     /**
+      * Additional information about the error, such as the room or recipient involved.
+      */
+     details?: Record<string, any>;
+}
@@ -0,0 +1,124 @@
+import { WebSocket } from 'ws';
+
+import { IMessage } from './IMessage';
+import { IPrincipal } from './IPrincipal';
+import { IConnection } from './IConnection';
+
+/**
+ * EventMap: Maps event names to the type of their payload (the message `content`).
+ *
+ * Declare an event map for your application to get typed payloads in event handlers:
+ *
+ * ```typescript
+ * interface ChatEvents {
+ *      'chat:send': { text: string };
+ *      'chat:typing': { active: boolean };
+ * }
+ * ```
+ */
+export type EventMap = Record<string, any>;
+
+/**
+ * IEventContext: The context of an incoming message, passed to event handlers.
+ *
+ * ## Properties:
+ * - **ws** (WebSocket): The socket the message was received on.
+ * - **connection** (IConnection): The connection the message was received on.
+ * - **user** (string): The username of the sender.
+ * - **principal** (IPrincipal | null): The authenticated principal of the sender, or null for anonymous senders.
+ * - **message** (IMessage<T>): The full incoming message.
+ * - **data** (Record<string, any>): Values attached to the connection by middleware.
+ * - **send** (Function): Sends a message back to the sender's connection.
+ */
+export interface IEventContext<T = any> {
+     /**
+      * The socket the message was received on.
+      */
+     ws: WebSocket;
+
+     /**
+      * The connection the message was received on.
+      */
+     connection: IConnection;
+
+     /**
+      * The username of the sender.
+      */
+     user: string;
+
+     /**
+      * The authenticated principal of the sender, or null for anonymous senders.
+      */
+     principal: IPrincipal | null;
+
+     /**
+      * The full incoming message.
+      */
+     message: IMessage<T>;
+
+     /**
+      * Values attached to the connection by middleware, shared by all messages of the connection.
+      */
+     data: Record<string, any>;
+
+     /**
+      * Sends a message back to the sender's connection.
+      *
+      * @param {object} message - The message to send.
+      */
+     send(message: object): void;
+}
+
+/**
+ * EventHandler: A function handling one event type.
+ *
+ * @param {T} payload - The `content` of the incoming message.
+ * @param {IEventContext<T>} context - The context of the incoming message.
+ */
+export type EventHandler<T = any> = (payload: T, context: IEventContext<T>) => unknown | Promise<unknown>;
+
+/**
+ * IEventRouter: Interface for dispatching incoming messages to event handlers.
+ *
+ * This interface defines the contract for an event router, which maps the `type` of an
+ * incoming message to the single handler registered for it.
+ *
+ * ## Methods:
+ * - **on**: Registers the handler for an event.
+ * - **off**: Removes the handler for an event.
+ * - **has**: Checks whether an event has a handler.
+ * - **dispatch**: Invokes the handler for an event.
+ */
+export interface IEventRouter {
+     /**
+      * Registers the handler for an event, replacing any existing handler.
+      *
+      * @param {string} event - The event name.
+      * @param {EventHandler} handler - The handler to invoke for the event.
+      */
+     on(event: string, handler: EventHandler): void;
+
+     /**
+      * Removes the handler for an event.
+      *
+      * @param {string} event - The event name.
+      */
+     off(event: string): void;
+
+     /**
+      * Checks whether an event has a handler.
+      *
+      * @param {string} event - The event name.
+      * @returns {boolean} - True if a handler is registered for the event, false otherwise.
+      */
+     has(event: string): boolean;
+
+     /**
+      * Invokes the handler for an event.
+      *
+      * @param {string} event - The event name.
+      * @param {IEventContext} context - The context of the incoming message.
+      * @returns {Promise<unknown>} - Resolves with the handler's return value, or rejects with the error it threw.
+      */
+     dispatch(event: string, context: IEventContext): Promise<unknown>;
+}
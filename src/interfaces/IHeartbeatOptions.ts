@@ -0,0 +1,35 @@
+/**
+ * IHeartbeatOptions: Interface for configuring connection heartbeats.
+ *
+ * The server pings every connection at a fixed interval. A connection that leaves
+ * `maxMissedPongs` consecutive pings unanswered is considered dead (for example a half-open
+ * TCP connection after a network drop) and is removed.
+ *
+ * ## Properties:
+ * - **enabled** (boolean | undefined): Flag to enable or disable heartbeats.
+ * - **interval** (number | undefined): Milliseconds between pings.
+ * - **maxMissedPongs** (number | undefined): Consecutive unanswered pings after which a connection is dead.
+ * - **terminateOnTimeout** (boolean | undefined): Whether dead connections are terminated or closed.
+ */
+export interface IHeartbeatOptions {
+     /**
+      * Flag to enable or disable heartbeats (default: `true`).
+      */
+     enabled?: boolean;
+
+     /**
+      * Milliseconds between pings (default: 30000).
+      */
+     interval?: number;
+
+     /**
+      * Consecutive unanswered pings after which a connection is considered dead (default: 2).
+      */
+     maxMissedPongs?: number;
+
+     /**
+      * Whether dead connections are terminated immediately (default: `true`). When `false`, they
+      * are sent a close frame with code 4000 instead, which waits for the close handshake.
+      */
+     terminateOnTimeout?: boolean;
+}
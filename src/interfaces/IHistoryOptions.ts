@@ -0,0 +1,19 @@
+/**
+ * IHistoryOptions: Interface for configuring the message history.
+ *
+ * ## Properties:
+ * - **size** (number | undefined): The number of messages the in-memory store keeps per stream.
+ * - **replayLimit** (number | undefined): The maximum number of messages replayed per request.
+ */
+export interface IHistoryOptions {
+     /**
+      * The number of messages the in-memory store keeps for the broadcast stream and for each
+      * room (default: `100`). Ignored when a custom `messageStore` is configured.
+      */
+     size?: number;
+
+     /**
+      * The maximum number of messages replayed per `history:replay` request (default: `1000`).
+      */
+     replayLimit?: number;
+}
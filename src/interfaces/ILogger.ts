@@ -1,33 +1,138 @@
+/**
+ * LogLevel: The severity of a log entry, from least to most severe.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * LogFields: Structured fields attached to a log entry.
+ *
+ * The well-known fields below are used consistently across the library; any other
+ * field may be added as needed.
+ */
+export interface LogFields {
+     /**
+      * The id of the connection the entry relates to.
+      */
+     connectionId?: string;
+
+     /**
+      * The username the entry relates to.
+      */
+     user?: string;
+
+     /**
+      * The event (message type) the entry relates to.
+      */
+     event?: string;
+
+     /**
+      * The duration of the logged operation, in milliseconds.
+      */
+     duration?: number;
+
+     [key: string]: unknown;
+}
+
+/**
+ * ILogEntry: Interface for a single log entry handed to log transports.
+ *
+ * ## Properties:
+ * - **level** (LogLevel): The severity of the entry.
+ * - **message** (string): The log message.
+ * - **timestamp** (string): The ISO 8601 time the entry was logged.
+ * - **fields** (LogFields): Structured fields attached to the entry.
+ */
+export interface ILogEntry {
+     /**
+      * The severity of the entry.
+      */
+     level: LogLevel;
+
+     /**
+      * The log message.
+      */
+     message: string;
+
+     /**
+      * The ISO 8601 time the entry was logged.
+      */
+     timestamp: string;
+
+     /**
+      * Structured fields attached to the entry.
+      */
+     fields: LogFields;
+}
+
+/**
+ * ILogTransport: Interface for log output destinations.
+ *
+ * A transport receives every log entry that passes the configured level filter and writes it
+ * somewhere: the console, a JSON-lines stream, a log shipping service, and so on.
+ *
+ * ## Methods:
+ * - **write**: Writes a log entry.
+ */
+export interface ILogTransport {
+     /**
+      * Writes a log entry.
+      *
+      * @param {ILogEntry} entry - The entry to write.
+      */
+     write(entry: ILogEntry): void;
+}
+
 /**
  * ILogger: Interface for logging functionality.
  *
- * This interface defines the methods required for logging messages, warnings, and errors
+ * This interface defines the methods required for logging leveled, structured messages
  * throughout the application. It allows consistent logging behavior across different modules.
  *
  * ## Methods:
  * - **error**: Logs an error message.
  * - **warn**: Logs a warning message.
- * - **log**: Logs a general informational message.
+ * - **info**: Logs a general informational message.
+ * - **debug**: Logs a diagnostic message.
+ * - **log**: Logs a general informational message (alias of `info`).
  */
 export interface ILogger {
      /**
       * Logs an error message.
       *
       * @param {string} message - The error message to be logged.
+      * @param {LogFields} [fields] - Structured fields attached to the entry.
       */
-     error(message: string): void;
+     error(message: string, fields?: LogFields): void;
 
      /**
       * Logs a warning message.
       *
       * @param {string} message - The warning message to be logged.
+      * @param {LogFields} [fields] - Structured fields attached to the entry.
       */
-     warn(message: string): void;
+     warn(message: string, fields?: LogFields): void;
 
      /**
       * Logs a general informational message.
       *
       * @param {string} message - The message to be logged.
+      * @param {LogFields} [fields] - Structured fields attached to the entry.
+      */
+     info(message: string, fields?: LogFields): void;
+
+     /**
+      * Logs a diagnostic message.
+      *
+      * @param {string} message - The message to be logged.
+      * @param {LogFields} [fields] - Structured fields attached to the entry.
+      */
+     debug(message: string, fields?: LogFields): void;
+
+     /**
+      * Logs a general informational message. Alias of `info`.
+      *
+      * @param {string} message - The message to be logged.
+      * @param {LogFields} [fields] - Structured fields attached to the entry.
       */
-     log(message: string): void;
+     log(message: string, fields?: LogFields): void;
 }
@@ -0,0 +1,28 @@
+import { LogLevel, ILogTransport } from './ILogger';
+
+/**
+ * ILoggingOptions: Interface for configuring the logger.
+ *
+ * ## Properties:
+ * - **level** (LogLevel | undefined): The minimum level of the entries that are logged.
+ * - **format** ('text' | 'json' | undefined): The output format of the default transport.
+ * - **transports** (ILogTransport[] | undefined): Destinations for log entries, replacing the default transport.
+ */
+export interface ILoggingOptions {
+     /**
+      * The minimum level of the entries that are logged (default: `'info'`, or `'error'` when
+      * `enableLogging` is `false`).
+      */
+     level?: LogLevel;
+
+     /**
+      * The output format of the default transport: human-readable text on the console, or one
+      * JSON object per line on stdout (default: `'text'`).
+      */
+     format?: 'text' | 'json';
+
+     /**
+      * Destinations for log entries. When set, replaces the default transport.
+      */
+     transports?: ILogTransport[];
+}
@@ -5,10 +5,27 @@
  * It is generic, allowing the content of the message to be of any type.
  *
  * ## Properties:
+ * - **type** (string | undefined): The event name used to dispatch the message. Defaults to `message`.
+ * - **id** (string | undefined): A correlation id; when set, the message is answered with an `ack` or `error` reply carrying the same id.
  * - **sender** (string): The identifier of the sender of the message.
  * - **content** (T): The content of the message. The type `T` is generic and defaults to `any`.
+ * - **room** (string | undefined): The room the message is scoped to. Omit to broadcast to all clients.
+ * - **to** (string | undefined): The username of the recipient of a direct message.
+ * - **seq** (number | undefined): The sequence id assigned by the server to broadcast and room messages.
  */
 export interface IMessage<T = any> {
+     /**
+      * The event name used to dispatch the message to its handler (e.g. `chat:send`).
+      * Messages without a type are dispatched as the default `message` event.
+      */
+     type?: string;
+
+     /**
+      * A correlation id chosen by the sender. When set, the receiver answers the message with an
+      * `ack` reply carrying the handler's result, or an `error` reply, tied to the same id.
+      */
+     id?: string;
+
      /**
       * The identifier of the sender of the message.
       */
@@ -16,6 +33,25 @@ export interface IMessage<T = any> {
 
      /**
       * The content of the message. The type is generic and can represent any structure or data.
+      * Buffers, ArrayBuffers and typed arrays in the content are sent as binary data and received as Buffers.
       */
      content: T;
+
+     /**
+      * The room the message is scoped to. When omitted, the message is broadcasted to all clients.
+      */
+     room?: string;
+
+     /**
+      * The username of the recipient of a direct message. When set, the message is delivered
+      * only to the connections of that user and `room` is ignored.
+      */
+     to?: string;
+
+     /**
+      * The sequence id assigned by the server's message store to broadcast and room messages.
+      * Ids increase monotonically; clients send the last id they saw to replay missed messages.
+      * Set by the server only.
+      */
+     seq?: number;
 }
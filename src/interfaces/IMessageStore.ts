@@ -0,0 +1,36 @@
+import { IMessage } from './IMessage';
+
+/**
+ * IMessageStore: Interface for storing the history of broadcast and room messages.
+ *
+ * This interface defines the contract for a message store, which assigns monotonically
+ * increasing sequence ids to messages and returns the messages a reconnecting client missed.
+ * Messages are kept per stream: `broadcast` for messages sent to every client and
+ * `room:<name>` for the messages of a room. Methods may return promises, so that the history
+ * can be kept in a database shared by several server instances.
+ *
+ * ## Methods:
+ * - **append**: Stores a message and assigns its sequence id.
+ * - **since**: Retrieves the messages stored after a sequence id.
+ */
+export interface IMessageStore {
+     /**
+      * Stores a message and assigns its sequence id, greater than that of every message stored
+      * before. The message is stored with its `seq` field set to the id.
+      *
+      * @param {string} stream - The stream of the message.
+      * @param {IMessage<any>} message - The message to store.
+      * @returns {number | Promise<number>} - The sequence id of the message.
+      */
+     append(stream: string, message: IMessage<any>): number | Promise<number>;
+
+     /**
+      * Retrieves the messages of some streams whose sequence id is greater than a given id.
+      *
+      * @param {string[]} streams - The streams to read.
+      * @param {number} seq - The last sequence id the client saw.
+      * @param {number} limit - The maximum number of messages to return.
+      * @returns {IMessage<any>[] | Promise<IMessage<any>[]>} - The messages, oldest first, with their `seq` field set.
+      */
+     since(streams: string[], seq: number, limit: number): IMessage<any>[] | Promise<IMessage<any>[]>;
+}
@@ -0,0 +1,115 @@
+import { IMessage } from './IMessage';
+
+/**
+ * JsonSchemaType: The value types a JSON Schema can require.
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * JsonSchema: The subset of JSON Schema supported for message validation.
+ *
+ * Supports `type`, `enum` and `const` for any value; `properties`, `required` and
+ * `additionalProperties` for objects; `items`, `minItems` and `maxItems` for arrays;
+ * `minLength`, `maxLength` and `pattern` for strings; and `minimum` and `maximum` for numbers.
+ * Unsupported keywords are ignored.
+ */
+export interface JsonSchema {
+     type?: JsonSchemaType | JsonSchemaType[];
+     enum?: unknown[];
+     const?: unknown;
+     properties?: Record<string, JsonSchema>;
+     required?: string[];
+     additionalProperties?: boolean | JsonSchema;
+     items?: JsonSchema;
+     minItems?: number;
+     maxItems?: number;
+     minLength?: number;
+     maxLength?: number;
+     pattern?: string;
+     minimum?: number;
+     maximum?: number;
+}
+
+/**
+ * IValidationIssue: Interface for a single reason a message failed validation.
+ *
+ * ## Properties:
+ * - **path** (string): The location of the failing value, e.g. `content.items[2].name`.
+ * - **message** (string): The human-readable description of the failure.
+ */
+export interface IValidationIssue {
+     /**
+      * The location of the failing value, e.g. `content.items[2].name`.
+      */
+     path: string;
+
+     /**
+      * The human-readable description of the failure.
+      */
+     message: string;
+}
+
+/**
+ * ValidatorFunction: A custom validator for the payload of an event.
+ *
+ * Returns `true` or an empty array if the payload is valid, and `false` or the list of issues
+ * otherwise. A thrown error is reported as an issue with the error's message.
+ *
+ * @template T - The type of the payload.
+ */
+export type ValidatorFunction<T = any> = (payload: T, message: IMessage<T>) => boolean | IValidationIssue[];
+
+/**
+ * MessageSchema: A JSON Schema or a validator function for the payload of an event.
+ *
+ * @template T - The type of the payload.
+ */
+export type MessageSchema<T = any> = JsonSchema | ValidatorFunction<T>;
+
+/**
+ * IMessageValidator: Interface for validating incoming messages.
+ *
+ * Every message is checked for a well-formed envelope. The payload (`content`) of events with
+ * a registered schema is checked against that schema as well.
+ *
+ * ## Methods:
+ * - **register**: Registers the schema for the payload of an event.
+ * - **unregister**: Removes the schema for the payload of an event.
+ * - **validateEnvelope**: Checks the fields every message shares.
+ * - **validate**: Checks the payload of a message against the schema of its event.
+ */
+export interface IMessageValidator {
+     /**
+      * Registers the schema for the payload of an event, replacing any existing schema.
+      *
+      * @param {string} event - The event name.
+      * @param {MessageSchema} schema - The JSON Schema or validator function.
+      */
+     register(event: string, schema: MessageSchema): void;
+
+     /**
+      * Removes the schema for the payload of an event.
+      *
+      * @param {string} event - The event name.
+      */
+     unregister(event: string): void;
+
+     /**
+      * Checks that a parsed message is an object whose `type`, `id`, `room` and `to` fields, if
+      * present, are strings.
+      *
+      * @param {unknown} message - The parsed message.
+      * @returns {IValidationIssue[]} - The reasons the envelope is invalid, or an empty array.
+      */
+     validateEnvelope(message: unknown): IValidationIssue[];
+
+     /**
+      * Checks the payload of a message against the schema registered for its event.
+      *
+      * @param {string} event - The event name.
+      * @param {IMessage<any>} message - The message whose `content` is checked.
+      * @returns {IValidationIssue[]} - The reasons the payload is invalid, or an empty array if it is
+      * valid or no schema is registered for the event.
+      */
+     validate(event: string, message: IMessage<any>): IValidationIssue[];
+}
@@ -0,0 +1,32 @@
+/**
+ * IMetricsOptions: Interface for configuring the metrics endpoint.
+ *
+ * ## Properties:
+ * - **enabled** (boolean | undefined): Flag to mount the metrics endpoint on the Express application.
+ * - **path** (string | undefined): The route of the metrics endpoint.
+ * - **prefix** (string | undefined): The prefix of every metric name.
+ * - **buckets** (number[] | undefined): Default histogram bucket upper bounds, in seconds.
+ */
+export interface IMetricsOptions {
+     /**
+      * Flag to mount the metrics endpoint on the Express application (default: `false`).
+      * Metrics are collected either way and remain available through `getMetrics()`.
+      */
+     enabled?: boolean;
+
+     /**
+      * The route of the metrics endpoint (default: `'/metrics'`).
+      */
+     path?: string;
+
+     /**
+      * The prefix of every metric name (default: `'ws_'`).
+      */
+     prefix?: string;
+
+     /**
+      * Default histogram bucket upper bounds, in seconds
+      * (default: `[0.0005, 0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1]`).
+      */
+     buckets?: number[];
+}
@@ -0,0 +1,108 @@
+/**
+ * MetricLabels: Label values identifying one series of a metric.
+ */
+export type MetricLabels = Record<string, string | number>;
+
+/**
+ * ICounter: A metric that only goes up, such as the number of messages received.
+ */
+export interface ICounter {
+     /**
+      * Increments the counter.
+      *
+      * @param {MetricLabels} [labels] - The labels of the series to increment.
+      * @param {number} [value=1] - The amount to increment by.
+      */
+     inc(labels?: MetricLabels, value?: number): void;
+}
+
+/**
+ * IGauge: A metric that goes up and down, such as the number of open connections.
+ */
+export interface IGauge {
+     /**
+      * Sets the gauge to a value.
+      *
+      * @param {number} value - The new value.
+      * @param {MetricLabels} [labels] - The labels of the series to set.
+      */
+     set(value: number, labels?: MetricLabels): void;
+
+     /**
+      * Increments the gauge.
+      *
+      * @param {MetricLabels} [labels] - The labels of the series to increment.
+      * @param {number} [value=1] - The amount to increment by.
+      */
+     inc(labels?: MetricLabels, value?: number): void;
+
+     /**
+      * Decrements the gauge.
+      *
+      * @param {MetricLabels} [labels] - The labels of the series to decrement.
+      * @param {number} [value=1] - The amount to decrement by.
+      */
+     dec(labels?: MetricLabels, value?: number): void;
+}
+
+/**
+ * IHistogram: A metric sampling observations into buckets, such as broadcast durations.
+ */
+export interface IHistogram {
+     /**
+      * Records an observation.
+      *
+      * @param {number} value - The observed value.
+      * @param {MetricLabels} [labels] - The labels of the series to record into.
+      */
+     observe(value: number, labels?: MetricLabels): void;
+}
+
+/**
+ * IMetricsService: Interface for the metrics registry.
+ *
+ * This interface defines the contract for creating metrics and rendering them in the
+ * Prometheus text exposition format. Metric names are prefixed with the configured prefix.
+ *
+ * ## Methods:
+ * - **counter**: Creates (or retrieves) a counter.
+ * - **gauge**: Creates (or retrieves) a gauge.
+ * - **histogram**: Creates (or retrieves) a histogram.
+ * - **render**: Renders every metric in the Prometheus text exposition format.
+ */
+export interface IMetricsService {
+     /**
+      * Creates a counter, or retrieves it if a metric with the same name exists.
+      *
+      * @param {string} name - The metric name, without prefix.
+      * @param {string} help - A description of the metric.
+      * @returns {ICounter} - The counter.
+      */
+     counter(name: string, help: string): ICounter;
+
+     /**
+      * Creates a gauge, or retrieves it if a metric with the same name exists.
+      *
+      * @param {string} name - The metric name, without prefix.
+      * @param {string} help - A description of the metric.
+      * @returns {IGauge} - The gauge.
+      */
+     gauge(name: string, help: string): IGauge;
+
+     /**
+      * Creates a histogram, or retrieves it if a metric with the same name exists.
+      *
+      * @param {string} name - The metric name, without prefix.
+      * @param {string} help - A description of the metric.
+      * @param {number[]} [buckets] - Upper bounds of the buckets. Defaults to the configured buckets.
+      * @returns {IHistogram} - The histogram.
+      */
+     histogram(name: string, help: string, buckets?: number[]): IHistogram;
+
+     /**
+      * Renders every metric in the Prometheus text exposition format.
+      *
+      * @returns {string} - The exposition text.
+      */
+     render(): string;
+}
@@ -0,0 +1,104 @@
+import { IncomingMessage } from 'http';
+
+import { IEventContext } from './IEventRouter';
+import { IPrincipal } from './IPrincipal';
+
+/**
+ * MiddlewareStage: The stages middleware can run at.
+ *
+ * - `handshake`: While the HTTP upgrade request is handled, before the connection is accepted.
+ * - `message`: For each inbound message, before it is dispatched to its event handler.
+ */
+export type MiddlewareStage = 'handshake' | 'message';
+
+/**
+ * NextFunction: Passes control to the next middleware of the chain.
+ *
+ * Resolves once the rest of the chain has run, so middleware can act both before and after it.
+ */
+export type NextFunction = () => Promise<void>;
+
+/**
+ * IHandshakeContext: The context of an upgrade request, passed to handshake middleware.
+ *
+ * ## Properties:
+ * - **request** (IncomingMessage): The HTTP upgrade request.
+ * - **principal** (IPrincipal | null): The authenticated principal, or null for anonymous requests.
+ * - **data** (Record<string, any>): Values to attach to the connection once it is accepted.
+ */
+export interface IHandshakeContext {
+     /**
+      * The HTTP upgrade request.
+      */
+     request: IncomingMessage;
+
+     /**
+      * The principal authenticated by the auth strategies, or null for anonymous requests.
+      */
+     principal: IPrincipal | null;
+
+     /**
+      * Values to attach to the connection once it is accepted. They are available to message
+      * middleware and event handlers as `context.data`.
+      */
+     data: Record<string, any>;
+}
+
+/**
+ * Middleware: A function taking part in a middleware chain.
+ *
+ * Middleware calls `next()` to continue the chain. Returning without calling it stops the chain;
+ * throwing rejects the upgrade request or message.
+ *
+ * @template T - The type of the context.
+ * @param {T} context - The context of the upgrade request or message.
+ * @param {NextFunction} next - Continues the chain.
+ */
+export type Middleware<T> = (context: T, next: NextFunction) => void | Promise<void>;
+
+/**
+ * HandshakeMiddleware: Middleware run while an upgrade request is handled.
+ */
+export type HandshakeMiddleware = Middleware<IHandshakeContext>;
+
+/**
+ * MessageMiddleware: Middleware run for each inbound message.
+ */
+export type MessageMiddleware = Middleware<IEventContext>;
+
+/**
+ * IMiddlewareService: Interface for the handshake and message middleware chains.
+ *
+ * ## Methods:
+ * - **use**: Appends middleware to the chain of a stage.
+ * - **runHandshake**: Runs the handshake chain for an upgrade request.
+ * - **runMessage**: Runs the message chain for an inbound message.
+ */
+export interface IMiddlewareService {
+     /**
+      * Appends middleware to the chain of a stage.
+      *
+      * @param {MiddlewareStage} stage - The stage to run the middleware at.
+      * @param {Middleware} middleware - The middleware to append.
+      */
+     use(stage: 'handshake', middleware: HandshakeMiddleware): void;
+     use(stage: 'message', middleware: MessageMiddleware): void;
+
+     /**
+      * Runs the handshake chain for an upgrade request.
+      *
+      * @param {IHandshakeContext} context - The context of the upgrade request.
+      * @returns {Promise<boolean>} - Resolves with true if every middleware called `next()`, or
+      * rejects with the error thrown by a middleware.
+      */
+     runHandshake(context: IHandshakeContext): Promise<boolean>;
+
+     /**
+      * Runs the message chain for an inbound message.
+      *
+      * @param {IEventContext} context - The context of the message.
+      * @returns {Promise<boolean>} - Resolves with true if every middleware called `next()`, or
+      * rejects with the error thrown by a middleware.
+      */
+     runMessage(context: IEventContext): Promise<boolean>;
+}
@@ -0,0 +1,27 @@
+/**
+ * IPresenceOptions: Interface for configuring presence tracking.
+ *
+ * ## Properties:
+ * - **gracePeriod** (number | undefined): Milliseconds a user stays online after their last connection closes.
+ * - **rooms** (string[] | undefined): Rooms whose members receive every presence event.
+ * - **route** (string | undefined): The route of the REST endpoint listing online users.
+ */
+export interface IPresenceOptions {
+     /**
+      * Milliseconds a user stays online after their last connection closes, so that a quick
+      * reconnect does not announce them offline and online again (default: `5000`).
+      */
+     gracePeriod?: number;
+
+     /**
+      * Rooms whose members receive every presence event, in addition to the connections that
+      * subscribed to the user.
+      */
+     rooms?: string[];
+
+     /**
+      * The route of the REST endpoint listing online users, e.g. `'/presence'`. The endpoint is
+      * only mounted when a route is set.
+      */
+     route?: string;
+}
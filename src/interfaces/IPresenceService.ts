@@ -0,0 +1,123 @@
+/**
+ * IPresence: Interface for the presence of an online user.
+ *
+ * ## Properties:
+ * - **user** (string): The username.
+ * - **connections** (number): The number of open connections of the user.
+ * - **status** (Record<string, any>): Custom status metadata set by the user, e.g. `{ state: 'away' }`.
+ * - **since** (number): When the user came online, in milliseconds since the epoch.
+ */
+export interface IPresence {
+     /**
+      * The username.
+      */
+     user: string;
+
+     /**
+      * The number of open connections of the user. Zero while the user is within the grace period.
+      */
+     connections: number;
+
+     /**
+      * Custom status metadata set by the user, e.g. `{ state: 'away' }` or `{ typing: 'general' }`.
+      */
+     status: Record<string, any>;
+
+     /**
+      * When the user came online, in milliseconds since the epoch.
+      */
+     since: number;
+}
+
+/**
+ * PresenceChangeType: What changed about the presence of a user.
+ */
+export type PresenceChangeType = 'online' | 'offline' | 'status';
+
+/**
+ * IPresenceChange: Interface for a change to the presence of a user.
+ *
+ * ## Properties:
+ * - **type** (PresenceChangeType): What changed.
+ * - **presence** (IPresence): The presence of the user after the change.
+ */
+export interface IPresenceChange {
+     /**
+      * What changed.
+      */
+     type: PresenceChangeType;
+
+     /**
+      * The presence of the user after the change.
+      */
+     presence: IPresence;
+}
+
+/**
+ * PresenceListener: A function notified of presence changes.
+ *
+ * @param {IPresenceChange} change - The change.
+ */
+export type PresenceListener = (change: IPresenceChange) => void;
+
+/**
+ * IPresenceService: Interface for tracking which users are online.
+ *
+ * This interface defines the contract for a presence service, which aggregates the connections
+ * of each user into a single online or offline state and keeps their status metadata.
+ *
+ * ## Methods:
+ * - **connect**: Records a new connection of a user.
+ * - **disconnect**: Records a closed connection of a user.
+ * - **setStatus**: Replaces the status metadata of an online user.
+ * - **get**: Retrieves the presence of a user.
+ * - **getOnlineUsers**: Lists the presence of every online user.
+ * - **onChange**: Registers a listener for presence changes.
+ */
+export interface IPresenceService {
+     /**
+      * Records a new connection of a user, bringing them online if they were not.
+      *
+      * @param {string} user - The username.
+      */
+     connect(user: string): void;
+
+     /**
+      * Records a closed connection of a user. Once their last connection has been closed for the
+      * grace period, the user goes offline.
+      *
+      * @param {string} user - The username.
+      */
+     disconnect(user: string): void;
+
+     /**
+      * Replaces the status metadata of an online user.
+      *
+      * @param {string} user - The username.
+      * @param {Record<string, any>} status - The new status metadata.
+      * @returns {IPresence | null} - The presence of the user, or null if they are offline.
+      */
+     setStatus(user: string, status: Record<string, any>): IPresence | null;
+
+     /**
+      * Retrieves the presence of a user.
+      *
+      * @param {string} user - The username.
+      * @returns {IPresence | null} - The presence of the user, or null if they are offline.
+      */
+     get(user: string): IPresence | null;
+
+     /**
+      * Lists the presence of every online user.
+      *
+      * @returns {IPresence[]} - The presence of the online users.
+      */
+     getOnlineUsers(): IPresence[];
+
+     /**
+      * Registers a listener for presence changes.
+      *
+      * @param {PresenceListener} listener - The listener.
+      */
+     onChange(listener: PresenceListener): void;
+}
@@ -0,0 +1,31 @@
+/**
+ * IPrincipal: Interface for the identity of an authenticated client.
+ *
+ * ## Properties:
+ * - **id** (string): The unique identifier of the client, used as its username.
+ * - **roles** (string[]): The roles granted to the client.
+ * - **claims** (Record<string, any>): Every claim or attribute the authentication strategy provided.
+ * - **expiresAt** (number | undefined): When the credentials expire, in milliseconds since the epoch.
+ */
+export interface IPrincipal {
+     /**
+      * The unique identifier of the client, used as its username.
+      */
+     id: string;
+
+     /**
+      * The roles granted to the client.
+      */
+     roles: string[];
+
+     /**
+      * Every claim or attribute the authentication strategy provided, e.g. the JWT payload.
+      */
+     claims: Record<string, any>;
+
+     /**
+      * When the credentials expire, in milliseconds since the epoch. Connections authenticated
+      * with them are closed at that time unless the client re-authenticates.
+      */
+     expiresAt?: number;
+}
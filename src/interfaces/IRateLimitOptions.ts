@@ -0,0 +1,71 @@
+/**
+ * RateLimitAction: What happens to a message that exceeds a rate limit.
+ *
+ * - `drop`: The message is silently discarded.
+ * - `error`: The message is discarded and the client receives a `RATE_LIMITED` error reply.
+ * - `disconnect`: The connection is closed with code 1008 (policy violation).
+ */
+export type RateLimitAction = 'drop' | 'error' | 'disconnect';
+
+/**
+ * IRateLimitPolicy: Interface for a token bucket limit.
+ *
+ * A bucket holds up to `capacity` tokens and regains `refillPerSecond` tokens every second.
+ * Each message takes one token; a message arriving at an empty bucket exceeds the limit.
+ *
+ * ## Properties:
+ * - **capacity** (number): The maximum number of tokens, i.e. the largest burst allowed.
+ * - **refillPerSecond** (number): The number of tokens regained per second, i.e. the sustained rate.
+ * - **action** (RateLimitAction | undefined): What happens to messages exceeding this limit.
+ */
+export interface IRateLimitPolicy {
+     /**
+      * The maximum number of tokens in the bucket, i.e. the largest burst of messages allowed.
+      */
+     capacity: number;
+
+     /**
+      * The number of tokens regained per second, i.e. the sustained message rate.
+      */
+     refillPerSecond: number;
+
+     /**
+      * What happens to messages exceeding this limit. Overrides the default `action`.
+      */
+     action?: RateLimitAction;
+}
+
+/**
+ * IRateLimitOptions: Interface for configuring incoming message rate limits.
+ *
+ * Each configured policy is checked for every incoming message, and the message is only
+ * handled if all of them allow it. Authenticated users are limited by username across all
+ * their connections; anonymous clients are limited per connection instead.
+ *
+ * ## Properties:
+ * - **perConnection** (IRateLimitPolicy | undefined): Limit applied to each connection.
+ * - **perUser** (IRateLimitPolicy | undefined): Limit applied to each user, across their connections.
+ * - **perEvent** (Record<string, IRateLimitPolicy> | undefined): Limits applied to each user, per event type.
+ * - **action** (RateLimitAction | undefined): The default action for messages exceeding a limit.
+ */
+export interface IRateLimitOptions {
+     /**
+      * Limit applied to each connection.
+      */
+     perConnection?: IRateLimitPolicy;
+
+     /**
+      * Limit applied to each user, shared by all of their connections.
+      */
+     perUser?: IRateLimitPolicy;
+
+     /**
+      * Limits applied to each user for specific event types, keyed by event name.
+      */
+     perEvent?: Record<string, IRateLimitPolicy>;
+
+     /**
+      * The default action for messages exceeding a limit (default: `'error'`).
+      */
+     action?: RateLimitAction;
+}
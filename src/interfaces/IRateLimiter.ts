@@ -0,0 +1,55 @@
+import { IRateLimitPolicy } from './IRateLimitOptions';
+
+/**
+ * IRateLimitResult: Interface for the outcome of taking a token from a bucket.
+ *
+ * ## Properties:
+ * - **allowed** (boolean): Whether a token was available.
+ * - **remaining** (number): The number of whole tokens left in the bucket.
+ * - **retryAfter** (number): Milliseconds until the next token is available, or 0 if allowed.
+ */
+export interface IRateLimitResult {
+     /**
+      * Whether a token was available and the message may be handled.
+      */
+     allowed: boolean;
+
+     /**
+      * The number of whole tokens left in the bucket.
+      */
+     remaining: number;
+
+     /**
+      * Milliseconds until the next token is available, or 0 if the message was allowed.
+      */
+     retryAfter: number;
+}
+
+/**
+ * IRateLimiter: Interface for the token buckets backing rate limits.
+ *
+ * The default implementation keeps its buckets in memory, so limits apply per server instance.
+ * An implementation backed by a shared store (for example Redis) makes the limits apply across
+ * all instances; such implementations may return promises.
+ *
+ * ## Methods:
+ * - **consume**: Takes a token from a bucket.
+ * - **reset**: Discards a bucket.
+ */
+export interface IRateLimiter {
+     /**
+      * Takes a token from a bucket, creating a full bucket if it does not exist yet.
+      *
+      * @param {string} key - The identifier of the bucket.
+      * @param {IRateLimitPolicy} policy - The capacity and refill rate of the bucket.
+      * @returns {IRateLimitResult | Promise<IRateLimitResult>} - Whether a token was available.
+      */
+     consume(key: string, policy: IRateLimitPolicy): IRateLimitResult | Promise<IRateLimitResult>;
+
+     /**
+      * Discards a bucket, for example once the connection it belongs to has closed.
+      *
+      * @param {string} key - The identifier of the bucket.
+      */
+     reset(key: string): void | Promise<void>;
+}
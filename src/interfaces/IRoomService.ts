@@ -0,0 +1,68 @@
+import { WebSocket } from 'ws';
+
+/**
+ * IRoomService: Interface for managing named rooms (channels).
+ *
+ * This interface defines the contract for a room registry, which tracks the membership of
+ * WebSocket clients in named rooms so that messages can be scoped to a subset of clients.
+ * Rooms are created on first join and removed once their last member leaves.
+ *
+ * ## Methods:
+ * - **join**: Adds a client to a room.
+ * - **leave**: Removes a client from a room.
+ * - **leaveAll**: Removes a client from every room it belongs to.
+ * - **getMembers**: Retrieves the clients that belong to a room.
+ * - **getRooms**: Retrieves the rooms a client belongs to.
+ * - **isMember**: Checks whether a client belongs to a room.
+ */
+export interface IRoomService {
+     /**
+      * Adds a client to a room, creating the room if it does not exist yet.
+      *
+      * @param {WebSocket} ws - The client joining the room.
+      * @param {string} room - The name of the room.
+      */
+     join(ws: WebSocket, room: string): void;
+
+     /**
+      * Removes a client from a room, deleting the room once it is empty.
+      *
+      * @param {WebSocket} ws - The client leaving the room.
+      * @param {string} room - The name of the room.
+      * @returns {boolean} - True if the client was a member of the room, false otherwise.
+      */
+     leave(ws: WebSocket, room: string): boolean;
+
+     /**
+      * Removes a client from every room it belongs to.
+      *
+      * @param {WebSocket} ws - The client leaving its rooms.
+      * @returns {string[]} - The names of the rooms the client has left.
+      */
+     leaveAll(ws: WebSocket): string[];
+
+     /**
+      * Retrieves the clients that belong to a room.
+      *
+      * @param {string} room - The name of the room.
+      * @returns {WebSocket[]} - The members of the room, or an empty array if the room does not exist.
+      */
+     getMembers(room: string): WebSocket[];
+
+     /**
+      * Retrieves the rooms a client belongs to.
+      *
+      * @param {WebSocket} ws - The client to look up.
+      * @returns {string[]} - The names of the rooms the client belongs to.
+      */
+     getRooms(ws: WebSocket): string[];
+
+     /**
+      * Checks whether a client belongs to a room.
+      *
+      * @param {WebSocket} ws - The client to check.
+      * @param {string} room - The name of the room.
+      * @returns {boolean} - True if the client is a member of the room, false otherwise.
+      */
+     isMember(ws: WebSocket, room: string): boolean;
+}
@@ -0,0 +1,27 @@
+/**
+ * IShutdownOptions: Interface for configuring the graceful shutdown of the server.
+ *
+ * ## Properties:
+ * - **drainTimeout** (number | undefined): Milliseconds to drain connections before they are terminated.
+ * - **reconnectDelay** (number | undefined): Milliseconds clients are told to wait before reconnecting.
+ * - **signals** (NodeJS.Signals[] | undefined): Process signals that stop the server and exit the process.
+ */
+export interface IShutdownOptions {
+     /**
+      * Milliseconds to wait for in-flight handlers, outgoing buffers and close handshakes before
+      * the remaining connections are terminated (default: `10000`).
+      */
+     drainTimeout?: number;
+
+     /**
+      * Milliseconds clients are told to wait before reconnecting, sent in the `server:shutdown`
+      * notice (default: `1000`).
+      */
+     reconnectDelay?: number;
+
+     /**
+      * Process signals, e.g. `['SIGTERM', 'SIGINT']`, that gracefully stop the server and then exit
+      * the process. Listeners are installed by `start()` and removed by `stop()` (default: none).
+      */
+     signals?: NodeJS.Signals[];
+}
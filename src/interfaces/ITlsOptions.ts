@@ -0,0 +1,32 @@
+/**
+ * ITlsOptions: Interface for serving the WebSocket manager over HTTPS.
+ *
+ * The files are read once, when the manager creates its HTTPS server.
+ *
+ * ## Properties:
+ * - **cert** (string): The path of the PEM-encoded certificate chain.
+ * - **key** (string): The path of the PEM-encoded private key.
+ * - **ca** (string | undefined): The path of PEM-encoded CA certificates to trust.
+ * - **passphrase** (string | undefined): The passphrase of the private key.
+ */
+export interface ITlsOptions {
+     /**
+      * The path of the PEM-encoded certificate chain.
+      */
+     cert: string;
+
+     /**
+      * The path of the PEM-encoded private key.
+      */
+     key: string;
+
+     /**
+      * The path of PEM-encoded CA certificates to trust, e.g. for client certificates.
+      */
+     ca?: string;
+
+     /**
+      * The passphrase of the private key, if it is encrypted.
+      */
+     passphrase?: string;
+}
@@ -0,0 +1,328 @@
+import { IMessage } from './IMessage';
+import { EventMap } from './IEventRouter';
+
+/**
+ * IClientSocket: The subset of the WebSocket API used by the client.
+ *
+ * Both the browser `WebSocket` and the `WebSocket` class of the `ws` package implement it.
+ */
+export interface IClientSocket {
+     readonly readyState: number;
+     binaryType: string;
+     send(data: string): void;
+     close(code?: number, reason?: string): void;
+     onopen: ((event: any) => void) | null;
+     onmessage: ((event: any) => void) | null;
+     onclose: ((event: any) => void) | null;
+     onerror: ((event: any) => void) | null;
+}
+
+/**
+ * ClientSocketConstructor: Creates the socket of a connection.
+ */
+export type ClientSocketConstructor = new (url: string, protocols?: string | string[]) => IClientSocket;
+
+/**
+ * TokenProvider: Returns the token to authenticate with, or nothing to connect anonymously.
+ *
+ * Called before every connection attempt and whenever the server warns that the token expires.
+ */
+export type TokenProvider = () => string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * ClientState: The state of the connection of a client.
+ *
+ * - `connecting`: The first connection is being established.
+ * - `open`: The connection is open and queued messages have been sent.
+ * - `reconnecting`: The connection was lost and is being re-established.
+ * - `closed`: The client is disconnected and not reconnecting.
+ */
+export type ClientState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * ClientEventHandler: A function handling one event type received from the server.
+ *
+ * When the server sent the message as a request, the return value is sent back in an `ack`
+ * reply and a thrown error in an `error` reply.
+ *
+ * @param {T} content - The `content` of the incoming message.
+ * @param {IMessage<T>} message - The incoming message.
+ */
+export type ClientEventHandler<T = any> = (content: T, message: IMessage<T>) => unknown | Promise<unknown>;
+
+/**
+ * ICloseInfo: Interface describing a closed connection, as seen by the client.
+ *
+ * ## Properties:
+ * - **code** (number): The WebSocket close code.
+ * - **reason** (string): The WebSocket close reason text, if any.
+ */
+export interface ICloseInfo {
+     code: number;
+     reason: string;
+}
+
+/**
+ * IReconnectOptions: Interface for configuring how a client reconnects.
+ *
+ * The delay before attempt `n` is `initialDelay * factor^n`, capped at `maxDelay`, then reduced
+ * by a random share of up to `jitter` so that clients do not reconnect all at once. After a
+ * `server:shutdown` notice, the client waits the announced `reconnectIn` plus up to `jitter` of it.
+ *
+ * ## Properties:
+ * - **enabled** (boolean | undefined): Whether lost connections are re-established.
+ * - **initialDelay** (number | undefined): Milliseconds before the first reconnect attempt.
+ * - **maxDelay** (number | undefined): The longest delay between two attempts.
+ * - **factor** (number | undefined): The growth of the delay after each failed attempt.
+ * - **jitter** (number | undefined): The largest random share taken off each delay, between 0 and 1.
+ * - **maxAttempts** (number | undefined): The number of failed attempts after which the client gives up.
+ * - **shouldReconnect** (Function | undefined): Decides whether to reconnect after a connection closed.
+ */
+export interface IReconnectOptions {
+     /**
+      * Whether lost connections are re-established (default: `true`).
+      */
+     enabled?: boolean;
+
+     /**
+      * Milliseconds before the first reconnect attempt (default: `500`).
+      */
+     initialDelay?: number;
+
+     /**
+      * The longest delay between two attempts, in milliseconds (default: `30000`).
+      */
+     maxDelay?: number;
+
+     /**
+      * The growth of the delay after each failed attempt (default: `2`).
+      */
+     factor?: number;
+
+     /**
+      * The largest random share taken off each delay, between `0` and `1` (default: `0.5`).
+      */
+     jitter?: number;
+
+     /**
+      * The number of consecutive failed attempts after which the client gives up (default: unlimited).
+      */
+     maxAttempts?: number;
+
+     /**
+      * Decides whether to reconnect after a connection closed. By default, the client reconnects
+      * unless the server refused its credentials or another policy (close code `1008`), or its
+      * token expired (`4001`) or was revoked (`4002`).
+      */
+     shouldReconnect?: (info: ICloseInfo) => boolean;
+}
+
+/**
+ * IWebSocketClientOptions: Interface for configuring a WebSocket client.
+ *
+ * ## Properties:
+ * - **url** (string): The URL of the server, e.g. `wss://example.com/chat`.
+ * - **token** (string | TokenProvider | undefined): The token, or a function returning a fresh token.
+ * - **WebSocket** (ClientSocketConstructor | undefined): The WebSocket implementation to use.
+ * - **reconnect** (IReconnectOptions | undefined): Reconnection settings.
+ * - **requestTimeout** (number | undefined): Milliseconds to wait for the reply to a request.
+ * - **maxQueueSize** (number | undefined): The maximum number of messages queued while offline.
+ * - **replay** (boolean | undefined): Whether missed messages are replayed after reconnecting.
+ */
+export interface IWebSocketClientOptions {
+     /**
+      * The URL of the server, e.g. `wss://example.com/chat`.
+      */
+     url: string;
+
+     /**
+      * The token to authenticate with, or a function returning a fresh token before every
+      * connection attempt and when the server warns that the token expires. The token is sent as
+      * a `bearer.<token>` subprotocol, which browsers allow unlike headers.
+      */
+     token?: string | TokenProvider;
+
+     /**
+      * The WebSocket implementation to use. Defaults to the global `WebSocket` of browsers and
+      * recent Node.js versions; pass `WebSocket` from the `ws` package on older Node.js versions.
+      */
+     WebSocket?: ClientSocketConstructor;
+
+     /**
+      * Reconnection settings.
+      */
+     reconnect?: IReconnectOptions;
+
+     /**
+      * Milliseconds to wait for the reply to a request (default: `10000`).
+      */
+     requestTimeout?: number;
+
+     /**
+      * The maximum number of messages queued while offline; the oldest are dropped beyond it
+      * (default: `100`).
+      */
+     maxQueueSize?: number;
+
+     /**
+      * Whether the messages missed while offline are replayed after reconnecting, using the
+      * server's message history (default: `true`).
+      */
+     replay?: boolean;
+}
+
+/**
+ * IClientSendOptions: Interface for addressing an outgoing message.
+ *
+ * ## Properties:
+ * - **room** (string | undefined): The room to send the message to.
+ * - **to** (string | undefined): The user to send the message to.
+ */
+export interface IClientSendOptions {
+     /**
+      * The room to send the message to. The client must have joined it.
+      */
+     room?: string;
+
+     /**
+      * The username of the recipient of a direct message.
+      */
+     to?: string;
+}
+
+/**
+ * IClientRequestOptions: Interface for addressing a request and bounding its wait.
+ *
+ * ## Properties:
+ * - **timeout** (number | undefined): Milliseconds to wait for the reply.
+ */
+export interface IClientRequestOptions extends IClientSendOptions {
+     /**
+      * Milliseconds to wait for the reply. Defaults to the client's `requestTimeout`.
+      */
+     timeout?: number;
+}
+
+/**
+ * IWebSocketClient: Interface for a client of the WebSocket server.
+ *
+ * ## Methods:
+ * - **connect**: Connects to the server.
+ * - **close**: Closes the connection and stops reconnecting.
+ * - **getState**: Retrieves the state of the connection.
+ * - **send**: Sends a message, queueing it while offline.
+ * - **request**: Sends a message and awaits the server's reply.
+ * - **join**: Joins a room, and rejoins it after reconnecting.
+ * - **leave**: Leaves a room.
+ * - **on**: Registers the handler for an event type.
+ * - **off**: Removes the handler for an event type.
+ * - **onOpen**: Registers a listener called whenever the connection opens.
+ * - **onClose**: Registers a listener called whenever the connection closes.
+ * - **onReconnecting**: Registers a listener called before each reconnect attempt.
+ * - **onError**: Registers a listener called with errors that belong to no request.
+ *
+ * @template TEvents - The application's event map, giving typed payloads to event handlers.
+ */
+export interface IWebSocketClient<TEvents extends EventMap = EventMap> {
+     /**
+      * Connects to the server.
+      *
+      * @returns {Promise<void>} - Resolves once the connection is open; rejects if the client gives up or is closed first.
+      */
+     connect(): Promise<void>;
+
+     /**
+      * Closes the connection and stops reconnecting. Pending requests are rejected.
+      *
+      * @param {number} [code=1000] - The WebSocket close code.
+      * @param {string} [reason] - The WebSocket close reason text.
+      */
+     close(code?: number, reason?: string): void;
+
+     /**
+      * Retrieves the state of the connection.
+      *
+      * @returns {ClientState} - The state.
+      */
+     getState(): ClientState;
+
+     /**
+      * Sends a message, queueing it while offline.
+      *
+      * @param {string} event - The event type of the message.
+      * @param {any} [content] - The content of the message.
+      * @param {IClientSendOptions} [options] - The room or user to send the message to.
+      */
+     send<K extends keyof TEvents & string>(event: K, content?: TEvents[K], options?: IClientSendOptions): void;
+
+     /**
+      * Sends a message and awaits the server's reply, queueing it while offline.
+      *
+      * @param {string} event - The event type of the message.
+      * @param {any} [content] - The content of the message.
+      * @param {IClientRequestOptions} [options] - The room or user to send the message to, and the timeout.
+      * @returns {Promise<T>} - Resolves with the `content` of the `ack` reply; rejects with a `MessageError` on an `error` reply or timeout.
+      */
+     request<T = any, K extends keyof TEvents & string = keyof TEvents & string>(event: K, content?: TEvents[K], options?: IClientRequestOptions): Promise<T>;
+
+     /**
+      * Joins a room. The client rejoins its rooms after reconnecting.
+      *
+      * @param {string} room - The name of the room.
+      * @returns {Promise<void>} - Resolves once the server confirmed.
+      */
+     join(room: string): Promise<void>;
+
+     /**
+      * Leaves a room.
+      *
+      * @param {string} room - The name of the room.
+      * @returns {Promise<void>} - Resolves once the server confirmed.
+      */
+     leave(room: string): Promise<void>;
+
+     /**
+      * Registers the handler for an event type, replacing any previous handler.
+      *
+      * @param {string} event - The event type; messages without a type use `message`.
+      * @param {ClientEventHandler} handler - The handler.
+      */
+     on<K extends keyof TEvents & string>(event: K, handler: ClientEventHandler<TEvents[K]>): void;
+
+     /**
+      * Removes the handler for an event type.
+      *
+      * @param {string} event - The event type.
+      */
+     off<K extends keyof TEvents & string>(event: K): void;
+
+     /**
+      * Registers a listener called whenever the connection opens, after rooms are rejoined,
+      * missed messages are replayed and queued messages are sent.
+      *
+      * @param {Function} listener - The listener.
+      */
+     onOpen(listener: () => void): void;
+
+     /**
+      * Registers a listener called whenever the connection closes.
+      *
+      * @param {Function} listener - The listener, called with the close code and reason.
+      */
+     onClose(listener: (info: ICloseInfo) => void): void;
+
+     /**
+      * Registers a listener called before each reconnect attempt.
+      *
+      * @param {Function} listener - The listener, called with the attempt number and the delay before it.
+      */
+     onReconnecting(listener: (attempt: number, delay: number) => void): void;
+
+     /**
+      * Registers a listener called with errors that belong to no request, such as failed
+      * re-authentication or `error` messages without an id.
+      *
+      * @param {Function} listener - The listener.
+      */
+     onError(listener: (error: Error) => void): void;
+}
@@ -1,7 +1,33 @@
 import { Application } from 'express';
+import { Server } from 'http';
 import { ServerOptions } from 'ws';
 
 import { IMessage } from './IMessage';
+import { EventMap, EventHandler } from './IEventRouter';
+import { IHeartbeatOptions } from './IHeartbeatOptions';
+import { IDisconnectInfo } from './IDisconnectInfo';
+import { IConnection, IConnectionStats } from './IConnection';
+import { IAdapter } from './IAdapter';
+import { ILoggingOptions } from './ILoggingOptions';
+import { IMetricsOptions } from './IMetricsOptions';
+import { IRateLimitOptions } from './IRateLimitOptions';
+import { IRateLimiter } from './IRateLimiter';
+import { MessageSchema } from './IMessageValidator';
+import { HandshakeMiddleware, MessageMiddleware } from './IMiddleware';
+import { ICodec } from './ICodec';
+import { IAuthOptions } from './IAuthOptions';
+import { IAuthorizationOptions } from './IAuthorizationOptions';
+import { IPresenceOptions } from './IPresenceOptions';
+import { IAdminOptions } from './IAdminOptions';
+import { IPresence } from './IPresenceService';
+import { IHistoryOptions } from './IHistoryOptions';
+import { IMessageStore } from './IMessageStore';
+import { IShutdownOptions } from './IShutdownOptions';
+import { ITlsOptions } from './ITlsOptions';
+import { IBackpressureOptions } from './IBackpressureOptions';
+import { IAdmissionOptions } from './IAdmissionOptions';
+import { ICompressionOptions } from './ICompressionOptions';
+import { IGenerateTokenOptions } from './IAuthService';
 
 /**
  * IWebSocketManagerOptions: Interface for configuring the WebSocket manager.
@@ -11,14 +37,39 @@ import { IMessage } from './IMessage';
  *
  * ## Properties:
  * - **port** (number | undefined): The port number for the WebSocket server.
+ * - **server** (Server | undefined): An existing HTTP or HTTPS server to attach to.
+ * - **app** (Application | undefined): An existing Express application to mount the HTTP routes on.
+ * - **tls** (ITlsOptions | undefined): Certificate and key paths for serving over HTTPS.
+ * - **path** (string | undefined): The path upgrade requests must target, e.g. `/chat`.
  * - **secretKey** (string | undefined): The secret key used for token generation and authentication.
  * - **tokenExpiry** (string | undefined): The expiration duration for generated tokens.
  * - **enableLogging** (boolean | undefined): Flag to enable or disable logging.
+ * - **logging** (ILoggingOptions | undefined): Log level, format and transport settings.
  * - **wsOptions** (ServerOptions | undefined): Additional options for the WebSocket server.
  * - **setupRoutes** (Function | undefined): Callback for setting up application routes.
  * - **beforeSend** (Function | undefined): Hook executed before a message is broadcasted.
  * - **afterSend** (Function | undefined): Hook executed after a message is broadcasted.
+ * - **onConnect** (Function | undefined): Hook executed after a connection has been accepted.
  * - **onMessage** (Function | undefined): Custom handler for processing incoming WebSocket messages.
+ * - **requestTimeout** (number | undefined): Milliseconds to wait for the reply to a server-side request.
+ * - **heartbeat** (IHeartbeatOptions | undefined): Heartbeat settings for detecting dead connections.
+ * - **onDisconnect** (Function | undefined): Hook executed after a connection has closed.
+ * - **adapter** (IAdapter | undefined): Adapter forwarding messages between server instances.
+ * - **metrics** (IMetricsOptions | undefined): Metrics endpoint and naming settings.
+ * - **rateLimit** (IRateLimitOptions | undefined): Limits on the rate of incoming messages.
+ * - **rateLimiter** (IRateLimiter | undefined): Replacement for the in-memory token buckets.
+ * - **schemas** (Record<string, MessageSchema> | undefined): Payload schemas, keyed by event name.
+ * - **codecs** (ICodec[] | undefined): Codecs added to the built-in JSON and MessagePack codecs.
+ * - **auth** (IAuthOptions | undefined): The strategies authenticating upgrade requests.
+ * - **authorization** (IAuthorizationOptions | undefined): Access policies for events, rooms and broadcasts.
+ * - **presence** (IPresenceOptions | undefined): Presence grace period, notified rooms and REST route.
+ * - **admin** (IAdminOptions | undefined): Route and access settings of the admin REST API.
+ * - **history** (IHistoryOptions | undefined): Message history size and replay limit.
+ * - **messageStore** (IMessageStore | undefined): Replacement for the in-memory message history.
+ * - **shutdown** (IShutdownOptions | undefined): Drain timeout, reconnect delay and handled process signals.
+ * - **backpressure** (IBackpressureOptions | undefined): High-water mark, queue size and overflow policy of outbound queues.
+ * - **admission** (IAdmissionOptions | undefined): Connection limits, allowed origins and handshake rate.
+ * - **compression** (ICompressionOptions | undefined): permessage-deflate settings and per-message compression policy.
  */
 export interface IWebSocketManagerOptions {
      /**
@@ -26,6 +77,32 @@ export interface IWebSocketManagerOptions {
       */
      port?: number;
 
+     /**
+      * An existing HTTP or HTTPS server to attach to instead of creating one. The server is not
+      * started or closed by the manager: `start()` and `stop()` only attach and detach the WebSocket
+      * endpoint, and `port` and `tls` are ignored. Pass `app` as well to serve the HTTP routes.
+      */
+     server?: Server;
+
+     /**
+      * An existing Express application to mount the metrics, presence and `setupRoutes` routes on
+      * instead of creating one. Without `server`, the manager creates a server for it.
+      */
+     app?: Application;
+
+     /**
+      * Certificate and key paths for serving over HTTPS when the manager creates its server.
+      */
+     tls?: ITlsOptions;
+
+     /**
+      * The path upgrade requests must target, e.g. `/chat`, so that several managers can share a
+      * server, each with its own controller and configuration. Upgrade requests for a path no
+      * manager serves are answered with `404`. Without a path, the manager serves every path no
+      * other manager on the server serves.
+      */
+     path?: string;
+
      /**
       * The secret key used for token generation and authentication.
       */
@@ -41,6 +118,11 @@ export interface IWebSocketManagerOptions {
       */
      enableLogging?: boolean;
 
+     /**
+      * Log level, format and transport settings.
+      */
+     logging?: ILoggingOptions;
+
      /**
       * Additional options for the WebSocket server.
       */
@@ -57,22 +139,149 @@ export interface IWebSocketManagerOptions {
       * Hook executed before a message is broadcasted.
       *
       * @param {IMessage<any>} message - The message being processed.
+      * @param {IConnection} connection - The connection the message was received on.
       */
-     beforeSend?: (message: IMessage<any>) => void;
+     beforeSend?: (message: IMessage<any>, connection: IConnection) => void;
 
      /**
       * Hook executed after a message is broadcasted.
       *
       * @param {IMessage<any>} message - The message that was processed.
+      * @param {IConnection} connection - The connection the message was received on.
+      */
+     afterSend?: (message: IMessage<any>, connection: IConnection) => void;
+
+     /**
+      * Hook executed after a connection has been accepted, before its first message is handled.
+      *
+      * @param {IConnection} connection - The new connection.
       */
-     afterSend?: (message: IMessage<any>) => void;
+     onConnect?: (connection: IConnection) => void;
 
      /**
-      * Custom handler for processing incoming WebSocket messages.
+      * Custom handler for processing incoming WebSocket messages without a `type`.
+      * Replaces the default routing of the `message` event; prefer `on('message', handler)`.
       *
       * @param {IMessage<any>} message - The incoming WebSocket message.
+      * @param {IConnection} connection - The connection the message was received on.
+      */
+     onMessage?: (message: IMessage<any>, connection: IConnection) => void;
+
+     /**
+      * Milliseconds to wait for the reply to a server-side request before it is rejected (default: 10000).
+      */
+     requestTimeout?: number;
+
+     /**
+      * Heartbeat settings for detecting dead connections. Heartbeats are enabled by default.
+      */
+     heartbeat?: IHeartbeatOptions;
+
+     /**
+      * Hook executed after a connection has closed, with the reason it ended.
+      *
+      * @param {IDisconnectInfo} info - Information about the closed connection.
+      */
+     onDisconnect?: (info: IDisconnectInfo) => void;
+
+     /**
+      * Adapter forwarding broadcasts, room messages and direct messages between server instances.
+      * Without an adapter, messages only reach the connections of this instance.
+      */
+     adapter?: IAdapter;
+
+     /**
+      * Metrics endpoint and naming settings. Set `enabled` to mount the Prometheus endpoint.
+      */
+     metrics?: IMetricsOptions;
+
+     /**
+      * Limits on the rate of incoming messages, per connection, per user and per event type.
+      * Without limits, clients may send messages as fast as they like.
+      */
+     rateLimit?: IRateLimitOptions;
+
+     /**
+      * Replacement for the in-memory token buckets, for example one backed by a store shared
+      * between server instances.
       */
-     onMessage?: (message: IMessage<any>) => void;
+     rateLimiter?: IRateLimiter;
+
+     /**
+      * Payload schemas, keyed by event name. Messages whose `content` does not match the schema of
+      * their event are answered with an `INVALID_MESSAGE` error instead of reaching the handler.
+      */
+     schemas?: Record<string, MessageSchema>;
+
+     /**
+      * Codecs added to the built-in JSON and MessagePack codecs. Clients pick a codec by requesting
+      * its name as a WebSocket subprotocol; connections that request none use JSON.
+      */
+     codecs?: ICodec[];
+
+     /**
+      * The strategies authenticating upgrade requests, tried in order. By default, HS256 tokens
+      * signed with the `secretKey` are accepted and requests without credentials are anonymous.
+      */
+     auth?: IAuthOptions;
+
+     /**
+      * Access policies for sending events, joining rooms and broadcasting, checked against the
+      * roles and permissions of the authenticated principal. Attempts without a policy are allowed.
+      */
+     authorization?: IAuthorizationOptions;
+
+     /**
+      * Presence tracking settings: the grace period before a user goes offline, the rooms notified
+      * of every presence change, and the route of the REST endpoint listing online users.
+      */
+     presence?: IPresenceOptions;
+
+     /**
+      * Settings of the admin REST API, which lists and closes connections and sends messages from
+      * HTTP requests. The API is only mounted when enabled, and only callers with an admin role
+      * may use it.
+      */
+     admin?: IAdminOptions;
+
+     /**
+      * Message history settings: the number of broadcast and room messages kept per stream by the
+      * in-memory store, and the maximum number of messages replayed to a reconnecting client.
+      */
+     history?: IHistoryOptions;
+
+     /**
+      * Replacement for the in-memory message history, for example one backed by a database shared
+      * by every server instance, so that clients can replay messages across instances and restarts.
+      */
+     messageStore?: IMessageStore;
+
+     /**
+      * Graceful shutdown settings: how long `stop()` drains connections before terminating them,
+      * the reconnect delay announced to clients, and the process signals that stop the server.
+      */
+     shutdown?: IShutdownOptions;
+
+     /**
+      * Outbound queue settings: the bytes a socket may buffer before messages are queued, the
+      * maximum number of queued data messages per connection, and what happens when it is exceeded.
+      */
+     backpressure?: IBackpressureOptions;
+
+     /**
+      * Admission control for upgrade requests: the maximum number of connections of the server,
+      * of each user and of each IP address, the origins browsers may connect from, and the
+      * handshake rate per IP address. Refused requests receive an HTTP `403`, `429` or `503`.
+      */
+     admission?: IAdmissionOptions;
+
+     /**
+      * Compression settings: whether to negotiate permessage-deflate, the size threshold and
+      * per-event policy deciding which messages are compressed, and the zlib settings bounding
+      * the memory of each connection. Takes precedence over `wsOptions.perMessageDeflate` unless
+      * compression is disabled.
+      */
+     compression?: ICompressionOptions;
 }
 
 /**
@@ -83,25 +292,228 @@ export interface IWebSocketManagerOptions {
  *
  * ## Methods:
  * - **start**: Starts the WebSocket server.
- * - **stop**: Stops the WebSocket server.
+ * - **stop**: Gracefully stops the WebSocket server.
  * - **generateToken**: Generates a token for a given username.
+ * - **joinRoom**: Adds a user to a room.
+ * - **leaveRoom**: Removes a user from a room.
+ * - **broadcastToRoom**: Broadcasts a message to the members of a room.
+ * - **getRoomMembers**: Retrieves the usernames of the members of a room.
+ * - **sendToUser**: Sends a direct message to every connection of a user.
+ * - **on**: Registers the handler for an event.
+ * - **off**: Removes the handler for an event.
+ * - **setSchema**: Registers the payload schema for an event.
+ * - **removeSchema**: Removes the payload schema for an event.
+ * - **use**: Appends handshake or message middleware.
+ * - **request**: Sends a request to a user and awaits the reply.
+ * - **getMetrics**: Renders the collected metrics in the Prometheus text format.
+ * - **revokeToken**: Revokes a token and closes the connections authenticated with it.
+ * - **getOnlineUsers**: Lists the presence of every online user.
+ * - **getPresence**: Retrieves the presence of a user.
+ * - **getConnections**: Lists the open connections.
+ * - **getConnection**: Retrieves an open connection by its id.
+ * - **disconnect**: Closes a connection by its id.
+ * - **getConnectionStats**: Retrieves the traffic statistics of a connection.
+ * - **disconnectUser**: Closes every connection of a user.
+ * - **broadcast**: Sends a message to every connected client.
+ *
+ * @template TEvents - The application's event map, giving typed payloads to event handlers.
  */
-export interface IWebSocketManager {
+export interface IWebSocketManager<TEvents extends EventMap = EventMap> {
      /**
       * Starts the WebSocket server.
+      *
+      * @returns {Promise<void>} - Resolves once the server is listening; rejects if it cannot listen, e.g. with `EADDRINUSE`.
       */
-     start(): void;
+     start(): Promise<void>;
 
      /**
-      * Stops the WebSocket server.
+      * Gracefully stops the WebSocket server, draining connections before terminating them.
+      *
+      * @returns {Promise<void>} - Resolves once every connection and the HTTP server are closed.
       */
-     stop(): void;
+     stop(): Promise<void>;
 
      /**
       * Generates a token for a given username.
       *
       * @param {string} username - The username for which the token is generated.
+      * @param {IGenerateTokenOptions} [options] - The roles and additional claims of the token.
       * @returns {string} - A string representing the generated token.
       */
-     generateToken(username: string): string;
+     generateToken(username: string, options?: IGenerateTokenOptions): string;
+
+     /**
+      * Adds every connection of a user to a room.
+      *
+      * @param {string} username - The user joining the room.
+      * @param {string} room - The name of the room.
+      * @returns {number} - The number of connections that joined the room.
+      */
+     joinRoom(username: string, room: string): number;
+
+     /**
+      * Removes every connection of a user from a room.
+      *
+      * @param {string} username - The user leaving the room.
+      * @param {string} room - The name of the room.
+      * @returns {number} - The number of connections that left the room.
+      */
+     leaveRoom(username: string, room: string): number;
+
+     /**
+      * Broadcasts a message to the members of a room.
+      *
+      * @param {string} room - The name of the room.
+      * @param {IMessage<any>} message - The message to be broadcasted.
+      */
+     broadcastToRoom(room: string, message: IMessage<any>): void;
+
+     /**
+      * Retrieves the usernames of the members of a room.
+      *
+      * @param {string} room - The name of the room.
+      * @returns {string[]} - The usernames of the room members.
+      */
+     getRoomMembers(room: string): string[];
+
+     /**
+      * Sends a direct message to every connection of a user.
+      *
+      * @param {string} username - The recipient of the message.
+      * @param {IMessage<any>} message - The message to be sent.
+      * @returns {boolean} - True if the message was delivered, false if the user is offline.
+      */
+     sendToUser(username: string, message: IMessage<any>): boolean;
+
+     /**
+      * Registers the handler for an event, replacing any existing handler.
+      *
+      * @param {K} event - The event name, matched against the `type` of incoming messages.
+      * @param {EventHandler<TEvents[K]>} handler - The handler to invoke for the event.
+      */
+     on<K extends keyof TEvents & string>(event: K, handler: EventHandler<TEvents[K]>): void;
+
+     /**
+      * Removes the handler for an event.
+      *
+      * @param {K} event - The event name.
+      */
+     off<K extends keyof TEvents & string>(event: K): void;
+
+     /**
+      * Registers the payload schema for an event, replacing any existing schema.
+      *
+      * @param {K} event - The event name.
+      * @param {MessageSchema<TEvents[K]>} schema - The JSON Schema or validator function for the payload.
+      */
+     setSchema<K extends keyof TEvents & string>(event: K, schema: MessageSchema<TEvents[K]>): void;
+
+     /**
+      * Removes the payload schema for an event.
+      *
+      * @param {K} event - The event name.
+      */
+     removeSchema<K extends keyof TEvents & string>(event: K): void;
+
+     /**
+      * Appends middleware to the handshake chain, which runs before a connection is accepted, or
+      * to the message chain, which runs for each inbound message before it is dispatched.
+      *
+      * @param {'handshake' | 'message'} stage - The stage to run the middleware at.
+      * @param {HandshakeMiddleware | MessageMiddleware} middleware - The middleware to append.
+      */
+     use(stage: 'handshake', middleware: HandshakeMiddleware): void;
+     use(stage: 'message', middleware: MessageMiddleware): void;
+
+     /**
+      * Sends a request to every connection of a user and awaits the first reply.
+      *
+      * @param {string} username - The user to send the request to.
+      * @param {string} event - The event name of the request.
+      * @param {any} payload - The content of the request.
+      * @param {number} [timeout] - Milliseconds to wait for the reply. Defaults to `requestTimeout`.
+      * @returns {Promise<T>} - Resolves with the reply content, or rejects with a `MessageError`.
+      */
+     request<T = any>(username: string, event: string, payload?: any, timeout?: number): Promise<T>;
+
+     /**
+      * Renders the collected metrics in the Prometheus text exposition format.
+      *
+      * @returns {string} - The exposition text.
+      */
+     getMetrics(): string;
+
+     /**
+      * Revokes a token by its `jti` claim and closes the local connections authenticated with it.
+      *
+      * @param {string} jti - The `jti` (JWT ID) claim of the token.
+      * @param {number} [expiresAt] - When the token expires, in milliseconds since the epoch.
+      * @returns {number} - The number of connections closed.
+      */
+     revokeToken(jti: string, expiresAt?: number): number;
+
+     /**
+      * Lists the presence of every online user.
+      *
+      * @returns {IPresence[]} - The presence of the online users.
+      */
+     getOnlineUsers(): IPresence[];
+
+     /**
+      * Retrieves the presence of a user.
+      *
+      * @param {string} username - The user to look up.
+      * @returns {IPresence | null} - The presence of the user, or null if they are offline.
+      */
+     getPresence(username: string): IPresence | null;
+
+     /**
+      * Lists the open connections on this server instance.
+      *
+      * @returns {IConnection[]} - The connections, oldest first.
+      */
+     getConnections(): IConnection[];
+
+     /**
+      * Retrieves an open connection on this server instance by its id.
+      *
+      * @param {string} id - The id of the connection.
+      * @returns {IConnection | null} - The connection, or null if it is not open.
+      */
+     getConnection(id: string): IConnection | null;
+
+     /**
+      * Closes a connection on this server instance by its id.
+      *
+      * @param {string} id - The id of the connection.
+      * @param {number} [code=1000] - The WebSocket close code.
+      * @param {string} [reason] - The WebSocket close reason text.
+      * @returns {boolean} - True if the connection was open.
+      */
+     disconnect(id: string, code?: number, reason?: string): boolean;
+
+     /**
+      * Retrieves the traffic statistics of an open connection on this server instance.
+      *
+      * @param {string} id - The id of the connection.
+      * @returns {IConnectionStats | null} - The statistics, or null if the connection is not open.
+      */
+     getConnectionStats(id: string): IConnectionStats | null;
+
+     /**
+      * Closes every connection of a user on this server instance.
+      *
+      * @param {string} username - The user.
+      * @param {number} [code=1000] - The WebSocket close code.
+      * @param {string} [reason] - The WebSocket close reason text.
+      * @returns {number} - The number of connections closed.
+      */
+     disconnectUser(username: string, code?: number, reason?: string): number;
+
+     /**
+      * Sends a message to every connected client, on every server instance.
+      *
+      * @param {IMessage} message - The message to send.
+      */
+     broadcast(message: IMessage<any>): void;
 }
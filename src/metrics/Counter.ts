@@ -0,0 +1,40 @@
+import { ICounter, MetricLabels } from '../interfaces/IMetricsService';
+import { Metric } from './Metric';
+
+/**
+ * Counter: A metric that only goes up.
+ */
+export class Counter extends Metric<number> implements ICounter {
+     /**
+      * Creates a new counter.
+      *
+      * @param {string} name - The full metric name.
+      * @param {string} help - A description of the metric.
+      */
+     constructor(name: string, help: string) {
+          super(name, help, 'counter');
+     }
+
+     /**
+      * Increments the counter.
+      *
+      * @param {MetricLabels} [labels={}] - The labels of the series to increment.
+      * @param {number} [value=1] - The amount to increment by. Must not be negative.
+      */
+     inc(labels: MetricLabels = {}, value: number = 1): void {
+          if (value < 0) {
+               throw new Error(`Counter ${this.name} cannot be decremented`);
+          }
+          this.getSeries(labels, () => 0).value += value;
+     }
+
+     /**
+      * Renders the value of every series.
+      *
+      * @protected
+      * @returns {string[]} - The sample lines.
+      */
+     protected renderSeries(): string[] {
+          return Array.from(this.series.values()).map(({ labels, value }) => `${this.name}${this.formatLabels(labels)} ${value}`);
+     }
+}
@@ -0,0 +1,57 @@
+import { IGauge, MetricLabels } from '../interfaces/IMetricsService';
+import { Metric } from './Metric';
+
+/**
+ * Gauge: A metric that goes up and down.
+ */
+export class Gauge extends Metric<number> implements IGauge {
+     /**
+      * Creates a new gauge.
+      *
+      * @param {string} name - The full metric name.
+      * @param {string} help - A description of the metric.
+      */
+     constructor(name: string, help: string) {
+          super(name, help, 'gauge');
+     }
+
+     /**
+      * Sets the gauge to a value.
+      *
+      * @param {number} value - The new value.
+      * @param {MetricLabels} [labels={}] - The labels of the series to set.
+      */
+     set(value: number, labels: MetricLabels = {}): void {
+          this.getSeries(labels, () => 0).value = value;
+     }
+
+     /**
+      * Increments the gauge.
+      *
+      * @param {MetricLabels} [labels={}] - The labels of the series to increment.
+      * @param {number} [value=1] - The amount to increment by.
+      */
+     inc(labels: MetricLabels = {}, value: number = 1): void {
+          this.getSeries(labels, () => 0).value += value;
+     }
+
+     /**
+      * Decrements the gauge.
+      *
+      * @param {MetricLabels} [labels={}] - The labels of the series to decrement.
+      * @param {number} [value=1] - The amount to decrement by.
+      */
+     dec(labels: MetricLabels = {}, value: number = 1): void {
+          this.getSeries(labels, () => 0).value -= value;
+     }
+
+     /**
+      * Renders the value of every series.
+      *
+      * @protected
+      * @returns {string[]} - The sample lines.
+      */
+     protected renderSeries(): string[] {
+          return Array.from(this.series.values()).map(({ labels, value }) => `${this.name}${this.formatLabels(labels)} ${value}`);
+     }
+}
@@ -0,0 +1,72 @@
+import { IHistogram, MetricLabels } from '../interfaces/IMetricsService';
+import { Metric } from './Metric';
+
+/**
+ * HistogramValue: The bucket counts, sum and count of one histogram series.
+ */
+interface HistogramValue {
+     buckets: number[];
+     sum: number;
+     count: number;
+}
+
+/**
+ * Histogram: A metric sampling observations into cumulative buckets.
+ */
+export class Histogram extends Metric<HistogramValue> implements IHistogram {
+     /**
+      *
+      * @private
+      * @type {number[]}
+      * @memberof Histogram
+      */
+     private bounds: number[];
+
+     /**
+      * Creates a new histogram.
+      *
+      * @param {string} name - The full metric name.
+      * @param {string} help - A description of the metric.
+      * @param {number[]} buckets - Upper bounds of the buckets.
+      */
+     constructor(name: string, help: string, buckets: number[]) {
+          super(name, help, 'histogram');
+          this.bounds = [...buckets].sort((a, b) => a - b);
+     }
+
+     /**
+      * Records an observation.
+      *
+      * @param {number} value - The observed value.
+      * @param {MetricLabels} [labels={}] - The labels of the series to record into.
+      */
+     observe(value: number, labels: MetricLabels = {}): void {
+          const series = this.getSeries(labels, () => ({ buckets: this.bounds.map(() => 0), sum: 0, count: 0 }));
+          this.bounds.forEach((bound, index) => {
+               if (value <= bound) {
+                    series.value.buckets[index]++;
+               }
+          });
+          series.value.sum += value;
+          series.value.count++;
+     }
+
+     /**
+      * Renders the buckets, sum and count of every series.
+      *
+      * @protected
+      * @returns {string[]} - The sample lines.
+      */
+     protected renderSeries(): string[] {
+          const lines: string[] = [];
+          this.series.forEach(({ labels, value }) => {
+               this.bounds.forEach((bound, index) => {
+                    lines.push(`${this.name}_bucket${this.formatLabels({ ...labels, le: bound })} ${value.buckets[index]}`);
+               });
+               lines.push(`${this.name}_bucket${this.formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+               lines.push(`${this.name}_sum${this.formatLabels(labels)} ${value.sum}`);
+               lines.push(`${this.name}_count${this.formatLabels(labels)} ${value.count}`);
+          });
+          return lines;
+     }
+}
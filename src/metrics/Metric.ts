@@ -0,0 +1,77 @@
+import { MetricLabels } from '../interfaces/IMetricsService';
+
+/**
+ * Metric: Base class for metrics, keeping one value per label combination.
+ *
+ * ## Responsibilities:
+ * - Map label sets to series keys and back.
+ * - Render the `# HELP` and `# TYPE` header and label sets in the Prometheus text format.
+ */
+export abstract class Metric<T> {
+     /**
+      *
+      * @protected
+      * @type {Map<string, { labels: MetricLabels; value: T }>}
+      * @memberof Metric
+      */
+     protected series: Map<string, { labels: MetricLabels; value: T }> = new Map();
+
+     /**
+      * Creates a new metric.
+      *
+      * @param {string} name - The full metric name.
+      * @param {string} help - A description of the metric.
+      * @param {string} type - The Prometheus metric type.
+      */
+     constructor(public readonly name: string, public readonly help: string, private type: string) { }
+
+     /**
+      * Renders the metric in the Prometheus text exposition format.
+      *
+      * @returns {string[]} - The exposition lines.
+      */
+     render(): string[] {
+          return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.renderSeries()];
+     }
+
+     /**
+      * Renders the samples of every series.
+      *
+      * @protected
+      * @returns {string[]} - The sample lines.
+      */
+     protected abstract renderSeries(): string[];
+
+     /**
+      * Retrieves the series for a label set, creating it with an initial value if needed.
+      *
+      * @protected
+      * @param {MetricLabels} labels - The labels of the series.
+      * @param {Function} initial - Creates the initial value of a new series.
+      * @returns {{ labels: MetricLabels; value: T }} - The series.
+      */
+     protected getSeries(labels: MetricLabels, initial: () => T): { labels: MetricLabels; value: T } {
+          const key = JSON.stringify(Object.keys(labels).sort().map(name => [name, String(labels[name])]));
+          let series = this.series.get(key);
+          if (!series) {
+               series = { labels, value: initial() };
+               this.series.set(key, series);
+          }
+          return series;
+     }
+
+     /**
+      * Formats a label set as `{name="value",...}`, or an empty string if there are no labels.
+      *
+      * @protected
+      * @param {MetricLabels} labels - The labels to format.
+      * @returns {string} - The formatted label set.
+      */
+     protected formatLabels(labels: MetricLabels): string {
+          const pairs = Object.entries(labels).map(([name, value]) => {
+               const escaped = String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+               return `${name}="${escaped}"`;
+          });
+          return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+     }
+}
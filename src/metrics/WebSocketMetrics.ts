@@ -0,0 +1,62 @@
+import { IMetricsService, ICounter, IGauge, IHistogram } from '../interfaces/IMetricsService';
+
+/**
+ * WebSocketMetrics: The built-in metrics recorded by the WebSocketController.
+ *
+ * Groups the instruments the controller updates as connections open and close and as
+ * messages flow, so that their names and descriptions are defined in one place.
+ */
+export class WebSocketMetrics {
+     public readonly connectionsActive: IGauge;
+     public readonly connectionsTotal: ICounter;
+     public readonly disconnectionsTotal: ICounter;
+     public readonly messagesReceived: ICounter;
+     public readonly messagesSent: ICounter;
+     public readonly errorsSent: ICounter;
+     public readonly authFailures: ICounter;
+     public readonly parseErrors: ICounter;
+     public readonly invalidMessages: ICounter;
+     public readonly rateLimited: ICounter;
+     public readonly forbidden: ICounter;
+     public readonly broadcastDuration: IHistogram;
+     public readonly broadcastRecipients: IHistogram;
+     public readonly outboundQueueDepth: IGauge;
+     public readonly outboundOverflows: ICounter;
+     public readonly admissionRejections: ICounter;
+     public readonly messagesCompressed: ICounter;
+     public readonly compressionRatio: IHistogram;
+
+     /**
+      * Creates the built-in metrics in a metrics registry.
+      *
+      * @param {IMetricsService} metrics - The registry the metrics are created in.
+      */
+     constructor(metrics: IMetricsService) {
+          this.connectionsActive = metrics.gauge('connections_active', 'Number of open WebSocket connections.');
+          this.connectionsTotal = metrics.counter('connections_total', 'Total number of accepted WebSocket connections.');
+          this.disconnectionsTotal = metrics.counter('disconnections_total', 'Total number of closed WebSocket connections, by reason.');
+          this.messagesReceived = metrics.counter('messages_received_total', 'Total number of messages received, by event.');
+          this.messagesSent = metrics.counter('messages_sent_total', 'Total number of messages sent to clients.');
+          this.errorsSent = metrics.counter('errors_sent_total', 'Total number of error replies sent to clients, by code.');
+          this.authFailures = metrics.counter('auth_failures_total', 'Total number of failed authentications.');
+          this.parseErrors = metrics.counter('parse_errors_total', 'Total number of messages that could not be parsed.');
+          this.invalidMessages = metrics.counter('invalid_messages_total', 'Total number of messages failing validation, by event.');
+          this.rateLimited = metrics.counter('rate_limited_total', 'Total number of messages exceeding a rate limit, by scope and action.');
+          this.forbidden = metrics.counter('forbidden_total', 'Total number of attempts denied by an access policy, by action.');
+          this.broadcastDuration = metrics.histogram('broadcast_duration_seconds', 'Time spent fanning out a message to local recipients, by kind.');
+          this.broadcastRecipients = metrics.histogram(
+               'broadcast_recipients',
+               'Number of local recipients of a fanned-out message, by kind.',
+               [1, 5, 10, 50, 100, 500, 1000, 5000]
+          );
+          this.outboundQueueDepth = metrics.gauge('outbound_queue_depth', 'Number of messages waiting in the outbound queues of connections.');
+          this.outboundOverflows = metrics.counter('outbound_overflows_total', 'Total number of messages sent to a full outbound queue, by overflow policy.');
+          this.admissionRejections = metrics.counter('admission_rejections_total', 'Total number of upgrade requests refused by admission control, by reason.');
+          this.messagesCompressed = metrics.counter('messages_compressed_total', 'Total number of outgoing messages sent compressed, by kind.');
+          this.compressionRatio = metrics.histogram(
+               'compression_ratio',
+               'Compressed size of sampled outgoing messages relative to their original size, by kind.',
+               [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9, 1]
+          );
+     }
+}
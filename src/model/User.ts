@@ -1,3 +1,5 @@
+import { IPrincipal } from '../interfaces/IPrincipal';
+
 /**
  * User: A class representing a user in the system.
  *
@@ -6,12 +8,53 @@
  *
  * ## Properties:
  * - **username** (string): The unique identifier or name of the user.
+ * - **roles** (string[]): The roles granted to the user.
+ * - **claims** (Record<string, any>): The claims of the user's authenticated principal.
  */
 export class User {
      /**
       * Creates a new instance of the User class.
       *
       * @param {string} username - The unique identifier or name of the user.
+      * @param {string[]} [roles=[]] - The roles granted to the user.
+      * @param {Record<string, any>} [claims={}] - The claims of the user's authenticated principal.
       */
-     constructor(public username: string) {}
+     constructor(public username: string, public roles: string[] = [], public claims: Record<string, any> = {}) {}
+
+     /**
+      * Creates the user of an authenticated principal, or the `Anonymous` user.
+      *
+      * @param {IPrincipal | null} principal - The authenticated principal, or null for anonymous clients.
+      * @returns {User} - The user.
+      */
+     static fromPrincipal(principal: IPrincipal | null): User {
+          return principal ? new User(principal.id, principal.roles, principal.claims) : new User('Anonymous');
+     }
+
+     /**
+      * Checks whether the user has been granted a role.
+      *
+      * @param {string} role - The role to check.
+      * @returns {boolean} - True if the user has the role.
+      */
+     hasRole(role: string): boolean {
+          return this.roles.includes(role);
+     }
+
+     /**
+      * Checks whether the user has been granted a permission.
+      *
+      * Permissions are read from the `permissions` claim (an array) or the `scope` claim (a
+      * space-separated string, as issued by OAuth 2.0 servers).
+      *
+      * @param {string} permission - The permission to check.
+      * @returns {boolean} - True if the user has the permission.
+      */
+     hasPermission(permission: string): boolean {
+          const { permissions, scope } = this.claims;
+          if (Array.isArray(permissions) && permissions.includes(permission)) {
+               return true;
+          }
+          return typeof scope === 'string' && scope.split(' ').includes(permission);
+     }
 }
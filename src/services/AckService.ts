@@ -0,0 +1,131 @@
+import { injectable, inject } from 'inversify';
+
+import { randomUUID } from 'crypto';
+
+import { IAckService, IPendingRequest } from '../interfaces/IAckService';
+import { IMessage } from '../interfaces/IMessage';
+import { IErrorMessage } from '../interfaces/IErrorMessage';
+import { IConfig } from '../interfaces/IConfig';
+import { TYPES } from '../config/types';
+import { ERROR_CODES } from '../config/errorCodes';
+import { SYSTEM_EVENTS } from '../config/events';
+import { MessageError } from '../utils/MessageError';
+
+/**
+ * PendingEntry: The settle callbacks and timer of a pending request, and the connections it was sent to.
+ */
+interface PendingEntry {
+     resolve: (content: any) => void;
+     reject: (error: Error) => void;
+     timer: NodeJS.Timeout;
+     recipients?: Set<object>;
+}
+
+/**
+ * AckService: A service class for correlating server-side requests with client replies.
+ *
+ * This service implements the `IAckService` interface. Each request gets a unique
+ * correlation id and a timer; the request settles on the first reply carrying its id
+ * from one of the connections it was sent to, or rejects with a `REQUEST_TIMEOUT` error
+ * once the timer fires.
+ *
+ * ## Dependencies:
+ * - **IConfig**: Supplies the default `requestTimeout`.
+ *
+ * ## Responsibilities:
+ * - Generate correlation ids for outgoing requests.
+ * - Resolve requests on `ack` replies and reject them on `error` replies or timeouts.
+ */
+@injectable()
+export class AckService implements IAckService {
+     /**
+      *
+      * @private
+      * @type {Map<string, PendingEntry>}
+      * @memberof AckService
+      */
+     private pending: Map<string, PendingEntry> = new Map();
+
+     /**
+      * Constructor: Initializes the AckService with configuration settings.
+      *
+      * @param {IConfig} config - The configuration object providing the default request timeout.
+      */
+     constructor(@inject(TYPES.IConfig) private config: IConfig) { }
+
+     /**
+      * Registers a new pending request.
+      *
+      * @param {number} [timeout] - Milliseconds to wait for the reply. Defaults to the configured `requestTimeout`.
+      * @param {Iterable<object>} [recipients] - The connections the request is sent to, the only ones whose replies settle it.
+      * @returns {IPendingRequest<T>} - The correlation id and the promise of the reply.
+      */
+     createRequest<T = any>(timeout: number = this.config.requestTimeout, recipients?: Iterable<object>): IPendingRequest<T> {
+          const id = randomUUID();
+
+          const promise = new Promise<T>((resolve, reject) => {
+               const timer = setTimeout(() => {
+                    this.cancel(id, new MessageError(ERROR_CODES.REQUEST_TIMEOUT, `Request timed out after ${timeout}ms`));
+               }, timeout);
+
+               this.pending.set(id, { resolve, reject, timer, recipients: recipients && new Set(recipients) });
+          });
+
+          return { id, promise };
+     }
+
+     /**
+      * Settles the pending request a reply belongs to.
+      *
+      * Replies to a request sent to specific connections are ignored unless they come from one of
+      * them, so that a client cannot settle requests sent to others by guessing their id.
+      *
+      * @param {IMessage<any> | IErrorMessage} reply - An `ack` or `error` reply sent by a client.
+      * @param {object} [from] - The connection the reply was received on.
+      * @returns {boolean} - True if the reply matched a pending request, false otherwise.
+      */
+     handleReply(reply: IMessage<any> | IErrorMessage, from?: object): boolean {
+          const entry = reply.id !== undefined ? this.pending.get(reply.id) : undefined;
+          if (!entry || (entry.recipients && (from === undefined || !entry.recipients.has(from)))) {
+               return false;
+          }
+
+          clearTimeout(entry.timer);
+          this.pending.delete(reply.id!);
+
+          if (reply.type === SYSTEM_EVENTS.ERROR) {
+               const error = reply as IErrorMessage;
+               entry.reject(new MessageError(error.code, error.error, error.details));
+          } else {
+               entry.resolve((reply as IMessage<any>).content);
+          }
+
+          return true;
+     }
+
+     /**
+      * Rejects a pending request.
+      *
+      * @param {string} id - The correlation id of the request.
+      * @param {Error} error - The error to reject the request with.
+      */
+     cancel(id: string, error: Error): void {
+          const entry = this.pending.get(id);
+          if (!entry) {
+               return;
+          }
+
+          clearTimeout(entry.timer);
+          this.pending.delete(id);
+          entry.reject(error);
+     }
+
+     /**
+      * Rejects every pending request, for example when the server shuts down.
+      *
+      * @param {Error} error - The error to reject the requests with.
+      */
+     cancelAll(error: Error): void {
+          Array.from(this.pending.keys()).forEach(id => this.cancel(id, error));
+     }
+}
@@ -1,61 +1,227 @@
 import { injectable, inject } from 'inversify';
 
 import jwt from 'jsonwebtoken';
+import { IncomingMessage } from 'http';
+import { randomUUID } from 'crypto';
 
-import { IAuthService } from '../interfaces/IAuthService';
+import { IAuthService, IGenerateTokenOptions } from '../interfaces/IAuthService';
+import { IAuthStrategy } from '../interfaces/IAuthStrategy';
+import { IPrincipal } from '../interfaces/IPrincipal';
 import { TYPES } from '../config/types';
 import { IConfig } from '../interfaces/IConfig';
+import { JwtStrategy } from '../auth/JwtStrategy';
+import { AuthenticationError } from '../utils/AuthenticationError';
 
 /**
  * AuthService: A service class for managing authentication.
  *
  * This service implements the `IAuthService` interface and provides functionality
- * for generating and verifying authentication tokens using JSON Web Tokens (JWT).
+ * for generating and verifying authentication tokens using JSON Web Tokens (JWT), and for
+ * authenticating upgrade requests with a chain of strategies.
  *
  * ## Dependencies:
- * - **IConfig**: Provides the secret key and token expiry settings for token management.
+ * - **IConfig**: Provides the secret key, token expiry and auth strategies.
  *
  * ## Responsibilities:
  * - Generate JWT tokens for user authentication.
- * - Verify the validity of JWT tokens and extract the associated username.
+ * - Verify the validity of JWT tokens and extract the associated principal.
+ * - Authenticate upgrade requests with the configured strategies, in order.
+ * - Verify the tokens of clients re-authenticating.
+ * - Keep a deny-list of revoked tokens by their `jti` claim.
  */
 @injectable()
 export class AuthService implements IAuthService {
      private secretKey: string;
      private tokenExpiry: string;
 
+     /**
+      *
+      * @private
+      * @type {JwtStrategy}
+      * @memberof AuthService
+      */
+     private jwtStrategy: JwtStrategy;
+
+     /**
+      *
+      * @private
+      * @type {IAuthStrategy[]}
+      * @memberof AuthService
+      */
+     private strategies: IAuthStrategy[];
+
+     /**
+      * Revoked token ids, mapped to when the tokens expire.
+      *
+      * @private
+      * @type {Map<string, number>}
+      * @memberof AuthService
+      */
+     private revoked: Map<string, number> = new Map();
+
      /**
       * Constructor: Initializes the AuthService with configuration settings.
       *
-      * @param {IConfig} config - The configuration object providing the secret key and token expiry.
+      * @param {IConfig} config - The configuration object providing the secret key, token expiry and auth strategies.
+      * @throws {Error} - If a strategy reads cookies while `admission.allowedOrigins` is not configured.
       */
      constructor(@inject(TYPES.IConfig) private config: IConfig) {
           this.secretKey = this.config.secretKey;
           this.tokenExpiry = this.config.tokenExpiry;
+          this.jwtStrategy = new JwtStrategy({ secret: this.secretKey });
+          this.strategies = this.config.auth?.strategies ?? [this.jwtStrategy];
+
+          const readsCookies = this.strategies.some(strategy => strategy.sources?.some(source => source.type === 'cookie'));
+          if (readsCookies && !this.config.admission?.allowedOrigins?.length) {
+               throw new Error('Strategies reading cookies require admission.allowedOrigins, so that other sites cannot connect with the cookies of their visitors');
+          }
      }
 
      /**
       * Generates a JWT token for the given username.
       *
+      * Each token carries a unique `jti` claim, by which it can be revoked.
+      *
       * @param {string} username - The username for which the token is generated.
+      * @param {IGenerateTokenOptions} [options] - The roles and additional claims of the token.
       * @returns {string} - A JWT token representing the authenticated user.
       */
-     generateToken(username: string): string {
-          return jwt.sign({ username }, this.secretKey, { expiresIn: this.tokenExpiry });
+     generateToken(username: string, options: IGenerateTokenOptions = {}): string {
+          const payload = { jti: randomUUID(), ...options.claims, sub: username, username, ...(options.roles ? { roles: options.roles } : {}) };
+          return jwt.sign(payload, this.secretKey, { expiresIn: this.tokenExpiry });
      }
 
      /**
-      * Verifies the provided JWT token and retrieves the associated username.
+      * Verifies the provided JWT token and retrieves the associated principal.
       *
       * @param {string} token - The JWT token to verify.
-      * @returns {string | null} - The username if the token is valid, or null if invalid.
+      * @returns {IPrincipal | null} - The principal if the token is valid, or null if invalid.
       */
-     verifyToken(token: string): string | null {
+     verifyToken(token: string): IPrincipal | null {
           try {
-               const decoded = jwt.verify(token, this.secretKey) as { username: string };
-               return decoded.username;
+               const principal = this.jwtStrategy.verify(token);
+               return this.isListed(principal) ? null : principal;
           } catch {
                return null;
           }
      }
+
+     /**
+      * Authenticates an upgrade request with the configured strategies, in order.
+      *
+      * The first strategy that recognizes credentials in the request decides the outcome. Requests
+      * that no strategy recognizes are anonymous. Revoked tokens fail authentication.
+      *
+      * @param {IncomingMessage} request - The HTTP upgrade request.
+      * @returns {Promise<IPrincipal | null>} - The authenticated principal, or null for anonymous requests.
+      * @throws {AuthenticationError} - If the credentials are invalid, or missing while anonymous requests are not allowed.
+      */
+     async authenticate(request: IncomingMessage): Promise<IPrincipal | null> {
+          for (const strategy of this.strategies) {
+               const principal = await strategy.authenticate(request);
+               if (principal) {
+                    return this.assertNotRevoked(principal);
+               }
+          }
+
+          if (this.config.auth?.allowAnonymous === false) {
+               throw new AuthenticationError('Authentication required');
+          }
+          return null;
+     }
+
+     /**
+      * Verifies a token sent by a connected client to re-authenticate.
+      *
+      * The token is verified by the first strategy able to verify tokens that accepts it.
+      *
+      * @param {string} token - The fresh token.
+      * @param {IncomingMessage} request - The HTTP upgrade request of the connection.
+      * @returns {Promise<IPrincipal>} - The principal of the token.
+      * @throws {AuthenticationError} - If no strategy accepts the token, or the token has been revoked.
+      */
+     async reauthenticate(token: string, request: IncomingMessage): Promise<IPrincipal> {
+          let failure = new AuthenticationError('Re-authentication is not supported');
+
+          for (const strategy of this.strategies) {
+               if (!strategy.verify) {
+                    continue;
+               }
+
+               try {
+                    const principal = await strategy.verify(token, request);
+                    return this.assertNotRevoked(principal);
+               } catch (error) {
+                    if (!(error instanceof AuthenticationError)) {
+                         throw error;
+                    }
+                    failure = error;
+               }
+          }
+
+          throw failure;
+     }
+
+     /**
+      * Adds a token to the deny-list.
+      *
+      * Tokens are listed until they expire, or for as long as the process runs if no expiry is given.
+      *
+      * @param {string} jti - The `jti` (JWT ID) claim of the token.
+      * @param {number} [expiresAt=Infinity] - When the token expires, in milliseconds since the epoch.
+      */
+     revokeToken(jti: string, expiresAt: number = Infinity): void {
+          const now = Date.now();
+          this.revoked.forEach((until, id) => {
+               if (until <= now) {
+                    this.revoked.delete(id);
+               }
+          });
+          this.revoked.set(jti, expiresAt);
+     }
+
+     /**
+      * Checks whether the token of a principal has been revoked, in the deny-list or by the
+      * configured revocation check.
+      *
+      * @param {IPrincipal} principal - The principal of the token.
+      * @returns {Promise<boolean>} - True if the token has been revoked.
+      */
+     async isRevoked(principal: IPrincipal): Promise<boolean> {
+          const jti = principal.claims.jti;
+          if (typeof jti !== 'string') {
+               return false;
+          }
+          if (this.isListed(principal)) {
+               return true;
+          }
+          return this.config.auth?.isRevoked ? (await this.config.auth.isRevoked(jti, principal)) === true : false;
+     }
+
+     /**
+      * Checks whether the token of a principal is in the deny-list.
+      *
+      * @private
+      * @param {IPrincipal} principal - The principal of the token.
+      * @returns {boolean} - True if the token is listed.
+      */
+     private isListed(principal: IPrincipal): boolean {
+          const until = this.revoked.get(principal.claims.jti);
+          return until !== undefined && until > Date.now();
+     }
+
+     /**
+      * Rejects the principal of a revoked token.
+      *
+      * @private
+      * @param {IPrincipal} principal - The principal of the token.
+      * @returns {Promise<IPrincipal>} - The principal, if its token has not been revoked.
+      * @throws {AuthenticationError} - If the token has been revoked.
+      */
+     private async assertNotRevoked(principal: IPrincipal): Promise<IPrincipal> {
+          if (await this.isRevoked(principal)) {
+               throw new AuthenticationError('Token has been revoked');
+          }
+          return principal;
+     }
 }
@@ -0,0 +1,80 @@
+import { injectable, inject } from 'inversify';
+
+import { IAuthorizationService } from '../interfaces/IAuthorizationService';
+import { IAccessRequest, AccessPolicy } from '../interfaces/IAuthorizationOptions';
+import { IConfig } from '../interfaces/IConfig';
+import { TYPES } from '../config/types';
+import { User } from '../model/User';
+
+/**
+ * The key of the policy applying to events and rooms that have none of their own.
+ */
+const WILDCARD = '*';
+
+/**
+ * AuthorizationService: A service class checking attempts against role-based access policies.
+ *
+ * This service implements the `IAuthorizationService` interface. Policies are looked up by the
+ * action and target of an attempt; attempts without a policy are allowed, so that authorization
+ * only restricts what is explicitly configured.
+ *
+ * ## Dependencies:
+ * - **IConfig**: Supplies the access policies.
+ *
+ * ## Responsibilities:
+ * - Find the policy of an event, room or broadcast, falling back to the wildcard policy.
+ * - Evaluate declarative rules against the roles and permissions of a user.
+ * - Run access check functions.
+ */
+@injectable()
+export class AuthorizationService implements IAuthorizationService {
+     /**
+      * Constructor: Initializes the AuthorizationService with the configured access policies.
+      *
+      * @param {IConfig} config - The configuration object providing the access policies.
+      */
+     constructor(@inject(TYPES.IConfig) private config: IConfig) { }
+
+     /**
+      * Checks whether a user is granted an attempt.
+      *
+      * @param {User} user - The user making the attempt.
+      * @param {IAccessRequest} request - The attempt.
+      * @returns {Promise<boolean>} - True if the attempt is allowed.
+      */
+     async authorize(user: User, request: IAccessRequest): Promise<boolean> {
+          const policy = this.findPolicy(request);
+          if (!policy) {
+               return true;
+          }
+
+          if (typeof policy === 'function') {
+               return (await policy(user, request)) === true;
+          }
+
+          const { roles, permissions } = policy;
+          if (roles && roles.length > 0 && !roles.some(role => user.hasRole(role))) {
+               return false;
+          }
+          return (permissions ?? []).every(permission => user.hasPermission(permission));
+     }
+
+     /**
+      * Finds the policy applying to an attempt.
+      *
+      * @private
+      * @param {IAccessRequest} request - The attempt.
+      * @returns {AccessPolicy | undefined} - The policy, or undefined if the attempt has none.
+      */
+     private findPolicy({ action, target }: IAccessRequest): AccessPolicy | undefined {
+          const options = this.config.authorization ?? {};
+          switch (action) {
+               case 'event':
+                    return options.events?.[target] ?? options.events?.[WILDCARD];
+               case 'room':
+                    return options.rooms?.[target] ?? options.rooms?.[WILDCARD];
+               case 'broadcast':
+                    return options.broadcast;
+          }
+     }
+}
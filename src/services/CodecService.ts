@@ -0,0 +1,80 @@
+import { injectable, inject } from 'inversify';
+
+import { ICodec, ICodecService } from '../interfaces/ICodec';
+import { IConfig } from '../interfaces/IConfig';
+import { TYPES } from '../config/types';
+import { JsonCodec } from '../codecs/JsonCodec';
+import { MessagePackCodec } from '../codecs/MessagePackCodec';
+
+/**
+ * The subprotocol of the codec used by connections that do not negotiate one.
+ */
+const DEFAULT_CODEC = 'json';
+
+/**
+ * CodecService: A service class negotiating the codec of each connection.
+ *
+ * This service implements the `ICodecService` interface. The JSON and MessagePack codecs are
+ * always available; configured codecs are added to them and may replace them. Connections that
+ * do not negotiate a subprotocol use the `json` codec.
+ *
+ * ## Dependencies:
+ * - **IConfig**: Supplies the additional codecs.
+ *
+ * ## Responsibilities:
+ * - Keep the available codecs by subprotocol.
+ * - Pick the subprotocol of each connection from those the client offers.
+ */
+@injectable()
+export class CodecService implements ICodecService {
+     /**
+      *
+      * @private
+      * @type {Map<string, ICodec>}
+      * @memberof CodecService
+      */
+     private codecs: Map<string, ICodec> = new Map();
+
+     /**
+      * Constructor: Initializes the CodecService with the built-in and configured codecs.
+      *
+      * @param {IConfig} config - The configuration object providing additional codecs.
+      */
+     constructor(@inject(TYPES.IConfig) config: IConfig) {
+          [new JsonCodec(), new MessagePackCodec(), ...(config.codecs ?? [])].forEach(codec => this.register(codec));
+     }
+
+     /**
+      * Makes a codec available for negotiation, replacing any codec with the same name.
+      *
+      * @param {ICodec} codec - The codec to register.
+      */
+     register(codec: ICodec): void {
+          this.codecs.set(codec.name, codec);
+     }
+
+     /**
+      * Picks the first subprotocol offered by the client that has a codec.
+      *
+      * @param {Set<string>} protocols - The subprotocols offered by the client.
+      * @returns {string | false} - The chosen subprotocol, or false if none has a codec.
+      */
+     negotiate(protocols: Set<string>): string | false {
+          for (const protocol of protocols) {
+               if (this.codecs.has(protocol)) {
+                    return protocol;
+               }
+          }
+          return false;
+     }
+
+     /**
+      * Retrieves the codec of a negotiated subprotocol.
+      *
+      * @param {string} [protocol] - The subprotocol of the connection.
+      * @returns {ICodec} - Its codec, or the JSON codec if no subprotocol was negotiated.
+      */
+     get(protocol?: string): ICodec {
+          return this.codecs.get(protocol || DEFAULT_CODEC) ?? this.codecs.get(DEFAULT_CODEC)!;
+     }
+}
@@ -0,0 +1,70 @@
+import { injectable } from 'inversify';
+
+import { IEventRouter, IEventContext, EventHandler } from '../interfaces/IEventRouter';
+
+/**
+ * EventRouter: A service class for dispatching incoming messages by event type.
+ *
+ * This service implements the `IEventRouter` interface and keeps one handler per event name.
+ * Handlers may be synchronous or asynchronous; dispatching always returns a promise so that
+ * callers can handle both uniformly.
+ *
+ * ## Responsibilities:
+ * - Register and remove event handlers.
+ * - Invoke the handler for an event with the message payload and context.
+ */
+@injectable()
+export class EventRouter implements IEventRouter {
+     /**
+      *
+      * @private
+      * @type {Map<string, EventHandler>}
+      * @memberof EventRouter
+      */
+     private handlers: Map<string, EventHandler> = new Map();
+
+     /**
+      * Registers the handler for an event, replacing any existing handler.
+      *
+      * @param {string} event - The event name.
+      * @param {EventHandler} handler - The handler to invoke for the event.
+      */
+     on(event: string, handler: EventHandler): void {
+          this.handlers.set(event, handler);
+     }
+
+     /**
+      * Removes the handler for an event.
+      *
+      * @param {string} event - The event name.
+      */
+     off(event: string): void {
+          this.handlers.delete(event);
+     }
+
+     /**
+      * Checks whether an event has a handler.
+      *
+      * @param {string} event - The event name.
+      * @returns {boolean} - True if a handler is registered for the event, false otherwise.
+      */
+     has(event: string): boolean {
+          return this.handlers.has(event);
+     }
+
+     /**
+      * Invokes the handler for an event.
+      *
+      * @param {string} event - The event name.
+      * @param {IEventContext} context - The context of the incoming message.
+      * @returns {Promise<unknown>} - Resolves with the handler's return value, or rejects with the error it threw.
+      */
+     async dispatch(event: string, context: IEventContext): Promise<unknown> {
+          const handler = this.handlers.get(event);
+          if (!handler) {
+               throw new Error(`No handler registered for event: ${event}`);
+          }
+
+          return handler(context.message.content, context);
+     }
+}
@@ -1,26 +1,40 @@
 import { injectable, inject } from 'inversify';
 
-import { ILogger } from '../interfaces/ILogger';
+import { ILogger, ILogTransport, LogLevel, LogFields } from '../interfaces/ILogger';
 import { TYPES } from '../config/types';
 import { IConfig } from '../interfaces/IConfig';
+import { ConsoleTransport } from '../transports/ConsoleTransport';
+import { JsonLineTransport } from '../transports/JsonLineTransport';
+
+/**
+ * Numeric severity of each log level, used for level filtering.
+ */
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+     debug: 10,
+     info: 20,
+     warn: 30,
+     error: 40,
+};
 
 /**
  * LoggerService: A service class for managing application logging.
  *
- * This service implements the `ILogger` interface and provides methods for logging errors,
- * warnings, and general informational messages. The logging functionality can be controlled
- * through the configuration to enable or disable logging.
+ * This service implements the `ILogger` interface and provides leveled, structured logging.
+ * Entries below the configured level are discarded; the others are handed to every
+ * configured transport.
  *
  * ## Dependencies:
- * - **IConfig**: Supplies configuration settings, including the `enableLogging` flag.
+ * - **IConfig**: Supplies the `logging` settings and the `enableLogging` flag.
  *
  * ## Responsibilities:
- * - Logs error messages unconditionally.
- * - Logs warnings and informational messages conditionally, based on the `enableLogging` flag.
+ * - Filter entries by level. When `enableLogging` is `false` and no level is configured,
+ *   only errors are logged.
+ * - Build structured entries and write them to the configured transports.
  */
 @injectable()
 export class LoggerService implements ILogger {
-     private enableLogging: boolean;
+     private minSeverity: number;
+     private transports: ILogTransport[];
 
      /**
       * Constructor: Initializes the LoggerService with configuration settings.
@@ -28,37 +42,83 @@ export class LoggerService implements ILogger {
       * @param {IConfig} config - The configuration object providing logging settings.
       */
      constructor(@inject(TYPES.IConfig) private config: IConfig) {
-          this.enableLogging = this.config.enableLogging ?? true;
+          const enableLogging = this.config.enableLogging ?? true;
+          const { level = enableLogging ? 'info' : 'error', format = 'text', transports } = this.config.logging ?? {};
+
+          this.minSeverity = LEVEL_SEVERITY[level];
+          this.transports = transports ?? [format === 'json' ? new JsonLineTransport() : new ConsoleTransport()];
      }
 
      /**
       * Logs an error message.
       *
       * @param {string} message - The error message to log.
+      * @param {LogFields} [fields] - Structured fields attached to the entry.
       */
-     error(message: string): void {
-          console.error(`[WS ERROR]: ${message}`);
+     error(message: string, fields?: LogFields): void {
+          this.write('error', message, fields);
      }
 
      /**
-      * Logs a warning message if logging is enabled.
+      * Logs a warning message.
       *
       * @param {string} message - The warning message to log.
+      * @param {LogFields} [fields] - Structured fields attached to the entry.
       */
-     warn(message: string): void {
-          if (this.enableLogging) {
-               console.warn(`[WS WARN]: ${message}`);
-          }
+     warn(message: string, fields?: LogFields): void {
+          this.write('warn', message, fields);
+     }
+
+     /**
+      * Logs an informational message.
+      *
+      * @param {string} message - The message to log.
+      * @param {LogFields} [fields] - Structured fields attached to the entry.
+      */
+     info(message: string, fields?: LogFields): void {
+          this.write('info', message, fields);
      }
 
      /**
-      * Logs an informational message if logging is enabled.
+      * Logs a diagnostic message.
       *
       * @param {string} message - The message to log.
+      * @param {LogFields} [fields] - Structured fields attached to the entry.
       */
-     log(message: string): void {
-          if (this.enableLogging) {
-               console.log(`[WS LOG]: ${message}`);
+     debug(message: string, fields?: LogFields): void {
+          this.write('debug', message, fields);
+     }
+
+     /**
+      * Logs an informational message. Alias of `info`.
+      *
+      * @param {string} message - The message to log.
+      * @param {LogFields} [fields] - Structured fields attached to the entry.
+      */
+     log(message: string, fields?: LogFields): void {
+          this.write('info', message, fields);
+     }
+
+     /**
+      * Writes an entry to every transport if its level passes the filter.
+      *
+      * @private
+      * @param {LogLevel} level - The severity of the entry.
+      * @param {string} message - The log message.
+      * @param {LogFields} [fields] - Structured fields attached to the entry.
+      */
+     private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+          if (LEVEL_SEVERITY[level] < this.minSeverity) {
+               return;
           }
+
+          const entry = { level, message, timestamp: new Date().toISOString(), fields };
+          this.transports.forEach(transport => {
+               try {
+                    transport.write(entry);
+               } catch (error) {
+                    console.error(`[WS ERROR]: Log transport failed: ${(error as Error).message}`);
+               }
+          });
      }
 }
@@ -0,0 +1,108 @@
+import { injectable, inject } from 'inversify';
+
+import { IMetricsService, ICounter, IGauge, IHistogram } from '../interfaces/IMetricsService';
+import { IConfig } from '../interfaces/IConfig';
+import { TYPES } from '../config/types';
+import { Metric } from '../metrics/Metric';
+import { Counter } from '../metrics/Counter';
+import { Gauge } from '../metrics/Gauge';
+import { Histogram } from '../metrics/Histogram';
+
+/**
+ * MetricsService: A service class for collecting metrics.
+ *
+ * This service implements the `IMetricsService` interface and keeps a registry of counters,
+ * gauges and histograms, rendered in the Prometheus text exposition format.
+ *
+ * ## Dependencies:
+ * - **IConfig**: Supplies the metric name prefix and default histogram buckets.
+ *
+ * ## Responsibilities:
+ * - Create metrics once per name and hand out the existing metric on later requests.
+ * - Render every metric for the metrics endpoint.
+ */
+@injectable()
+export class MetricsService implements IMetricsService {
+     /**
+      *
+      * @private
+      * @type {Map<string, Metric<unknown>>}
+      * @memberof MetricsService
+      */
+     private metrics: Map<string, Metric<unknown>> = new Map();
+
+     private prefix: string;
+     private buckets: number[];
+
+     /**
+      * Constructor: Initializes the MetricsService with configuration settings.
+      *
+      * @param {IConfig} config - The configuration object providing metrics settings.
+      */
+     constructor(@inject(TYPES.IConfig) private config: IConfig) {
+          this.prefix = this.config.metrics?.prefix ?? 'ws_';
+          this.buckets = this.config.metrics?.buckets ?? [0.0005, 0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1];
+     }
+
+     /**
+      * Creates a counter, or retrieves it if a metric with the same name exists.
+      *
+      * @param {string} name - The metric name, without prefix.
+      * @param {string} help - A description of the metric.
+      * @returns {ICounter} - The counter.
+      */
+     counter(name: string, help: string): ICounter {
+          return this.register(name, () => new Counter(this.prefix + name, help));
+     }
+
+     /**
+      * Creates a gauge, or retrieves it if a metric with the same name exists.
+      *
+      * @param {string} name - The metric name, without prefix.
+      * @param {string} help - A description of the metric.
+      * @returns {IGauge} - The gauge.
+      */
+     gauge(name: string, help: string): IGauge {
+          return this.register(name, () => new Gauge(this.prefix + name, help));
+     }
+
+     /**
+      * Creates a histogram, or retrieves it if a metric with the same name exists.
+      *
+      * @param {string} name - The metric name, without prefix.
+      * @param {string} help - A description of the metric.
+      * @param {number[]} [buckets] - Upper bounds of the buckets. Defaults to the configured buckets.
+      * @returns {IHistogram} - The histogram.
+      */
+     histogram(name: string, help: string, buckets: number[] = this.buckets): IHistogram {
+          return this.register(name, () => new Histogram(this.prefix + name, help, buckets));
+     }
+
+     /**
+      * Renders every metric in the Prometheus text exposition format.
+      *
+      * @returns {string} - The exposition text.
+      */
+     render(): string {
+          const lines: string[] = [];
+          this.metrics.forEach(metric => lines.push(...metric.render()));
+          return `${lines.join('\n')}\n`;
+     }
+
+     /**
+      * Retrieves a metric by name, creating it if it does not exist.
+      *
+      * @private
+      * @param {string} name - The metric name, without prefix.
+      * @param {Function} create - Creates the metric.
+      * @returns {T} - The metric.
+      */
+     private register<T extends Metric<unknown>>(name: string, create: () => T): T {
+          let metric = this.metrics.get(name);
+          if (!metric) {
+               metric = create();
+               this.metrics.set(name, metric);
+          }
+          return metric as T;
+     }
+}
@@ -0,0 +1,110 @@
+import { injectable } from 'inversify';
+
+import {
+     IMiddlewareService,
+     IHandshakeContext,
+     HandshakeMiddleware,
+     MessageMiddleware,
+     Middleware,
+     MiddlewareStage,
+} from '../interfaces/IMiddleware';
+import { IEventContext } from '../interfaces/IEventRouter';
+
+/**
+ * MiddlewareService: A service class running the handshake and message middleware chains.
+ *
+ * This service implements the `IMiddlewareService` interface. Middleware runs in the order it
+ * was added, express-style: each one receives the context and a `next()` function that runs the
+ * rest of the chain and resolves once it has finished.
+ *
+ * ## Responsibilities:
+ * - Keep one middleware chain per stage.
+ * - Run a chain, reporting whether it ran to the end or was stopped or rejected.
+ */
+@injectable()
+export class MiddlewareService implements IMiddlewareService {
+     /**
+      *
+      * @private
+      * @type {HandshakeMiddleware[]}
+      * @memberof MiddlewareService
+      */
+     private handshake: HandshakeMiddleware[] = [];
+
+     /**
+      *
+      * @private
+      * @type {MessageMiddleware[]}
+      * @memberof MiddlewareService
+      */
+     private message: MessageMiddleware[] = [];
+
+     /**
+      * Appends middleware to the chain of a stage.
+      *
+      * @param {MiddlewareStage} stage - The stage to run the middleware at.
+      * @param {Middleware} middleware - The middleware to append.
+      */
+     use(stage: 'handshake', middleware: HandshakeMiddleware): void;
+     use(stage: 'message', middleware: MessageMiddleware): void;
+     use(stage: MiddlewareStage, middleware: HandshakeMiddleware | MessageMiddleware): void {
+          if (stage === 'handshake') {
+               this.handshake.push(middleware as HandshakeMiddleware);
+          } else {
+               this.message.push(middleware as MessageMiddleware);
+          }
+     }
+
+     /**
+      * Runs the handshake chain for an upgrade request.
+      *
+      * @param {IHandshakeContext} context - The context of the upgrade request.
+      * @returns {Promise<boolean>} - True if every middleware called `next()`, false otherwise.
+      */
+     runHandshake(context: IHandshakeContext): Promise<boolean> {
+          return this.run(this.handshake, context);
+     }
+
+     /**
+      * Runs the message chain for an inbound message.
+      *
+      * @param {IEventContext} context - The context of the message.
+      * @returns {Promise<boolean>} - True if every middleware called `next()`, false otherwise.
+      */
+     runMessage(context: IEventContext): Promise<boolean> {
+          return this.run(this.message, context);
+     }
+
+     /**
+      * Runs a chain of middleware. Middleware added while the chain runs only applies to later runs.
+      *
+      * @private
+      * @param {Middleware<T>[]} chain - The middleware to run, in order.
+      * @param {T} context - The context passed to every middleware.
+      * @returns {Promise<boolean>} - True if every middleware called `next()`, false otherwise.
+      * @throws {Error} - If a middleware throws, or calls `next()` more than once.
+      */
+     private async run<T>(chain: Middleware<T>[], context: T): Promise<boolean> {
+          const stack = [...chain];
+          let index = -1;
+          let completed = false;
+
+          const dispatch = async (position: number): Promise<void> => {
+               if (position <= index) {
+                    throw new Error('next() called multiple times');
+               }
+               index = position;
+
+               const middleware = stack[position];
+               if (!middleware) {
+                    completed = true;
+                    return;
+               }
+
+               await middleware(context, () => dispatch(position + 1));
+          };
+
+          await dispatch(0);
+          return completed;
+     }
+}
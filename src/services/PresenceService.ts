@@ -0,0 +1,195 @@
+import { injectable, inject } from 'inversify';
+
+import { IPresenceService, IPresence, PresenceChangeType, PresenceListener } from '../interfaces/IPresenceService';
+import { IConfig } from '../interfaces/IConfig';
+import { TYPES } from '../config/types';
+
+/**
+ * The default number of milliseconds a user stays online after their last connection closes.
+ */
+const DEFAULT_GRACE_PERIOD = 5000;
+
+/**
+ * Entry: The connections, status and grace timer of an online user.
+ */
+interface Entry {
+     connections: number;
+     status: Record<string, any>;
+     since: number;
+     graceTimer?: NodeJS.Timeout;
+}
+
+/**
+ * PresenceService: A service class tracking which users are online.
+ *
+ * This service implements the `IPresenceService` interface. A user is online from their first
+ * connection until their last connection has been closed for the grace period; reconnecting
+ * within the grace period keeps them online without notifying listeners.
+ *
+ * ## Dependencies:
+ * - **IConfig**: Supplies the grace period.
+ *
+ * ## Responsibilities:
+ * - Count the open connections of each user.
+ * - Keep the status metadata of online users.
+ * - Notify listeners when users come online, go offline or change their status.
+ */
+@injectable()
+export class PresenceService implements IPresenceService {
+     /**
+      *
+      * @private
+      * @type {Map<string, Entry>}
+      * @memberof PresenceService
+      */
+     private entries: Map<string, Entry> = new Map();
+
+     /**
+      *
+      * @private
+      * @type {PresenceListener[]}
+      * @memberof PresenceService
+      */
+     private listeners: PresenceListener[] = [];
+
+     /**
+      * Constructor: Initializes the PresenceService with configuration settings.
+      *
+      * @param {IConfig} config - The configuration object providing the grace period.
+      */
+     constructor(@inject(TYPES.IConfig) private config: IConfig) { }
+
+     /**
+      * Records a new connection of a user, bringing them online if they were not.
+      *
+      * @param {string} user - The username.
+      */
+     connect(user: string): void {
+          const entry = this.entries.get(user);
+          if (entry) {
+               clearTimeout(entry.graceTimer);
+               entry.graceTimer = undefined;
+               entry.connections++;
+               return;
+          }
+
+          const created: Entry = { connections: 1, status: {}, since: Date.now() };
+          this.entries.set(user, created);
+          this.emit('online', user, created);
+     }
+
+     /**
+      * Records a closed connection of a user. Once their last connection has been closed for the
+      * grace period, the user goes offline.
+      *
+      * @param {string} user - The username.
+      */
+     disconnect(user: string): void {
+          const entry = this.entries.get(user);
+          if (!entry || entry.connections === 0) {
+               return;
+          }
+
+          entry.connections--;
+          if (entry.connections > 0) {
+               return;
+          }
+
+          const gracePeriod = this.config.presence?.gracePeriod ?? DEFAULT_GRACE_PERIOD;
+          if (gracePeriod <= 0) {
+               this.goOffline(user, entry);
+               return;
+          }
+          entry.graceTimer = setTimeout(() => this.goOffline(user, entry), gracePeriod);
+          entry.graceTimer.unref();
+     }
+
+     /**
+      * Replaces the status metadata of an online user.
+      *
+      * @param {string} user - The username.
+      * @param {Record<string, any>} status - The new status metadata.
+      * @returns {IPresence | null} - The presence of the user, or null if they are offline.
+      */
+     setStatus(user: string, status: Record<string, any>): IPresence | null {
+          const entry = this.entries.get(user);
+          if (!entry) {
+               return null;
+          }
+
+          entry.status = status;
+          return this.emit('status', user, entry);
+     }
+
+     /**
+      * Retrieves the presence of a user.
+      *
+      * @param {string} user - The username.
+      * @returns {IPresence | null} - The presence of the user, or null if they are offline.
+      */
+     get(user: string): IPresence | null {
+          const entry = this.entries.get(user);
+          return entry ? this.toPresence(user, entry) : null;
+     }
+
+     /**
+      * Lists the presence of every online user.
+      *
+      * @returns {IPresence[]} - The presence of the online users.
+      */
+     getOnlineUsers(): IPresence[] {
+          return Array.from(this.entries, ([user, entry]) => this.toPresence(user, entry));
+     }
+
+     /**
+      * Registers a listener for presence changes.
+      *
+      * @param {PresenceListener} listener - The listener.
+      */
+     onChange(listener: PresenceListener): void {
+          this.listeners.push(listener);
+     }
+
+     /**
+      * Takes a user offline once their grace period has elapsed.
+      *
+      * @private
+      * @param {string} user - The username.
+      * @param {Entry} entry - The presence entry of the user.
+      */
+     private goOffline(user: string, entry: Entry): void {
+          if (this.entries.get(user) !== entry || entry.connections > 0) {
+               return;
+          }
+
+          this.entries.delete(user);
+          this.emit('offline', user, entry);
+     }
+
+     /**
+      * Notifies the listeners of a presence change.
+      *
+      * @private
+      * @param {PresenceChangeType} type - What changed.
+      * @param {string} user - The username.
+      * @param {Entry} entry - The presence entry of the user.
+      * @returns {IPresence} - The presence of the user after the change.
+      */
+     private emit(type: PresenceChangeType, user: string, entry: Entry): IPresence {
+          const presence = this.toPresence(user, entry);
+          this.listeners.forEach(listener => listener({ type, presence }));
+          return presence;
+     }
+
+     /**
+      * Creates the presence snapshot of a user.
+      *
+      * @private
+      * @param {string} user - The username.
+      * @param {Entry} entry - The presence entry of the user.
+      * @returns {IPresence} - The presence of the user.
+      */
+     private toPresence(user: string, entry: Entry): IPresence {
+          return { user, connections: entry.connections, status: entry.status, since: entry.since };
+     }
+}
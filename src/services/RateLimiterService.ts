@@ -0,0 +1,145 @@
+import { injectable } from 'inversify';
+
+import { IRateLimiter, IRateLimitResult } from '../interfaces/IRateLimiter';
+import { IRateLimitPolicy } from '../interfaces/IRateLimitOptions';
+
+/**
+ * How long a bucket that does not refill is kept after it was last used, in milliseconds.
+ */
+const IDLE_BUCKET_TTL = 60 * 60 * 1000;
+
+/**
+ * The minimum time between two sweeps of expired buckets, in milliseconds.
+ */
+const SWEEP_INTERVAL = 60 * 1000;
+
+/**
+ * Bucket: The tokens left in a bucket, when they were last counted, and when the bucket may be discarded.
+ */
+interface Bucket {
+     tokens: number;
+     updatedAt: number;
+     expiresAt: number;
+}
+
+/**
+ * RateLimiterService: A service class implementing token bucket rate limits in memory.
+ *
+ * This service implements the `IRateLimiter` interface. Buckets are refilled lazily: the tokens
+ * regained since a bucket was last used are added when it is used again. A bucket that has
+ * refilled completely is no different from a new one, so it is discarded; buckets that do not
+ * refill are discarded after an hour without use. Expired buckets are swept at most once a
+ * minute, as keys are consumed.
+ *
+ * ## Responsibilities:
+ * - Create a full bucket the first time a key is used.
+ * - Refill buckets according to their policy and take one token per message.
+ * - Report how long a client has to wait before its next message is allowed.
+ * - Discard buckets once they have expired.
+ */
+@injectable()
+export class RateLimiterService implements IRateLimiter {
+     /**
+      *
+      * @private
+      * @type {Map<string, Bucket>}
+      * @memberof RateLimiterService
+      */
+     private buckets: Map<string, Bucket> = new Map();
+
+     /**
+      * When expired buckets were last swept.
+      *
+      * @private
+      * @type {number}
+      * @memberof RateLimiterService
+      */
+     private sweptAt: number = Date.now();
+
+     /**
+      * The number of buckets held in memory.
+      *
+      * @type {number}
+      */
+     get size(): number {
+          return this.buckets.size;
+     }
+
+     /**
+      * Takes a token from a bucket, creating a full bucket if it does not exist yet.
+      *
+      * @param {string} key - The identifier of the bucket.
+      * @param {IRateLimitPolicy} policy - The capacity and refill rate of the bucket.
+      * @returns {IRateLimitResult} - Whether a token was available.
+      */
+     consume(key: string, policy: IRateLimitPolicy): IRateLimitResult {
+          const now = Date.now();
+          this.sweep(now);
+
+          let bucket = this.buckets.get(key);
+          if (!bucket || bucket.expiresAt <= now) {
+               bucket = { tokens: policy.capacity, updatedAt: now, expiresAt: now };
+               this.buckets.set(key, bucket);
+          }
+
+          const elapsed = (now - bucket.updatedAt) / 1000;
+          bucket.tokens = Math.min(policy.capacity, bucket.tokens + elapsed * policy.refillPerSecond);
+          bucket.updatedAt = now;
+
+          if (bucket.tokens < 1) {
+               bucket.expiresAt = this.expiresAt(bucket, policy);
+               const retryAfter = policy.refillPerSecond > 0
+                    ? Math.ceil(((1 - bucket.tokens) / policy.refillPerSecond) * 1000)
+                    : IDLE_BUCKET_TTL;
+               return { allowed: false, remaining: 0, retryAfter };
+          }
+
+          bucket.tokens -= 1;
+          bucket.expiresAt = this.expiresAt(bucket, policy);
+          return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+     }
+
+     /**
+      * Discards a bucket.
+      *
+      * @param {string} key - The identifier of the bucket.
+      */
+     reset(key: string): void {
+          this.buckets.delete(key);
+     }
+
+     /**
+      * Computes when a bucket may be discarded: once it has refilled completely, or, if it does
+      * not refill, once it has not been used for an hour.
+      *
+      * @private
+      * @param {Bucket} bucket - The bucket, just counted.
+      * @param {IRateLimitPolicy} policy - The capacity and refill rate of the bucket.
+      * @returns {number} - The expiry time, in milliseconds since the epoch.
+      */
+     private expiresAt(bucket: Bucket, policy: IRateLimitPolicy): number {
+          if (policy.refillPerSecond <= 0) {
+               return bucket.updatedAt + IDLE_BUCKET_TTL;
+          }
+          return bucket.updatedAt + Math.ceil(((policy.capacity - bucket.tokens) / policy.refillPerSecond) * 1000);
+     }
+
+     /**
+      * Discards the expired buckets, unless they were swept less than a minute ago.
+      *
+      * @private
+      * @param {number} now - The current time, in milliseconds since the epoch.
+      */
+     private sweep(now: number): void {
+          if (now - this.sweptAt < SWEEP_INTERVAL) {
+               return;
+          }
+
+          this.sweptAt = now;
+          this.buckets.forEach((bucket, key) => {
+               if (bucket.expiresAt <= now) {
+                    this.buckets.delete(key);
+               }
+          });
+     }
+}
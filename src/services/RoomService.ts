@@ -0,0 +1,140 @@
+import { injectable, inject } from 'inversify';
+
+import { WebSocket } from 'ws';
+
+import { IRoomService } from '../interfaces/IRoomService';
+import { ILogger } from '../interfaces/ILogger';
+import { TYPES } from '../config/types';
+
+/**
+ * RoomService: A service class for managing named rooms.
+ *
+ * This service implements the `IRoomService` interface and keeps a two-way index between
+ * rooms and their member clients, so that both room-scoped broadcasts and per-client
+ * cleanup on disconnect are cheap lookups.
+ *
+ * ## Dependencies:
+ * - **ILogger**: Used for logging room creation and removal.
+ *
+ * ## Responsibilities:
+ * - Create rooms on first join and remove them once their last member leaves.
+ * - Track which rooms each client belongs to.
+ */
+@injectable()
+export class RoomService implements IRoomService {
+     /**
+      *
+      * @private
+      * @type {Map<string, Set<WebSocket>>}
+      * @memberof RoomService
+      */
+     private rooms: Map<string, Set<WebSocket>> = new Map();
+
+     /**
+      *
+      * @private
+      * @type {Map<WebSocket, Set<string>>}
+      * @memberof RoomService
+      */
+     private memberships: Map<WebSocket, Set<string>> = new Map();
+
+     /**
+      * Constructor: Initializes the RoomService with a logger dependency.
+      *
+      * @param {ILogger} logger - The logger service for logging operations.
+      */
+     constructor(@inject(TYPES.ILogger) private logger: ILogger) { }
+
+     /**
+      * Adds a client to a room, creating the room if it does not exist yet.
+      *
+      * @param {WebSocket} ws - The client joining the room.
+      * @param {string} room - The name of the room.
+      */
+     join(ws: WebSocket, room: string): void {
+          let members = this.rooms.get(room);
+          if (!members) {
+               members = new Set();
+               this.rooms.set(room, members);
+               this.logger.debug('Room created', { room });
+          }
+          members.add(ws);
+
+          let rooms = this.memberships.get(ws);
+          if (!rooms) {
+               rooms = new Set();
+               this.memberships.set(ws, rooms);
+          }
+          rooms.add(room);
+     }
+
+     /**
+      * Removes a client from a room, deleting the room once it is empty.
+      *
+      * @param {WebSocket} ws - The client leaving the room.
+      * @param {string} room - The name of the room.
+      * @returns {boolean} - True if the client was a member of the room, false otherwise.
+      */
+     leave(ws: WebSocket, room: string): boolean {
+          const members = this.rooms.get(room);
+          if (!members || !members.delete(ws)) {
+               return false;
+          }
+
+          if (members.size === 0) {
+               this.rooms.delete(room);
+               this.logger.debug('Room removed', { room });
+          }
+
+          const rooms = this.memberships.get(ws);
+          rooms?.delete(room);
+          if (rooms && rooms.size === 0) {
+               this.memberships.delete(ws);
+          }
+
+          return true;
+     }
+
+     /**
+      * Removes a client from every room it belongs to.
+      *
+      * @param {WebSocket} ws - The client leaving its rooms.
+      * @returns {string[]} - The names of the rooms the client has left.
+      */
+     leaveAll(ws: WebSocket): string[] {
+          const rooms = this.getRooms(ws);
+          rooms.forEach(room => this.leave(ws, room));
+          return rooms;
+     }
+
+     /**
+      * Retrieves the clients that belong to a room.
+      *
+      * @param {string} room - The name of the room.
+      * @returns {WebSocket[]} - The members of the room, or an empty array if the room does not exist.
+      */
+     getMembers(room: string): WebSocket[] {
+          return Array.from(this.rooms.get(room) ?? []);
+     }
+
+     /**
+      * Retrieves the rooms a client belongs to.
+      *
+      * @param {WebSocket} ws - The client to look up.
+      * @returns {string[]} - The names of the rooms the client belongs to.
+      */
+     getRooms(ws: WebSocket): string[] {
+          return Array.from(this.memberships.get(ws) ?? []);
+     }
+
+     /**
+      * Checks whether a client belongs to a room.
+      *
+      * @param {WebSocket} ws - The client to check.
+      * @param {string} room - The name of the room.
+      * @returns {boolean} - True if the client is a member of the room, false otherwise.
+      */
+     isMember(ws: WebSocket, room: string): boolean {
+          return this.rooms.get(room)?.has(ws) ?? false;
+     }
+}
@@ -0,0 +1,317 @@
+import { injectable, inject } from 'inversify';
+
+import {
+     IMessageValidator,
+     IValidationIssue,
+     JsonSchema,
+     JsonSchemaType,
+     MessageSchema,
+} from '../interfaces/IMessageValidator';
+import { IMessage } from '../interfaces/IMessage';
+import { IConfig } from '../interfaces/IConfig';
+import { TYPES } from '../config/types';
+
+/**
+ * The fields every message shares. Messages are objects whose routing fields, if present, are strings.
+ */
+const ENVELOPE_SCHEMA: JsonSchema = {
+     type: 'object',
+     properties: {
+          type: { type: 'string' },
+          id: { type: 'string' },
+          room: { type: 'string' },
+          to: { type: 'string' },
+     },
+};
+
+/**
+ * ValidationService: A service class for validating incoming messages.
+ *
+ * This service implements the `IMessageValidator` interface. Payloads are checked against a
+ * subset of JSON Schema or against a custom validator function, and every failure is reported
+ * with the path of the failing value so that clients can point at the offending field.
+ *
+ * ## Dependencies:
+ * - **IConfig**: Supplies the schemas registered at startup.
+ *
+ * ## Responsibilities:
+ * - Keep one schema per event name.
+ * - Check the envelope of every message and the payload of messages with a registered schema.
+ */
+@injectable()
+export class ValidationService implements IMessageValidator {
+     /**
+      *
+      * @private
+      * @type {Map<string, MessageSchema>}
+      * @memberof ValidationService
+      */
+     private schemas: Map<string, MessageSchema> = new Map();
+
+     /**
+      * Constructor: Initializes the ValidationService with the configured schemas.
+      *
+      * @param {IConfig} config - The configuration object providing the schemas per event.
+      */
+     constructor(@inject(TYPES.IConfig) config: IConfig) {
+          Object.entries(config.schemas ?? {}).forEach(([event, schema]) => this.register(event, schema));
+     }
+
+     /**
+      * Registers the schema for the payload of an event, replacing any existing schema.
+      *
+      * @param {string} event - The event name.
+      * @param {MessageSchema} schema - The JSON Schema or validator function.
+      */
+     register(event: string, schema: MessageSchema): void {
+          this.schemas.set(event, schema);
+     }
+
+     /**
+      * Removes the schema for the payload of an event.
+      *
+      * @param {string} event - The event name.
+      */
+     unregister(event: string): void {
+          this.schemas.delete(event);
+     }
+
+     /**
+      * Checks the fields every message shares.
+      *
+      * @param {unknown} message - The parsed message.
+      * @returns {IValidationIssue[]} - The reasons the envelope is invalid, or an empty array.
+      */
+     validateEnvelope(message: unknown): IValidationIssue[] {
+          return this.check(ENVELOPE_SCHEMA, message, '');
+     }
+
+     /**
+      * Checks the payload of a message against the schema registered for its event.
+      *
+      * @param {string} event - The event name.
+      * @param {IMessage<any>} message - The message whose `content` is checked.
+      * @returns {IValidationIssue[]} - The reasons the payload is invalid, or an empty array.
+      */
+     validate(event: string, message: IMessage<any>): IValidationIssue[] {
+          const schema = this.schemas.get(event);
+          if (!schema) {
+               return [];
+          }
+
+          try {
+               if (typeof schema !== 'function') {
+                    return this.check(schema, message.content, 'content');
+               }
+
+               const result = schema(message.content, message);
+               if (result === true) {
+                    return [];
+               }
+               return result === false ? [{ path: 'content', message: 'is invalid' }] : result;
+          } catch (error) {
+               return [{ path: 'content', message: (error as Error).message }];
+          }
+     }
+
+     /**
+      * Checks a value against a JSON Schema, descending into object properties and array items.
+      *
+      * @private
+      * @param {JsonSchema} schema - The schema to check against.
+      * @param {unknown} value - The value to check.
+      * @param {string} path - The path of the value within the message.
+      * @returns {IValidationIssue[]} - The reasons the value is invalid, or an empty array.
+      */
+     private check(schema: JsonSchema, value: unknown, path: string): IValidationIssue[] {
+          if (schema.type !== undefined) {
+               const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+               if (!types.some(type => this.hasType(value, type))) {
+                    return [{ path, message: `must be of type ${types.join(' or ')}` }];
+               }
+          }
+
+          if (schema.const !== undefined && !this.isEqual(value, schema.const)) {
+               return [{ path, message: `must be equal to ${JSON.stringify(schema.const)}` }];
+          }
+
+          if (schema.enum && !schema.enum.some(option => this.isEqual(value, option))) {
+               return [{ path, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` }];
+          }
+
+          if (typeof value === 'string') {
+               return this.checkString(schema, value, path);
+          }
+
+          if (typeof value === 'number') {
+               return this.checkNumber(schema, value, path);
+          }
+
+          if (Array.isArray(value)) {
+               return this.checkArray(schema, value, path);
+          }
+
+          if (this.hasType(value, 'object')) {
+               return this.checkObject(schema, value as Record<string, unknown>, path);
+          }
+
+          return [];
+     }
+
+     /**
+      * Checks the length and pattern of a string.
+      *
+      * @private
+      * @param {JsonSchema} schema - The schema to check against.
+      * @param {string} value - The string to check.
+      * @param {string} path - The path of the string within the message.
+      * @returns {IValidationIssue[]} - The reasons the string is invalid, or an empty array.
+      */
+     private checkString(schema: JsonSchema, value: string, path: string): IValidationIssue[] {
+          const issues: IValidationIssue[] = [];
+
+          if (schema.minLength !== undefined && value.length < schema.minLength) {
+               issues.push({ path, message: `must be at least ${schema.minLength} characters long` });
+          }
+          if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+               issues.push({ path, message: `must be at most ${schema.maxLength} characters long` });
+          }
+          if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+               issues.push({ path, message: `must match pattern ${schema.pattern}` });
+          }
+
+          return issues;
+     }
+
+     /**
+      * Checks the range of a number.
+      *
+      * @private
+      * @param {JsonSchema} schema - The schema to check against.
+      * @param {number} value - The number to check.
+      * @param {string} path - The path of the number within the message.
+      * @returns {IValidationIssue[]} - The reasons the number is invalid, or an empty array.
+      */
+     private checkNumber(schema: JsonSchema, value: number, path: string): IValidationIssue[] {
+          const issues: IValidationIssue[] = [];
+
+          if (schema.minimum !== undefined && value < schema.minimum) {
+               issues.push({ path, message: `must be >= ${schema.minimum}` });
+          }
+          if (schema.maximum !== undefined && value > schema.maximum) {
+               issues.push({ path, message: `must be <= ${schema.maximum}` });
+          }
+
+          return issues;
+     }
+
+     /**
+      * Checks the length and items of an array.
+      *
+      * @private
+      * @param {JsonSchema} schema - The schema to check against.
+      * @param {unknown[]} value - The array to check.
+      * @param {string} path - The path of the array within the message.
+      * @returns {IValidationIssue[]} - The reasons the array is invalid, or an empty array.
+      */
+     private checkArray(schema: JsonSchema, value: unknown[], path: string): IValidationIssue[] {
+          const issues: IValidationIssue[] = [];
+
+          if (schema.minItems !== undefined && value.length < schema.minItems) {
+               issues.push({ path, message: `must have at least ${schema.minItems} items` });
+          }
+          if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+               issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+          }
+          if (schema.items) {
+               value.forEach((item, index) => issues.push(...this.check(schema.items!, item, `${path}[${index}]`)));
+          }
+
+          return issues;
+     }
+
+     /**
+      * Checks the required, declared and additional properties of an object.
+      *
+      * @private
+      * @param {JsonSchema} schema - The schema to check against.
+      * @param {Record<string, unknown>} value - The object to check.
+      * @param {string} path - The path of the object within the message.
+      * @returns {IValidationIssue[]} - The reasons the object is invalid, or an empty array.
+      */
+     private checkObject(schema: JsonSchema, value: Record<string, unknown>, path: string): IValidationIssue[] {
+          const issues: IValidationIssue[] = [];
+          const properties = schema.properties ?? {};
+
+          (schema.required ?? []).forEach(key => {
+               if (value[key] === undefined) {
+                    issues.push({ path: this.join(path, key), message: 'is required' });
+               }
+          });
+
+          Object.entries(value).forEach(([key, property]) => {
+               if (property === undefined) {
+                    return;
+               }
+
+               if (Object.prototype.hasOwnProperty.call(properties, key)) {
+                    issues.push(...this.check(properties[key], property, this.join(path, key)));
+               } else if (schema.additionalProperties === false) {
+                    issues.push({ path: this.join(path, key), message: 'is not allowed' });
+               } else if (typeof schema.additionalProperties === 'object') {
+                    issues.push(...this.check(schema.additionalProperties, property, this.join(path, key)));
+               }
+          });
+
+          return issues;
+     }
+
+     /**
+      * Checks whether a value has a JSON Schema type.
+      *
+      * @private
+      * @param {unknown} value - The value to check.
+      * @param {JsonSchemaType} type - The required type.
+      * @returns {boolean} - True if the value has the type, false otherwise.
+      */
+     private hasType(value: unknown, type: JsonSchemaType): boolean {
+          switch (type) {
+               case 'null':
+                    return value === null;
+               case 'array':
+                    return Array.isArray(value);
+               case 'object':
+                    return typeof value === 'object' && value !== null && !Array.isArray(value);
+               case 'integer':
+                    return Number.isInteger(value);
+               case 'number':
+                    return typeof value === 'number' && Number.isFinite(value);
+               default:
+                    return typeof value === type;
+          }
+     }
+
+     /**
+      * Compares two JSON values structurally.
+      *
+      * @private
+      * @param {unknown} a - The first value.
+      * @param {unknown} b - The second value.
+      * @returns {boolean} - True if the values are equal, false otherwise.
+      */
+     private isEqual(a: unknown, b: unknown): boolean {
+          return JSON.stringify(a) === JSON.stringify(b);
+     }
+
+     /**
+      * Appends a property name to a path.
+      *
+      * @private
+      * @param {string} path - The path of the parent object.
+      * @param {string} key - The property name.
+      * @returns {string} - The path of the property.
+      */
+     private join(path: string, key: string): string {
+          return path ? `${path}.${key}` : key;
+     }
+}
@@ -32,6 +32,6 @@ export class WebSocketService implements IWebSocketService {
       * @param {IMessage<any>} message - The message to be broadcasted.
       */
      broadcastMessage(message: IMessage<any>): void {
-          this.logger.log(`Broadcasting message from ${message.sender}`);
+          this.logger.debug('Broadcasting message', { user: message.sender });
      }
 }
@@ -0,0 +1,118 @@
+import { IMessageStore } from '../interfaces/IMessageStore';
+import { IMessage } from '../interfaces/IMessage';
+
+/**
+ * The default number of messages kept per stream.
+ */
+const DEFAULT_HISTORY_SIZE = 100;
+
+/**
+ * RingBuffer: A fixed-capacity buffer overwriting its oldest item once full.
+ */
+class RingBuffer<T> {
+     private items: T[] = [];
+     private start = 0;
+
+     /**
+      * Creates a new, empty ring buffer.
+      *
+      * @param {number} capacity - The number of items the buffer keeps.
+      */
+     constructor(private capacity: number) { }
+
+     /**
+      * Adds an item, dropping the oldest one if the buffer is full.
+      *
+      * @param {T} item - The item to add.
+      */
+     push(item: T): void {
+          if (this.items.length < this.capacity) {
+               this.items.push(item);
+               return;
+          }
+          this.items[this.start] = item;
+          this.start = (this.start + 1) % this.capacity;
+     }
+
+     /**
+      * Lists the items, oldest first.
+      *
+      * @returns {T[]} - The items.
+      */
+     toArray(): T[] {
+          return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+     }
+}
+
+/**
+ * InMemoryMessageStore: A message store keeping the latest messages of each stream in memory.
+ *
+ * Each stream keeps its latest messages in a ring buffer, so that a busy room does not push the
+ * history of quieter ones out. Sequence ids are shared by all streams and restart when the
+ * process does; server instances behind an adapter each keep their own history. Use a store
+ * backed by a shared database to replay messages across instances and restarts.
+ *
+ * ## Responsibilities:
+ * - Assign increasing sequence ids to stored messages.
+ * - Keep a bounded history per stream.
+ * - Merge the history of several streams in sequence order.
+ */
+export class InMemoryMessageStore implements IMessageStore {
+     /**
+      *
+      * @private
+      * @type {Map<string, RingBuffer<IMessage<any>>>}
+      * @memberof InMemoryMessageStore
+      */
+     private streams: Map<string, RingBuffer<IMessage<any>>> = new Map();
+
+     /**
+      *
+      * @private
+      * @type {number}
+      * @memberof InMemoryMessageStore
+      */
+     private seq: number = 0;
+
+     /**
+      * Creates a new instance of the InMemoryMessageStore class.
+      *
+      * @param {number} [size=100] - The number of messages kept per stream.
+      */
+     constructor(private size: number = DEFAULT_HISTORY_SIZE) { }
+
+     /**
+      * Stores a message and assigns its sequence id.
+      *
+      * @param {string} stream - The stream of the message.
+      * @param {IMessage<any>} message - The message to store.
+      * @returns {number} - The sequence id of the message.
+      */
+     append(stream: string, message: IMessage<any>): number {
+          let buffer = this.streams.get(stream);
+          if (!buffer) {
+               buffer = new RingBuffer(this.size);
+               this.streams.set(stream, buffer);
+          }
+
+          const seq = ++this.seq;
+          buffer.push({ ...message, seq });
+          return seq;
+     }
+
+     /**
+      * Retrieves the messages of some streams whose sequence id is greater than a given id.
+      *
+      * @param {string[]} streams - The streams to read.
+      * @param {number} seq - The last sequence id the client saw.
+      * @param {number} limit - The maximum number of messages to return.
+      * @returns {IMessage<any>[]} - The messages, oldest first.
+      */
+     since(streams: string[], seq: number, limit: number): IMessage<any>[] {
+          return streams
+               .flatMap(stream => this.streams.get(stream)?.toArray() ?? [])
+               .filter(message => message.seq! > seq)
+               .sort((a, b) => a.seq! - b.seq!)
+               .slice(0, limit);
+     }
+}
@@ -0,0 +1,36 @@
+import { ILogTransport, ILogEntry } from '../interfaces/ILogger';
+
+/**
+ * ConsoleTransport: A log transport writing human-readable entries to the console.
+ *
+ * Each entry is written as `[WS LEVEL]: message key=value ...` through the console method
+ * matching its level.
+ */
+export class ConsoleTransport implements ILogTransport {
+     /**
+      * Writes a log entry to the console.
+      *
+      * @param {ILogEntry} entry - The entry to write.
+      */
+     write(entry: ILogEntry): void {
+          const fields = Object.entries(entry.fields)
+               .filter(([, value]) => value !== undefined)
+               .map(([key, value]) => ` ${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+               .join('');
+          const line = `[WS ${entry.level.toUpperCase()}]: ${entry.message}${fields}`;
+
+          switch (entry.level) {
+               case 'error':
+                    console.error(line);
+                    break;
+               case 'warn':
+                    console.warn(line);
+                    break;
+               case 'debug':
+                    console.debug(line);
+                    break;
+               default:
+                    console.log(line);
+          }
+     }
+}
@@ -0,0 +1,26 @@
+import { ILogTransport, ILogEntry } from '../interfaces/ILogger';
+
+/**
+ * JsonLineTransport: A log transport writing one JSON object per line.
+ *
+ * Each entry is written as `{"timestamp":...,"level":...,"message":...,...fields}` followed by
+ * a newline, so log pipelines can parse entries without regular expressions.
+ */
+export class JsonLineTransport implements ILogTransport {
+     /**
+      * Creates a new instance of the JsonLineTransport class.
+      *
+      * @param {NodeJS.WritableStream} [stream=process.stdout] - The stream the lines are written to.
+      */
+     constructor(private stream: NodeJS.WritableStream = process.stdout) { }
+
+     /**
+      * Writes a log entry as a JSON line.
+      *
+      * @param {ILogEntry} entry - The entry to write.
+      */
+     write(entry: ILogEntry): void {
+          const { timestamp, level, message, fields } = entry;
+          this.stream.write(`${JSON.stringify({ timestamp, level, message, ...fields })}\n`);
+     }
+}
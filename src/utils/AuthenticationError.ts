@@ -0,0 +1,17 @@
+/**
+ * AuthenticationError: An error thrown by authentication strategies for invalid credentials.
+ *
+ * The connection is answered with an `AUTH_FAILED` error and closed with code 1008; the message
+ * is logged but never sent to the client.
+ */
+export class AuthenticationError extends Error {
+     /**
+      * Creates a new instance of the AuthenticationError class.
+      *
+      * @param {string} message - A description of why authentication failed.
+      */
+     constructor(message: string) {
+          super(message);
+          this.name = 'AuthenticationError';
+     }
+}
@@ -5,6 +5,25 @@ import { Application } from 'express';
 
 import { IConfig } from '../interfaces/IConfig';
 import { IMessage } from '../interfaces/IMessage';
+import { IHeartbeatOptions } from '../interfaces/IHeartbeatOptions';
+import { IDisconnectInfo } from '../interfaces/IDisconnectInfo';
+import { IConnection } from '../interfaces/IConnection';
+import { IAdapter } from '../interfaces/IAdapter';
+import { ILoggingOptions } from '../interfaces/ILoggingOptions';
+import { IMetricsOptions } from '../interfaces/IMetricsOptions';
+import { IRateLimitOptions } from '../interfaces/IRateLimitOptions';
+import { IRateLimiter } from '../interfaces/IRateLimiter';
+import { MessageSchema } from '../interfaces/IMessageValidator';
+import { ICodec } from '../interfaces/ICodec';
+import { IAuthOptions } from '../interfaces/IAuthOptions';
+import { IAuthorizationOptions } from '../interfaces/IAuthorizationOptions';
+import { IPresenceOptions } from '../interfaces/IPresenceOptions';
+import { IHistoryOptions } from '../interfaces/IHistoryOptions';
+import { IMessageStore } from '../interfaces/IMessageStore';
+import { IShutdownOptions } from '../interfaces/IShutdownOptions';
+import { IBackpressureOptions } from '../interfaces/IBackpressureOptions';
+import { IAdmissionOptions } from '../interfaces/IAdmissionOptions';
+import { ICompressionOptions } from '../interfaces/ICompressionOptions';
 
 /**
  * Config: A class implementing the `IConfig` interface to provide configuration settings for the application.
@@ -19,8 +38,26 @@ import { IMessage } from '../interfaces/IMessage';
  * - **wsOptions**: Optional WebSocket server options.
  * - **hooks**: Optional lifecycle hooks for WebSocket message processing.
  * - **enableLogging**: Whether to enable logging (default: `true`).
+ * - **logging**: Optional log level, format and transport settings.
  * - **setupRoutes**: Optional callback for setting up application routes.
  * - **onMessage**: Optional custom handler for processing incoming WebSocket messages.
+ * - **requestTimeout**: Milliseconds to wait for the reply to a server-side request (default: 10000).
+ * - **heartbeat**: Optional heartbeat settings for detecting dead connections.
+ * - **adapter**: Optional adapter forwarding messages between server instances.
+ * - **metrics**: Optional metrics endpoint and naming settings.
+ * - **rateLimit**: Optional limits on the rate of incoming messages.
+ * - **rateLimiter**: Optional replacement for the in-memory token buckets.
+ * - **schemas**: Optional payload schemas, keyed by event name.
+ * - **codecs**: Optional codecs added to the built-in JSON and MessagePack codecs.
+ * - **auth**: Optional strategies authenticating upgrade requests.
+ * - **authorization**: Optional access policies for events, rooms and broadcasts.
+ * - **presence**: Optional presence tracking settings.
+ * - **history**: Optional message history and replay settings.
+ * - **messageStore**: Optional replacement for the in-memory message history.
+ * - **shutdown**: Optional graceful shutdown settings.
+ * - **backpressure**: Optional outbound queue settings.
+ * - **admission**: Optional connection limits and handshake checks.
+ * - **compression**: Optional permessage-deflate settings and per-message policy.
  */
 @injectable()
 export class Config implements IConfig {
@@ -66,15 +103,31 @@ export class Config implements IConfig {
            * Hook executed before a message is broadcasted.
            *
            * @param {IMessage<any>} message - The message being processed.
+           * @param {IConnection} connection - The connection the message was received on.
            */
-          beforeSend?: (message: IMessage<any>) => void;
+          beforeSend?: (message: IMessage<any>, connection: IConnection) => void;
 
           /**
            * Hook executed after a message is broadcasted.
            *
            * @param {IMessage<any>} message - The message that was processed.
+           * @param {IConnection} connection - The connection the message was received on.
            */
-          afterSend?: (message: IMessage<any>) => void;
+          afterSend?: (message: IMessage<any>, connection: IConnection) => void;
+
+          /**
+           * Hook executed after a connection has been accepted.
+           *
+           * @param {IConnection} connection - The new connection.
+           */
+          onConnect?: (connection: IConnection) => void;
+
+          /**
+           * Hook executed after a connection has closed, with the reason it ended.
+           *
+           * @param {IDisconnectInfo} info - Information about the closed connection.
+           */
+          onDisconnect?: (info: IDisconnectInfo) => void;
      };
 
      /**
@@ -85,6 +138,14 @@ export class Config implements IConfig {
       */
      enableLogging?: boolean;
 
+     /**
+      * Optional log level, format and transport settings.
+      *
+      * @type {ILoggingOptions}
+      * @memberof Config
+      */
+     logging?: ILoggingOptions;
+
      /**
       * Optional callback for setting up application routes.
       *
@@ -97,9 +158,146 @@ export class Config implements IConfig {
       * Optional custom handler for processing incoming WebSocket messages.
       *
       * @param {IMessage<any>} message - The incoming WebSocket message.
+      * @param {IConnection} connection - The connection the message was received on.
+      * @memberof Config
+      */
+     onMessage?: (message: IMessage<any>, connection: IConnection) => void;
+
+     /**
+      * Milliseconds to wait for the reply to a server-side request before it is rejected.
+      *
+      * @type {number}
+      * @memberof Config
+      */
+     requestTimeout: number;
+
+     /**
+      * Optional heartbeat settings for detecting dead connections.
+      *
+      * @type {IHeartbeatOptions}
+      * @memberof Config
+      */
+     heartbeat?: IHeartbeatOptions;
+
+     /**
+      * Optional adapter forwarding messages between server instances.
+      *
+      * @type {IAdapter}
+      * @memberof Config
+      */
+     adapter?: IAdapter;
+
+     /**
+      * Optional metrics endpoint and naming settings.
+      *
+      * @type {IMetricsOptions}
+      * @memberof Config
+      */
+     metrics?: IMetricsOptions;
+
+     /**
+      * Optional limits on the rate of incoming messages.
+      *
+      * @type {IRateLimitOptions}
       * @memberof Config
       */
-     onMessage?: (message: IMessage<any>) => void;
+     rateLimit?: IRateLimitOptions;
+
+     /**
+      * Optional replacement for the in-memory token buckets.
+      *
+      * @type {IRateLimiter}
+      * @memberof Config
+      */
+     rateLimiter?: IRateLimiter;
+
+     /**
+      * Optional payload schemas, keyed by event name.
+      *
+      * @type {Record<string, MessageSchema>}
+      * @memberof Config
+      */
+     schemas?: Record<string, MessageSchema>;
+
+     /**
+      * Optional codecs added to the built-in JSON and MessagePack codecs.
+      *
+      * @type {ICodec[]}
+      * @memberof Config
+      */
+     codecs?: ICodec[];
+
+     /**
+      * Optional strategies authenticating upgrade requests.
+      *
+      * @type {IAuthOptions}
+      * @memberof Config
+      */
+     auth?: IAuthOptions;
+
+     /**
+      * Optional access policies for events, rooms and broadcasts.
+      *
+      * @type {IAuthorizationOptions}
+      * @memberof Config
+      */
+     authorization?: IAuthorizationOptions;
+
+     /**
+      * Optional presence tracking settings.
+      *
+      * @type {IPresenceOptions}
+      * @memberof Config
+      */
+     presence?: IPresenceOptions;
+
+     /**
+      * Optional message history and replay settings.
+      *
+      * @type {IHistoryOptions}
+      * @memberof Config
+      */
+     history?: IHistoryOptions;
+
+     /**
+      * Optional replacement for the in-memory message history.
+      *
+      * @type {IMessageStore}
+      * @memberof Config
+      */
+     messageStore?: IMessageStore;
+
+     /**
+      * Optional graceful shutdown settings.
+      *
+      * @type {IShutdownOptions}
+      * @memberof Config
+      */
+     shutdown?: IShutdownOptions;
+
+     /**
+      * Optional outbound queue settings.
+      *
+      * @type {IBackpressureOptions}
+      * @memberof Config
+      */
+     backpressure?: IBackpressureOptions;
+
+     /**
+      * Optional connection limits and handshake checks.
+      *
+      * @type {IAdmissionOptions}
+      * @memberof Config
+      */
+     admission?: IAdmissionOptions;
+
+     /**
+      * Optional permessage-deflate settings and per-message compression policy.
+      *
+      * @type {ICompressionOptions}
+      * @memberof Config
+      */
+     compression?: ICompressionOptions;
 
      /**
       * Constructor: Initializes the Config class with provided options or defaults.
@@ -137,6 +335,11 @@ export class Config implements IConfig {
            */
           this.enableLogging = options.enableLogging ?? true;
 
+          /**
+           * Assign optional logging settings.
+           */
+          this.logging = options.logging;
+
           /**
            * Assign optional route setup callback.
            */
@@ -146,5 +349,90 @@ export class Config implements IConfig {
            * Assign an optional custom handler for incoming WebSocket messages.
            */
           this.onMessage = options.onMessage;
+
+          /**
+           * Assign the request timeout, with a default of 10 seconds if not provided.
+           */
+          this.requestTimeout = options.requestTimeout || 10000;
+
+          /**
+           * Assign optional heartbeat settings.
+           */
+          this.heartbeat = options.heartbeat;
+
+          /**
+           * Assign an optional adapter for multi-instance deployments.
+           */
+          this.adapter = options.adapter;
+
+          /**
+           * Assign optional metrics settings.
+           */
+          this.metrics = options.metrics;
+
+          /**
+           * Assign optional rate limits.
+           */
+          this.rateLimit = options.rateLimit;
+
+          /**
+           * Assign an optional rate limiter backed by a custom store.
+           */
+          this.rateLimiter = options.rateLimiter;
+
+          /**
+           * Assign optional payload schemas.
+           */
+          this.schemas = options.schemas;
+
+          /**
+           * Assign optional additional codecs.
+           */
+          this.codecs = options.codecs;
+
+          /**
+           * Assign optional authentication strategies.
+           */
+          this.auth = options.auth;
+
+          /**
+           * Assign optional access policies.
+           */
+          this.authorization = options.authorization;
+
+          /**
+           * Assign optional presence tracking settings.
+           */
+          this.presence = options.presence;
+
+          /**
+           * Assign optional message history settings.
+           */
+          this.history = options.history;
+
+          /**
+           * Assign an optional message store backed by a custom database.
+           */
+          this.messageStore = options.messageStore;
+
+          /**
+           * Assign optional graceful shutdown settings.
+           */
+          this.shutdown = options.shutdown;
+
+          /**
+           * Assign optional outbound queue settings.
+           */
+          this.backpressure = options.backpressure;
+
+          /**
+           * Assign optional connection limits and handshake checks.
+           */
+          this.admission = options.admission;
+
+          /**
+           * Assign optional compression settings.
+           */
+          this.compression = options.compression;
      }
 }
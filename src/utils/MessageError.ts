@@ -0,0 +1,27 @@
+/**
+ * MessageError: An error that is reported to the client that sent the message.
+ *
+ * Event handlers throw a `MessageError` to reject a message with a specific error code. The
+ * controller answers it with an `IErrorMessage` carrying the same code, message and details,
+ * tied to the message `id` when there is one. Any other error thrown by a handler is reported
+ * to the client as a generic `INTERNAL_ERROR` so that internal details are not leaked.
+ *
+ * It is also used to reject server-side requests whose reply is an error or never arrives.
+ *
+ * ## Properties:
+ * - **code** (string): A machine-readable error code, one of `ERROR_CODES` or an application-defined code.
+ * - **details** (object | undefined): Additional information about the error.
+ */
+export class MessageError extends Error {
+     /**
+      * Creates a new instance of the MessageError class.
+      *
+      * @param {string} code - A machine-readable error code.
+      * @param {string} message - A human-readable description of the error.
+      * @param {Record<string, any>} [details] - Additional information about the error.
+      */
+     constructor(public code: string, message: string, public details?: Record<string, any>) {
+          super(message);
+          this.name = 'MessageError';
+     }
+}
@@ -0,0 +1,117 @@
+import { MessagePriority, OverflowPolicy } from '../interfaces/IBackpressureOptions';
+
+/**
+ * OutboundQueue: The messages waiting for the socket of a connection to drain.
+ *
+ * Messages are kept in two lanes: control messages are always dequeued first and are never
+ * dropped, while data messages are dropped according to the overflow policy once the queue is
+ * full. The control lane can be bounded too: a full control lane always reports the `disconnect`
+ * policy, so that a client that stops reading cannot grow it by sending requests.
+ *
+ * ## Responsibilities:
+ * - Keep queued messages in order within each lane.
+ * - Dequeue control messages before data messages.
+ * - Apply the overflow policy to data messages.
+ * - Report an overflow of the control lane as a `disconnect`.
+ */
+export class OutboundQueue<T> {
+     /**
+      *
+      * @private
+      * @type {T[]}
+      * @memberof OutboundQueue
+      */
+     private control: T[] = [];
+
+     /**
+      *
+      * @private
+      * @type {T[]}
+      * @memberof OutboundQueue
+      */
+     private data: T[] = [];
+
+     /**
+      * Creates an empty queue.
+      *
+      * @param {number} limit - The maximum number of queued data messages.
+      * @param {OverflowPolicy} overflow - What happens when a data message is pushed to a full queue.
+      * @param {number} [controlLimit=Infinity] - The maximum number of queued control messages.
+      */
+     constructor(private limit: number, private overflow: OverflowPolicy, private controlLimit: number = Infinity) { }
+
+     /**
+      * The number of queued messages, in both lanes.
+      *
+      * @type {number}
+      */
+     get size(): number {
+          return this.control.length + this.data.length;
+     }
+
+     /**
+      * Queues a message.
+      *
+      * @param {T} item - The message.
+      * @param {MessagePriority} priority - The lane of the message.
+      * @returns {OverflowPolicy | null} - The overflow policy applied if the queue was full, or null if the message was simply queued.
+      */
+     push(item: T, priority: MessagePriority): OverflowPolicy | null {
+          if (priority === 'control') {
+               if (this.control.length >= this.controlLimit) {
+                    return 'disconnect';
+               }
+               this.control.push(item);
+               return null;
+          }
+
+          if (this.data.length < this.limit) {
+               this.data.push(item);
+               return null;
+          }
+
+          if (this.overflow === 'drop-oldest') {
+               this.data.shift();
+               this.data.push(item);
+          }
+          return this.overflow;
+     }
+
+     /**
+      * Dequeues the next message, control messages first.
+      *
+      * @returns {T | undefined} - The message, or undefined if the queue is empty.
+      */
+     shift(): T | undefined {
+          return this.control.shift() ?? this.data.shift();
+     }
+
+     /**
+      * Removes a queued message.
+      *
+      * @param {T} item - The message.
+      * @returns {boolean} - True if the message was queued, false otherwise.
+      */
+     remove(item: T): boolean {
+          for (const lane of [this.control, this.data]) {
+               const index = lane.indexOf(item);
+               if (index !== -1) {
+                    lane.splice(index, 1);
+                    return true;
+               }
+          }
+          return false;
+     }
+
+     /**
+      * Removes every queued message.
+      *
+      * @returns {number} - The number of removed messages.
+      */
+     clear(): number {
+          const size = this.size;
+          this.control = [];
+          this.data = [];
+          return size;
+     }
+}
@@ -0,0 +1,29 @@
+import { CLOSE_CODES } from '../config/closeCodes';
+
+/**
+ * RejectionError: An error that rejects a connection from middleware.
+ *
+ * Handshake middleware throws a `RejectionError` to refuse an upgrade request; the client is
+ * answered with the HTTP `status` and the error message, and the connection is never accepted.
+ * Message middleware throws it to close the connection with the `closeCode` and the error
+ * message as the close reason; an invalid close code is replaced with `1008` and a longer
+ * message is truncated to 123 bytes. To reject a single message without closing the connection,
+ * throw a `MessageError` instead.
+ *
+ * ## Properties:
+ * - **closeCode** (number): The WebSocket close code used when rejecting a message.
+ * - **status** (number): The HTTP status code used when rejecting an upgrade request.
+ */
+export class RejectionError extends Error {
+     /**
+      * Creates a new instance of the RejectionError class.
+      *
+      * @param {string} message - A human-readable reason for the rejection, at most 123 bytes long.
+      * @param {number} [closeCode=1008] - The WebSocket close code used when rejecting a message.
+      * @param {number} [status=403] - The HTTP status code used when rejecting an upgrade request.
+      */
+     constructor(message: string, public closeCode: number = CLOSE_CODES.POLICY_VIOLATION, public status: number = 403) {
+          super(message);
+          this.name = 'RejectionError';
+     }
+}
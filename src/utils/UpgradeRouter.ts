@@ -0,0 +1,155 @@
+import { IncomingMessage, Server, STATUS_CODES } from 'http';
+import { Socket } from 'net';
+
+/**
+ * UpgradeHandler: Handles the upgrade requests of a path.
+ */
+export type UpgradeHandler = (request: IncomingMessage, socket: Socket, head: Buffer) => void;
+
+/**
+ * The routers of the servers that have WebSocket endpoints, created on first use.
+ */
+const routers: WeakMap<Server, UpgradeRouter> = new WeakMap();
+
+/**
+ * UpgradeRouter: Dispatches the upgrade requests of an HTTP server by path.
+ *
+ * Each server gets a single router, so that several WebSocket managers can share a server, each
+ * serving its own path. Requests whose path matches no endpoint are answered with `404`; an
+ * endpoint registered without a path serves every path no other endpoint matches.
+ *
+ * ## Responsibilities:
+ * - Listen to the `upgrade` events of a server once, however many endpoints it has.
+ * - Route upgrade requests to the endpoint of their path.
+ * - Reject upgrade requests for unknown paths.
+ */
+export class UpgradeRouter {
+     /**
+      *
+      * @private
+      * @type {Map<string, UpgradeHandler>}
+      * @memberof UpgradeRouter
+      */
+     private handlers: Map<string, UpgradeHandler> = new Map();
+
+     /**
+      *
+      * @private
+      * @type {UpgradeHandler}
+      * @memberof UpgradeRouter
+      */
+     private fallback?: UpgradeHandler;
+
+     /**
+      * Creates a router listening to the upgrade requests of a server.
+      *
+      * @private
+      * @param {Server} server - The HTTP or HTTPS server.
+      */
+     private constructor(server: Server) {
+          server.on('upgrade', this.route.bind(this));
+     }
+
+     /**
+      * Retrieves the router of a server, creating it on first use.
+      *
+      * @param {Server} server - The HTTP or HTTPS server.
+      * @returns {UpgradeRouter} - The router of the server.
+      */
+     static for(server: Server): UpgradeRouter {
+          let router = routers.get(server);
+          if (!router) {
+               router = new UpgradeRouter(server);
+               routers.set(server, router);
+          }
+          return router;
+     }
+
+     /**
+      * Registers the handler of the upgrade requests of a path.
+      *
+      * @param {string | undefined} path - The path, e.g. `/chat`, or undefined for every unmatched path.
+      * @param {UpgradeHandler} handler - The handler of the requests.
+      * @throws {Error} - If the path already has a handler.
+      */
+     register(path: string | undefined, handler: UpgradeHandler): void {
+          if (path === undefined) {
+               if (this.fallback) {
+                    throw new Error('A WebSocket endpoint without a path is already attached to this server');
+               }
+               this.fallback = handler;
+               return;
+          }
+
+          const key = normalizePath(path);
+          if (this.handlers.has(key)) {
+               throw new Error(`A WebSocket endpoint is already attached to path ${key}`);
+          }
+          this.handlers.set(key, handler);
+     }
+
+     /**
+      * Removes the handler of a path, if it is the given handler.
+      *
+      * @param {string | undefined} path - The path, or undefined for the handler of every unmatched path.
+      * @param {UpgradeHandler} handler - The handler to remove.
+      */
+     unregister(path: string | undefined, handler: UpgradeHandler): void {
+          if (path === undefined) {
+               if (this.fallback === handler) {
+                    this.fallback = undefined;
+               }
+               return;
+          }
+
+          const key = normalizePath(path);
+          if (this.handlers.get(key) === handler) {
+               this.handlers.delete(key);
+          }
+     }
+
+     /**
+      * Passes an upgrade request to the handler of its path, or answers it with `404`.
+      *
+      * @private
+      * @param {IncomingMessage} request - The incoming HTTP upgrade request.
+      * @param {Socket} socket - The network socket for the connection.
+      * @param {Buffer} head - The first packet of the upgraded stream.
+      */
+     private route(request: IncomingMessage, socket: Socket, head: Buffer): void {
+          let path: string;
+          try {
+               path = normalizePath(new URL(request.url ?? '/', 'http://localhost').pathname);
+          } catch {
+               path = '';
+          }
+
+          const handler = this.handlers.get(path) ?? this.fallback;
+          if (handler) {
+               handler(request, socket, head);
+               return;
+          }
+
+          const body = STATUS_CODES[404]!;
+          socket.once('finish', () => socket.destroy());
+          socket.end(
+               'HTTP/1.1 404 Not Found\r\n' +
+               'Connection: close\r\n' +
+               'Content-Type: text/plain\r\n' +
+               `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+               '\r\n' +
+               body
+          );
+     }
+}
+
+/**
+ * Normalizes a path so that `/chat` and `/chat/` match the same endpoint.
+ *
+ * @param {string} path - The path.
+ * @returns {string} - The path with a leading slash and without a trailing slash.
+ */
+function normalizePath(path: string): string {
+     const trimmed = path.replace(/\/+$/, '');
+     return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
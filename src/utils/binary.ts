@@ -0,0 +1,30 @@
+/**
+ * BinaryData: The binary types accepted in message content.
+ */
+export type BinaryData = Buffer | ArrayBuffer | ArrayBufferView;
+
+/**
+ * Checks whether a value is binary data: a Buffer, an ArrayBuffer or a typed array.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} - True if the value is binary data, false otherwise.
+ */
+export function isBinary(value: unknown): value is BinaryData {
+     return value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+}
+
+/**
+ * Wraps binary data in a Buffer without copying it.
+ *
+ * @param {BinaryData} data - The binary data.
+ * @returns {Buffer} - A Buffer over the same memory.
+ */
+export function toBuffer(data: BinaryData): Buffer {
+     if (Buffer.isBuffer(data)) {
+          return data;
+     }
+     if (data instanceof ArrayBuffer) {
+          return Buffer.from(data);
+     }
+     return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
@@ -0,0 +1,60 @@
+/**
+ * The maximum length, in UTF-8 bytes, of the reason text of a close frame.
+ */
+export const MAX_CLOSE_REASON_LENGTH = 123;
+
+/**
+ * Checks whether a close code may be sent in a close frame: a code defined by the protocol other
+ * than the reserved `1004`, `1005` and `1006`, or a code between `3000` and `4999`.
+ *
+ * @param {number} code - The close code.
+ * @returns {boolean} - True if the code may be sent, false otherwise.
+ */
+export function isValidCloseCode(code: number): boolean {
+     return Number.isInteger(code) && ((code >= 1000 && code <= 1014 && code !== 1004 && code !== 1005 && code !== 1006) || (code >= 3000 && code <= 4999));
+}
+
+/**
+ * Checks whether a text fits in the reason of a close frame.
+ *
+ * @param {string} reason - The close reason text.
+ * @returns {boolean} - True if the reason is at most 123 UTF-8 bytes long, false otherwise.
+ */
+export function isValidCloseReason(reason: string): boolean {
+     return Buffer.byteLength(reason) <= MAX_CLOSE_REASON_LENGTH;
+}
+
+/**
+ * Shortens a text to fit in the reason of a close frame, without splitting a character.
+ *
+ * @param {string} reason - The close reason text.
+ * @returns {string} - The longest prefix of the text that is at most 123 UTF-8 bytes long.
+ */
+export function truncateCloseReason(reason: string): string {
+     let length = 0;
+     let truncated = '';
+     for (const character of reason) {
+          length += Buffer.byteLength(character);
+          if (length > MAX_CLOSE_REASON_LENGTH) {
+               break;
+          }
+          truncated += character;
+     }
+     return truncated;
+}
+
+/**
+ * Checks the close code and reason of a connection closed by the server.
+ *
+ * @param {number} code - The close code.
+ * @param {string} [reason] - The close reason text.
+ * @throws {Error} - If the code may not be sent or the reason is too long.
+ */
+export function assertValidClose(code: number, reason?: string): void {
+     if (!isValidCloseCode(code)) {
+          throw new Error(`Invalid close code ${code}: expected 1000-1014 (except 1004, 1005 and 1006) or 3000-4999`);
+     }
+     if (reason !== undefined && !isValidCloseReason(reason)) {
+          throw new Error(`Close reason exceeds ${MAX_CLOSE_REASON_LENGTH} bytes`);
+     }
+}
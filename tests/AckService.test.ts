@@ -0,0 +1,49 @@
+import "reflect-metadata";
+import { AckService } from "../src/services/AckService";
+import { Config } from "../src/utils/Config";
+import { MessageError } from "../src/utils/MessageError";
+
+describe("AckService", () => {
+     let ackService: AckService;
+
+     beforeEach(() => {
+          jest.useFakeTimers();
+          ackService = new AckService(new Config({ requestTimeout: 1000 }));
+     });
+
+     afterEach(() => {
+          jest.useRealTimers();
+     });
+
+     test("should resolve a request with the content of its ack", async () => {
+          const { id, promise } = ackService.createRequest();
+
+          expect(ackService.handleReply({ type: "ack", id, sender: "client1", content: "ok" })).toBe(true);
+          await expect(promise).resolves.toBe("ok");
+     });
+
+     test("should reject a request with the error it is answered with", async () => {
+          const { id, promise } = ackService.createRequest();
+
+          ackService.handleReply({ type: "error", id, code: "FORBIDDEN", error: "Not allowed" });
+          await expect(promise).rejects.toEqual(new MessageError("FORBIDDEN", "Not allowed"));
+     });
+
+     test("should only settle a request with replies from the connections it was sent to", async () => {
+          const recipient = {};
+          const { id, promise } = ackService.createRequest(undefined, [recipient]);
+
+          expect(ackService.handleReply({ type: "ack", id, sender: "mallory", content: "forged" }, {})).toBe(false);
+          expect(ackService.handleReply({ type: "ack", id, sender: "mallory", content: "forged" })).toBe(false);
+          expect(ackService.handleReply({ type: "ack", id, sender: "alice", content: "ok" }, recipient)).toBe(true);
+          await expect(promise).resolves.toBe("ok");
+     });
+
+     test("should reject a request that is not answered in time", async () => {
+          const { id, promise } = ackService.createRequest();
+
+          jest.advanceTimersByTime(1000);
+          await expect(promise).rejects.toMatchObject({ code: "REQUEST_TIMEOUT" });
+          expect(ackService.handleReply({ type: "ack", id, sender: "client1", content: "late" })).toBe(false);
+     });
+});
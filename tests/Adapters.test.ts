@@ -0,0 +1,83 @@
+import "reflect-metadata";
+import { EventEmitter } from "events";
+import { InMemoryAdapter } from "../src/adapters/InMemoryAdapter";
+import { PubSubAdapter } from "../src/adapters/PubSubAdapter";
+import { IAdapterPacket, IPubSubClient } from "../src/interfaces/IAdapter";
+
+/**
+ * A local stand-in for a pub/sub broker such as Redis.
+ */
+class LocalBroker implements IPubSubClient {
+     private channels = new EventEmitter();
+
+     publish(channel: string, payload: string): void {
+          this.channels.emit(channel, payload);
+     }
+
+     subscribe(channel: string, listener: (payload: string) => void): void {
+          this.channels.on(channel, listener);
+     }
+
+     unsubscribe(channel: string): void {
+          this.channels.removeAllListeners(channel);
+     }
+}
+
+const packet: IAdapterPacket = {
+     kind: "room",
+     room: "lobby",
+     message: { sender: "client1", content: "Hello from node 1" },
+};
+
+describe("InMemoryAdapter", () => {
+     test("should deliver packets to the other instances on the bus only", () => {
+          const bus = new EventEmitter();
+          const node1 = new InMemoryAdapter(bus);
+          const node2 = new InMemoryAdapter(bus);
+          const received1 = jest.fn();
+          const received2 = jest.fn();
+
+          node1.subscribe(received1);
+          node2.subscribe(received2);
+          node1.publish(packet);
+
+          expect(received1).not.toHaveBeenCalled();
+          expect(received2).toHaveBeenCalledWith(packet);
+     });
+});
+
+describe("PubSubAdapter", () => {
+     test("should forward packets through the broker to the other instances only", async () => {
+          const broker = new LocalBroker();
+          const node1 = new PubSubAdapter(broker);
+          const node2 = new PubSubAdapter(broker);
+          const received1 = jest.fn();
+          const received2 = jest.fn();
+
+          await node1.subscribe(received1);
+          await node2.subscribe(received2);
+          await node1.publish(packet);
+
+          expect(received1).not.toHaveBeenCalled();
+          expect(received2).toHaveBeenCalledWith(packet);
+     });
+
+     test("should drop and report payloads that are not packets", async () => {
+          const broker = new LocalBroker();
+          const node1 = new PubSubAdapter(broker);
+          const node2 = new PubSubAdapter(broker);
+          const received = jest.fn();
+          const onError = jest.fn();
+
+          await node2.subscribe(received, onError);
+          for (const payload of ["not json", "null", "42", JSON.stringify({ nodeId: "other" })]) {
+               expect(() => broker.publish("ts-websocket", payload)).not.toThrow();
+          }
+          await node1.publish(packet);
+
+          expect(onError).toHaveBeenCalledTimes(4);
+          expect(onError).toHaveBeenCalledWith(expect.any(Error));
+          expect(received).toHaveBeenCalledTimes(1);
+          expect(received).toHaveBeenCalledWith(packet);
+     });
+});
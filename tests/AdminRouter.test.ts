@@ -0,0 +1,143 @@
+import "reflect-metadata";
+import WebSocket from "ws";
+import { WebSocketManager } from "../src/api/WebSocketManager";
+import { CustomStrategy } from "../src/auth/CustomStrategy";
+
+describe("Admin API", () => {
+     const port = 4005;
+     const base = `http://localhost:${port}/admin`;
+     let wsManager: WebSocketManager;
+     let adminToken: string;
+
+     const call = (method: string, path: string, token: string | null = adminToken, body?: object) =>
+          fetch(`${base}${path}`, {
+               method,
+               headers: {
+                    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+                    ...(body ? { "Content-Type": "application/json" } : {}),
+               },
+               body: body ? JSON.stringify(body) : undefined,
+          });
+
+     const connect = async (username: string) => {
+          const ws = new WebSocket(`ws://localhost:${port}?token=${wsManager.generateToken(username)}`);
+          const messages: any[] = [];
+          ws.on("message", (data) => messages.push(JSON.parse(data.toString())));
+          await new Promise((resolve) => ws.on("open", resolve));
+          return { ws, messages };
+     };
+
+     beforeAll(async () => {
+          wsManager = new WebSocketManager({ port, enableLogging: false, admin: { enabled: true } });
+          adminToken = wsManager.generateToken("operator", { roles: ["admin"] });
+          await wsManager.start();
+     });
+
+     afterAll(async () => {
+          await wsManager.stop();
+     });
+
+     test("should reject anonymous callers and callers without an admin role", async () => {
+          expect((await call("GET", "/connections", null)).status).toBe(401);
+          expect((await call("GET", "/connections", wsManager.generateToken("alice"))).status).toBe(403);
+     });
+
+     test("should only accept credentials sent in headers", async () => {
+          expect((await call("GET", `/connections?token=${adminToken}`, null)).status).toBe(401);
+          expect((await call("GET", "/connections")).status).toBe(200);
+     });
+
+     test("should list connections and users and show connection stats", async () => {
+          const { ws } = await connect("alice");
+          ws.send(JSON.stringify({ type: "room:join", room: "lobby", id: "1" }));
+          await new Promise((resolve) => setTimeout(resolve, 50));
+
+          const connections = await (await call("GET", "/connections")).json();
+          expect(connections).toEqual([expect.objectContaining({ user: "alice", roles: [], protocol: "" })]);
+          expect(connections[0].headers).toBeUndefined();
+
+          const connection = await (await call("GET", `/connections/${connections[0].id}`)).json();
+          expect(connection.stats).toMatchObject({ messagesReceived: 1, rooms: ["lobby"], queued: 0 });
+          expect(connection.stats.bytesSent).toBeGreaterThan(0);
+
+          expect(await (await call("GET", "/users")).json()).toEqual([{ user: "alice", connections: 1 }]);
+          expect((await call("GET", "/connections/unknown")).status).toBe(404);
+
+          ws.close();
+          await new Promise((resolve) => ws.on("close", resolve));
+     });
+
+     test("should send messages to users, rooms and every client", async () => {
+          const alice = await connect("alice");
+
+          expect((await call("POST", "/users/alice/messages", adminToken, { type: "notice", content: "hi" })).status).toBe(202);
+          expect((await call("POST", "/broadcast", adminToken, { content: "all" })).status).toBe(202);
+          expect((await call("POST", "/users/bob/messages", adminToken, { content: "hi" })).status).toBe(404);
+          expect((await call("POST", "/broadcast", adminToken, { type: 42 })).status).toBe(400);
+          expect((await call("POST", "/broadcast", adminToken, { type: "notice" })).status).toBe(400);
+          const form = await fetch(`${base}/broadcast`, {
+               method: "POST",
+               headers: { Authorization: `Bearer ${adminToken}`, "Content-Type": "application/x-www-form-urlencoded" },
+               body: "content=forged",
+          });
+          expect(form.status).toBe(415);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+
+          expect(alice.messages).toEqual([
+               expect.objectContaining({ type: "notice", sender: "server", content: "hi" }),
+               expect.objectContaining({ sender: "server", content: "all", seq: expect.any(Number) }),
+          ]);
+
+          alice.ws.close();
+          await new Promise((resolve) => alice.ws.on("close", resolve));
+     });
+
+     test("should close connections by id and by user", async () => {
+          const first = await connect("alice");
+          const second = await connect("alice");
+          const closed = new Promise<number>((resolve) => first.ws.on("close", resolve));
+
+          const [connection] = await (await call("GET", "/connections")).json();
+          for (const query of ["code=1005", "code=1006", "code=2000", "code=abc", `reason=${"x".repeat(124)}`]) {
+               expect((await call("DELETE", `/connections/${connection.id}?${query}`)).status).toBe(400);
+          }
+          expect((await call("DELETE", `/users/alice?code=1004`)).status).toBe(400);
+          expect(first.ws.readyState).toBe(WebSocket.OPEN);
+          expect((await call("DELETE", `/connections/${connection.id}?code=4100&reason=Kicked`)).status).toBe(204);
+          expect(await closed).toBe(4100);
+
+          expect(await (await call("DELETE", "/users/alice")).json()).toEqual({ closed: 1 });
+          await new Promise((resolve) => second.ws.on("close", resolve));
+          expect((await call("DELETE", "/users/alice")).status).toBe(404);
+     });
+});
+
+describe("Admin API with cookie credentials", () => {
+     const port = 4012;
+
+     test("should ignore cookies, which browsers send along with forged requests", async () => {
+          const session = { id: "operator", roles: ["admin"], claims: {} };
+          const wsManager = new WebSocketManager({
+               port,
+               enableLogging: false,
+               admin: { enabled: true },
+               auth: { strategies: [new CustomStrategy((token) => (token === "sid-1" ? session : null), [{ type: "cookie", name: "sid" }, { type: "header", name: "x-session" }])] },
+               admission: { allowedOrigins: ["https://app.example.com"] },
+          });
+          await wsManager.start();
+
+          try {
+               const post = (headers: Record<string, string>) =>
+                    fetch(`http://localhost:${port}/admin/broadcast`, {
+                         method: "POST",
+                         headers: { "Content-Type": "application/json", ...headers },
+                         body: JSON.stringify({ content: "hi" }),
+                    });
+
+               expect((await post({ Cookie: "sid=sid-1" })).status).toBe(401);
+               expect((await post({ "X-Session": "sid-1" })).status).toBe(202);
+          } finally {
+               await wsManager.stop();
+          }
+     });
+});
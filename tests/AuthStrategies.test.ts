@@ -0,0 +1,175 @@
+import "reflect-metadata";
+import { IncomingMessage } from "http";
+import { generateKeyPairSync } from "crypto";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import jwt from "jsonwebtoken";
+import { JwtStrategy } from "../src/auth/JwtStrategy";
+import { ApiKeyStrategy } from "../src/auth/ApiKeyStrategy";
+import { CustomStrategy } from "../src/auth/CustomStrategy";
+import { extractToken } from "../src/auth/extractToken";
+import { AuthService } from "../src/services/AuthService";
+import { Config } from "../src/utils/Config";
+import { AuthenticationError } from "../src/utils/AuthenticationError";
+
+function createRequest(headers: Record<string, string> = {}, url = "/"): IncomingMessage {
+     return { headers, url } as unknown as IncomingMessage;
+}
+
+describe("extractToken", () => {
+     test("should read the token from the header, subprotocol or query, and cookies only when configured", () => {
+          expect(extractToken(createRequest({ authorization: "Bearer abc" }))).toBe("abc");
+          expect(extractToken(createRequest({ cookie: "theme=dark; token=abc" }))).toBeNull();
+          expect(extractToken(createRequest({ cookie: "theme=dark; token=abc" }), [{ type: "cookie" }])).toBe("abc");
+          expect(extractToken(createRequest({ "sec-websocket-protocol": "json, bearer.abc" }))).toBe("abc");
+          expect(extractToken(createRequest({}, "/?token=abc"))).toBe("abc");
+          expect(extractToken(createRequest({ authorization: "Basic abc" }))).toBeNull();
+     });
+
+     test("should only read the configured sources", () => {
+          const request = createRequest({ "x-token": "abc" }, "/?token=def");
+          expect(extractToken(request, [{ type: "header", name: "X-Token" }])).toBe("abc");
+          expect(extractToken(request, [{ type: "cookie" }])).toBeNull();
+     });
+});
+
+describe("JwtStrategy", () => {
+     const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+     let directory: string;
+
+     beforeAll(() => {
+          directory = mkdtempSync(join(tmpdir(), "ts-websocket-"));
+          writeFileSync(join(directory, "key.pem"), publicKey.export({ type: "spki", format: "pem" }));
+          writeFileSync(join(directory, "jwks.json"), JSON.stringify({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: "key-1" }] }));
+     });
+
+     afterAll(() => {
+          rmSync(directory, { recursive: true, force: true });
+     });
+
+     test("should map an HS256 token to a principal", async () => {
+          const strategy = new JwtStrategy({ secret: "secret" });
+          const token = jwt.sign({ sub: "alice", roles: ["admin"] }, "secret");
+
+          await expect(strategy.authenticate(createRequest({ authorization: `Bearer ${token}` }))).resolves.toMatchObject({
+               id: "alice",
+               roles: ["admin"],
+               claims: { sub: "alice" },
+          });
+     });
+
+     test("should verify RS256 tokens with a public key file", async () => {
+          const strategy = new JwtStrategy({ publicKeyFile: join(directory, "key.pem") });
+          const token = jwt.sign({ username: "alice" }, privateKey, { algorithm: "RS256" });
+
+          await expect(strategy.authenticate(createRequest({}, `/?token=${token}`))).resolves.toMatchObject({ id: "alice", roles: [] });
+     });
+
+     test("should select the JWKS key by kid", () => {
+          const strategy = new JwtStrategy({ jwksFile: join(directory, "jwks.json"), issuer: "issuer" });
+
+          expect(strategy.verify(jwt.sign({ sub: "alice" }, privateKey, { algorithm: "RS256", keyid: "key-1", issuer: "issuer" })).id).toBe("alice");
+          expect(() => strategy.verify(jwt.sign({ sub: "alice" }, privateKey, { algorithm: "RS256", keyid: "key-2", issuer: "issuer" }))).toThrow(AuthenticationError);
+          expect(() => strategy.verify(jwt.sign({ sub: "alice" }, privateKey, { algorithm: "RS256", keyid: "key-1", issuer: "other" }))).toThrow(AuthenticationError);
+     });
+
+     test("should reject tokens signed with another algorithm", () => {
+          const strategy = new JwtStrategy({ secret: "secret" });
+          expect(() => strategy.verify(jwt.sign({ sub: "alice" }, privateKey, { algorithm: "RS256" }))).toThrow(AuthenticationError);
+     });
+
+     test("should pass on requests without a token", async () => {
+          const strategy = new JwtStrategy({ secret: "secret" });
+          await expect(strategy.authenticate(createRequest())).resolves.toBeNull();
+     });
+});
+
+describe("ApiKeyStrategy", () => {
+     const strategy = new ApiKeyStrategy({
+          keys: {
+               "key-1": "billing",
+               "key-2": { id: "reports", roles: ["reader"], claims: {} },
+          },
+     });
+
+     test("should map known keys to their principal", async () => {
+          await expect(strategy.authenticate(createRequest({ "x-api-key": "key-1" }))).resolves.toEqual({ id: "billing", roles: [], claims: {} });
+          await expect(strategy.authenticate(createRequest({ "sec-websocket-protocol": "apikey.key-2" }))).resolves.toMatchObject({ id: "reports" });
+     });
+
+     test("should reject unknown keys", async () => {
+          await expect(strategy.authenticate(createRequest({ "x-api-key": "key-3" }))).rejects.toThrow(AuthenticationError);
+          await expect(strategy.authenticate(createRequest({ authorization: "Bearer key-1" }))).resolves.toBeNull();
+     });
+});
+
+describe("CustomStrategy", () => {
+     test("should delegate verification to the verifier", async () => {
+          const strategy = new CustomStrategy(async (token) => (token === "valid" ? { id: "alice", roles: [], claims: {} } : null));
+
+          await expect(strategy.authenticate(createRequest({}, "/?token=valid"))).resolves.toMatchObject({ id: "alice" });
+          await expect(strategy.authenticate(createRequest({}, "/?token=invalid"))).rejects.toThrow(AuthenticationError);
+          await expect(strategy.authenticate(createRequest())).resolves.toBeNull();
+     });
+});
+
+describe("AuthService", () => {
+     test("should issue tokens whose principal carries roles and claims", () => {
+          const authService = new AuthService(new Config({ secretKey: "secret" }));
+          const token = authService.generateToken("alice", { roles: ["admin"], claims: { tenant: "acme" } });
+
+          expect(authService.verifyToken(token)).toMatchObject({ id: "alice", roles: ["admin"], claims: { tenant: "acme" } });
+          expect(authService.verifyToken("invalid")).toBeNull();
+     });
+
+     test("should try the strategies in order", async () => {
+          const authService = new AuthService(new Config({
+               auth: { strategies: [new ApiKeyStrategy({ keys: { "key-1": "billing" } }), new JwtStrategy({ secret: "secret" })] },
+          }));
+
+          await expect(authService.authenticate(createRequest({ authorization: `Bearer ${jwt.sign({ sub: "alice" }, "secret")}` }))).resolves.toMatchObject({ id: "alice" });
+          await expect(authService.authenticate(createRequest({ "x-api-key": "key-1" }))).resolves.toMatchObject({ id: "billing" });
+          await expect(authService.authenticate(createRequest())).resolves.toBeNull();
+     });
+
+     test("should refuse strategies reading cookies unless the allowed origins are configured", () => {
+          const strategies = [new CustomStrategy(() => null, [{ type: "cookie", name: "sid" }])];
+
+          expect(() => new AuthService(new Config({ auth: { strategies } }))).toThrow("Strategies reading cookies require admission.allowedOrigins");
+          expect(() => new AuthService(new Config({ auth: { strategies }, admission: { allowedOrigins: ["https://app.example.com"] } }))).not.toThrow();
+     });
+
+     test("should reject requests without credentials unless anonymous access is allowed", async () => {
+          const authService = new AuthService(new Config({ auth: { allowAnonymous: false } }));
+          await expect(authService.authenticate(createRequest())).rejects.toThrow(AuthenticationError);
+     });
+
+     test("should re-authenticate with the strategies able to verify tokens", async () => {
+          const authService = new AuthService(new Config({
+               auth: { strategies: [new ApiKeyStrategy({ keys: { "key-1": "billing" } }), new JwtStrategy({ secret: "secret" })] },
+          }));
+          const token = jwt.sign({ sub: "alice" }, "secret", { expiresIn: 60 });
+
+          await expect(authService.reauthenticate(token, createRequest())).resolves.toMatchObject({ id: "alice", expiresAt: expect.any(Number) });
+          await expect(authService.reauthenticate("key-1", createRequest())).resolves.toMatchObject({ id: "billing" });
+          await expect(authService.reauthenticate("invalid", createRequest())).rejects.toThrow(AuthenticationError);
+     });
+
+     test("should reject revoked tokens", async () => {
+          const isRevoked = jest.fn((jti: string) => jti === "shared");
+          const authService = new AuthService(new Config({ secretKey: "secret", auth: { isRevoked } }));
+          const token = authService.generateToken("alice");
+          const { jti } = jwt.decode(token) as { jti: string };
+
+          await expect(authService.authenticate(createRequest({ authorization: `Bearer ${token}` }))).resolves.toMatchObject({ id: "alice" });
+          authService.revokeToken(jti);
+          await expect(authService.authenticate(createRequest({ authorization: `Bearer ${token}` }))).rejects.toThrow("Token has been revoked");
+          await expect(authService.reauthenticate(token, createRequest())).rejects.toThrow("Token has been revoked");
+          expect(authService.verifyToken(token)).toBeNull();
+
+          const shared = authService.generateToken("bob", { claims: { jti: "shared" } });
+          await expect(authService.authenticate(createRequest({}, `/?token=${shared}`))).rejects.toThrow(AuthenticationError);
+          expect(isRevoked).toHaveBeenCalledWith("shared", expect.objectContaining({ id: "bob" }));
+     });
+});
@@ -0,0 +1,73 @@
+import "reflect-metadata";
+import { AuthorizationService } from "../src/services/AuthorizationService";
+import { IAccessRequest } from "../src/interfaces/IAuthorizationOptions";
+import { Config } from "../src/utils/Config";
+import { User } from "../src/model/User";
+
+describe("AuthorizationService", () => {
+     const admin = new User("alice", ["admin"]);
+     const member = new User("bob", ["member"], { scope: "chat:read chat:write" });
+     const anonymous = User.fromPrincipal(null);
+     let authorizationService: AuthorizationService;
+
+     const request = (action: IAccessRequest["action"], target: string): IAccessRequest => ({ action, target, message: { type: target, sender: "alice", content: null } });
+
+     beforeEach(() => {
+          authorizationService = new AuthorizationService(new Config({
+               authorization: {
+                    events: {
+                         "chat:send": { permissions: ["chat:write"] },
+                         "user:kick": { roles: ["admin", "moderator"] },
+                         "*": { roles: ["member", "admin"] },
+                    },
+                    rooms: {
+                         staff: { roles: ["admin"] },
+                         "*": (user, { target }) => !target.startsWith("private:") || user.claims.tenant === target.slice(8),
+                    },
+                    broadcast: { roles: ["admin"] },
+               },
+          }));
+     });
+
+     test("should require one of the roles of a policy", async () => {
+          await expect(authorizationService.authorize(admin, request("event", "user:kick"))).resolves.toBe(true);
+          await expect(authorizationService.authorize(member, request("event", "user:kick"))).resolves.toBe(false);
+          await expect(authorizationService.authorize(member, request("broadcast", "*"))).resolves.toBe(false);
+     });
+
+     test("should require every permission of a policy", async () => {
+          await expect(authorizationService.authorize(member, request("event", "chat:send"))).resolves.toBe(true);
+          await expect(authorizationService.authorize(admin, request("event", "chat:send"))).resolves.toBe(false);
+     });
+
+     test("should fall back to the wildcard policy", async () => {
+          await expect(authorizationService.authorize(member, request("event", "chat:typing"))).resolves.toBe(true);
+          await expect(authorizationService.authorize(anonymous, request("event", "chat:typing"))).resolves.toBe(false);
+     });
+
+     test("should run access check functions", async () => {
+          const tenant = new User("carol", [], { tenant: "acme" });
+          await expect(authorizationService.authorize(tenant, request("room", "private:acme"))).resolves.toBe(true);
+          await expect(authorizationService.authorize(tenant, request("room", "private:other"))).resolves.toBe(false);
+          await expect(authorizationService.authorize(tenant, request("room", "staff"))).resolves.toBe(false);
+     });
+
+     test("should allow attempts without a policy", async () => {
+          authorizationService = new AuthorizationService(new Config());
+          await expect(authorizationService.authorize(anonymous, request("broadcast", "*"))).resolves.toBe(true);
+     });
+});
+
+describe("User", () => {
+     test("should read permissions from the permissions and scope claims", () => {
+          const user = new User("alice", [], { permissions: ["rooms:create"], scope: "chat:read" });
+          expect(user.hasPermission("rooms:create")).toBe(true);
+          expect(user.hasPermission("chat:read")).toBe(true);
+          expect(user.hasPermission("chat:write")).toBe(false);
+     });
+
+     test("should be created from a principal", () => {
+          expect(User.fromPrincipal({ id: "alice", roles: ["admin"], claims: { tenant: "acme" } })).toEqual(new User("alice", ["admin"], { tenant: "acme" }));
+          expect(User.fromPrincipal(null).username).toBe("Anonymous");
+     });
+});
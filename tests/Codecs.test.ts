@@ -0,0 +1,183 @@
+import { JsonCodec } from "../src/codecs/JsonCodec";
+import { MessagePackCodec } from "../src/codecs/MessagePackCodec";
+import { MessageError } from "../src/utils/MessageError";
+
+describe("JsonCodec", () => {
+     const codec = new JsonCodec();
+
+     test("should round-trip a message", () => {
+          const message = { type: "chat:send", id: "1", content: { text: "hi", n: [1, 2.5, null] } };
+
+          expect(codec.decode(Buffer.from(codec.encode(message)))).toEqual(message);
+     });
+
+     test("should carry binary content as base64", () => {
+          const encoded = codec.encode({ content: { file: Buffer.from("abc"), raw: new Uint8Array([1, 2]).buffer } });
+
+          expect(JSON.parse(encoded)).toEqual({ content: { file: { $binary: "YWJj" }, raw: { $binary: "AQI=" } } });
+          expect(codec.decode(Buffer.from(encoded))).toEqual({ content: { file: Buffer.from("abc"), raw: Buffer.from([1, 2]) } });
+     });
+
+     test("should reject invalid JSON with an INVALID_JSON error", () => {
+          expect(() => codec.decode(Buffer.from("{"))).toThrow(new MessageError("INVALID_JSON", "Invalid JSON format"));
+     });
+});
+
+describe("MessagePackCodec", () => {
+     const codec = new MessagePackCodec();
+
+     test("should round-trip values of every size class", () => {
+          const message = {
+               type: "telemetry",
+               content: {
+                    ints: [0, 127, 128, 255, 256, 65535, 65536, 4294967295, 4294967296, -1, -32, -33, -128, -129, -32768, -32769, -2147483648, -2147483649],
+                    floats: [0.5, -1.25, 1e300],
+                    flags: [true, false, null],
+                    text: ["", "a".repeat(31), "b".repeat(32), "c".repeat(256), "d".repeat(70000), "héllo"],
+                    list: new Array(20).fill(1),
+                    map: Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`k${i}`, i])),
+               },
+          };
+
+          expect(codec.decode(codec.encode(message))).toEqual(message);
+     });
+
+     test("should match the MessagePack wire format", () => {
+          expect(codec.encode({ a: 1, b: [true, null], c: "x" }).toString("hex")).toBe("83a16101a16292c3c0a163a178");
+     });
+
+     test("should carry binary content natively", () => {
+          const encoded = codec.encode({ content: Buffer.from([1, 2, 3]) });
+
+          expect(encoded.toString("hex")).toBe("81a7636f6e74656e74c403010203");
+          expect(codec.decode(encoded)).toEqual({ content: Buffer.from([1, 2, 3]) });
+     });
+
+     test("should encode values the way JSON would", () => {
+          const date = new Date("2024-01-01T00:00:00.000Z");
+
+          expect(codec.decode(codec.encode({ date, skipped: undefined, fn: () => 1 }))).toEqual({ date: date.toISOString() });
+     });
+
+     test("should decode timestamp extensions as dates", () => {
+          expect(codec.decode(Buffer.from("d6ff00000001", "hex"))).toEqual(new Date(1000));
+     });
+
+     test("should not let map keys change the prototype of decoded objects", () => {
+          const decoded = codec.decode(Buffer.from("81a95f5f70726f746f5f5f81a178c3", "hex")) as any;
+
+          expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+          expect(decoded.x).toBeUndefined();
+     });
+
+     test("should reject truncated or trailing data with an INVALID_ENCODING error", () => {
+          const error = new MessageError("INVALID_ENCODING", "Invalid MessagePack data");
+
+          expect(() => codec.decode(Buffer.from("a3616263", "hex").subarray(0, 3))).toThrow(error);
+          expect(() => codec.decode(Buffer.from("c0c0", "hex"))).toThrow(error);
+          expect(() => codec.decode(Buffer.from("c1", "hex"))).toThrow(error);
+     });
+
+     describe("spec conformance", () => {
+          const canonical: [string, unknown][] = [
+               ["c0", null],
+               ["c2", false],
+               ["c3", true],
+               ["00", 0],
+               ["7f", 127],
+               ["cc80", 128],
+               ["ccff", 255],
+               ["cd0100", 256],
+               ["cdffff", 65535],
+               ["ce00010000", 65536],
+               ["ceffffffff", 4294967295],
+               ["cf0000000100000000", 4294967296],
+               ["ff", -1],
+               ["e0", -32],
+               ["d0df", -33],
+               ["d080", -128],
+               ["d1ff7f", -129],
+               ["d18000", -32768],
+               ["d2ffff7fff", -32769],
+               ["d280000000", -2147483648],
+               ["d3ffffffff7fffffff", -2147483649],
+               ["cb3fe0000000000000", 0.5],
+               ["cbbff4000000000000", -1.25],
+               ["a0", ""],
+               ["a161", "a"],
+               ["bf" + "61".repeat(31), "a".repeat(31)],
+               ["d920" + "61".repeat(32), "a".repeat(32)],
+               ["da0100" + "61".repeat(256), "a".repeat(256)],
+               ["a668c3a96c6c6f", "héllo"],
+               ["90", []],
+               ["920102", [1, 2]],
+               ["9f" + "00".repeat(15), new Array(15).fill(0)],
+               ["dc0010" + "00".repeat(16), new Array(16).fill(0)],
+               ["80", {}],
+               ["81a16101", { a: 1 }],
+               ["c4020102", Buffer.from([1, 2])],
+               ["c50100" + "00".repeat(256), Buffer.alloc(256)],
+          ];
+
+          test.each(canonical)("should encode and decode %s", (hex, value) => {
+               expect(codec.encode([value]).toString("hex")).toBe(`91${hex}`);
+               expect(codec.decode(Buffer.from(hex, "hex"))).toEqual(value);
+          });
+
+          test.each([
+               ["cc01", 1],
+               ["cd0001", 1],
+               ["ce00000001", 1],
+               ["cf0000000000000001", 1],
+               ["d001", 1],
+               ["d10001", 1],
+               ["d200000001", 1],
+               ["d30000000000000001", 1],
+               ["ca3fc00000", 1.5],
+               ["d90161", "a"],
+               ["da000161", "a"],
+               ["db0000000161", "a"],
+               ["dc000101", [1]],
+               ["dd0000000101", [1]],
+               ["de0001a16101", { a: 1 }],
+               ["df00000001a16101", { a: 1 }],
+               ["c600000001ff", Buffer.from([0xff])],
+               ["d6ff00000001", new Date(1000)],
+               ["d7ff0000000400000001", new Date(1000)],
+               ["c70cff000000000000000000000001", new Date(1000)],
+          ])("should decode the alternative encoding %s", (hex, value) => {
+               expect(codec.decode(Buffer.from(hex, "hex"))).toEqual(value);
+          });
+     });
+
+     describe("malformed input", () => {
+          const error = new MessageError("INVALID_ENCODING", "Invalid MessagePack data");
+
+          test.each(["cc", "cd01", "ce000001", "cf00000000000000", "cb3fe00000", "d9", "d90561", "c40301", "9201", "81a161", "d6ff0000"])(
+               "should reject the truncated data %s",
+               (hex) => {
+                    expect(() => codec.decode(Buffer.from(hex, "hex"))).toThrow(error);
+               }
+          );
+
+          test.each(["dbffffffff61", "c6ffffffff01", "c9ffffffffff", "ddffffffffc0", "dfffffffffa161c0", "dcffff"])(
+               "should reject the length header %s exceeding the data",
+               (hex) => {
+                    expect(() => codec.decode(Buffer.from(hex, "hex"))).toThrow(error);
+               }
+          );
+
+          test("should reject data nested too deeply", () => {
+               const nested = (depth: number) => Buffer.concat([Buffer.alloc(depth, 0x91), Buffer.from([0xc0])]);
+
+               expect(codec.decode(nested(100))).toHaveLength(1);
+               expect(() => codec.decode(nested(101))).toThrow(error);
+               expect(() => codec.decode(nested(1000000))).toThrow(error);
+          });
+
+          test("should reject unsupported extensions and timestamp lengths", () => {
+               expect(() => codec.decode(Buffer.from("d40100", "hex"))).toThrow(error);
+               expect(() => codec.decode(Buffer.from("d5ff0000", "hex"))).toThrow(error);
+          });
+     });
+});
@@ -0,0 +1,43 @@
+import { InMemoryMessageStore } from "../src/stores/InMemoryMessageStore";
+import { IMessage } from "../src/interfaces/IMessage";
+
+const message = (content: string): IMessage<string> => ({ sender: "alice", content });
+
+describe("InMemoryMessageStore", () => {
+     let store: InMemoryMessageStore;
+
+     beforeEach(() => {
+          store = new InMemoryMessageStore(3);
+     });
+
+     test("should assign increasing sequence ids across streams", () => {
+          expect(store.append("broadcast", message("a"))).toBe(1);
+          expect(store.append("room:lobby", message("b"))).toBe(2);
+          expect(store.append("broadcast", message("c"))).toBe(3);
+     });
+
+     test("should return the messages after a sequence id, oldest first", () => {
+          store.append("broadcast", message("a"));
+          store.append("room:lobby", message("b"));
+          store.append("room:other", message("c"));
+          store.append("broadcast", message("d"));
+
+          const messages = store.since(["broadcast", "room:lobby"], 1, 10);
+
+          expect(messages.map(m => [m.seq, m.content])).toEqual([[2, "b"], [4, "d"]]);
+     });
+
+     test("should keep the latest messages of each stream", () => {
+          ["a", "b", "c", "d", "e"].forEach(content => store.append("broadcast", message(content)));
+          store.append("room:lobby", message("f"));
+
+          expect(store.since(["broadcast"], 0, 10).map(m => m.content)).toEqual(["c", "d", "e"]);
+          expect(store.since(["room:lobby"], 0, 10).map(m => m.content)).toEqual(["f"]);
+     });
+
+     test("should limit the number of returned messages", () => {
+          ["a", "b", "c"].forEach(content => store.append("broadcast", message(content)));
+
+          expect(store.since(["broadcast"], 0, 2).map(m => m.content)).toEqual(["a", "b"]);
+     });
+});
@@ -0,0 +1,48 @@
+import "reflect-metadata";
+import { PassThrough } from "stream";
+import { LoggerService } from "../src/services/LoggerService";
+import { JsonLineTransport } from "../src/transports/JsonLineTransport";
+import { Config } from "../src/utils/Config";
+import { ILogEntry } from "../src/interfaces/ILogger";
+
+describe("LoggerService", () => {
+     test("should discard entries below the configured level", () => {
+          const entries: ILogEntry[] = [];
+          const logger = new LoggerService(
+               new Config({ logging: { level: "warn", transports: [{ write: (entry) => entries.push(entry) }] } })
+          );
+
+          logger.debug("debug message");
+          logger.info("info message");
+          logger.warn("warn message", { user: "client1" });
+          logger.error("error message");
+
+          expect(entries.map((entry) => entry.level)).toEqual(["warn", "error"]);
+          expect(entries[0].fields).toEqual({ user: "client1" });
+     });
+
+     test("should only log errors when logging is disabled", () => {
+          const entries: ILogEntry[] = [];
+          const logger = new LoggerService(
+               new Config({ enableLogging: false, logging: { transports: [{ write: (entry) => entries.push(entry) }] } })
+          );
+
+          logger.warn("warn message");
+          logger.error("error message");
+
+          expect(entries.map((entry) => entry.message)).toEqual(["error message"]);
+     });
+
+     test("should write structured fields as JSON lines", () => {
+          const stream = new PassThrough();
+          const logger = new LoggerService(
+               new Config({ logging: { transports: [new JsonLineTransport(stream)] } })
+          );
+
+          logger.info("User connected", { user: "client1", event: "connect" });
+
+          const line = JSON.parse(stream.read().toString());
+          expect(line).toMatchObject({ level: "info", message: "User connected", user: "client1", event: "connect" });
+          expect(typeof line.timestamp).toBe("string");
+     });
+});
@@ -0,0 +1,49 @@
+import "reflect-metadata";
+import { MetricsService } from "../src/services/MetricsService";
+import { Config } from "../src/utils/Config";
+
+describe("MetricsService", () => {
+     let metricsService: MetricsService;
+
+     beforeEach(() => {
+          metricsService = new MetricsService(new Config({ metrics: { prefix: "test_" } }));
+     });
+
+     test("should render counters and gauges in the Prometheus text format", () => {
+          metricsService.counter("messages_total", "Messages.").inc({ event: "chat:send" }, 2);
+          const gauge = metricsService.gauge("connections", "Connections.");
+          gauge.inc();
+          gauge.inc();
+          gauge.dec();
+
+          expect(metricsService.render()).toBe(
+               [
+                    "# HELP test_messages_total Messages.",
+                    "# TYPE test_messages_total counter",
+                    'test_messages_total{event="chat:send"} 2',
+                    "# HELP test_connections Connections.",
+                    "# TYPE test_connections gauge",
+                    "test_connections 1",
+                    "",
+               ].join("\n")
+          );
+     });
+
+     test("should render cumulative histogram buckets", () => {
+          const histogram = metricsService.histogram("duration_seconds", "Duration.", [0.1, 1]);
+          histogram.observe(0.05);
+          histogram.observe(0.5);
+          histogram.observe(5);
+
+          const output = metricsService.render();
+          expect(output).toContain('test_duration_seconds_bucket{le="0.1"} 1');
+          expect(output).toContain('test_duration_seconds_bucket{le="1"} 2');
+          expect(output).toContain('test_duration_seconds_bucket{le="+Inf"} 3');
+          expect(output).toContain("test_duration_seconds_sum 5.55");
+          expect(output).toContain("test_duration_seconds_count 3");
+     });
+
+     test("should return the existing metric for a registered name", () => {
+          expect(metricsService.counter("messages_total", "Messages.")).toBe(metricsService.counter("messages_total", "Messages."));
+     });
+});
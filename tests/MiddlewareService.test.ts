@@ -0,0 +1,74 @@
+import "reflect-metadata";
+import { IncomingMessage } from "http";
+import { MiddlewareService } from "../src/services/MiddlewareService";
+import { IHandshakeContext } from "../src/interfaces/IMiddleware";
+
+describe("MiddlewareService", () => {
+     let middlewareService: MiddlewareService;
+     let context: IHandshakeContext;
+
+     beforeEach(() => {
+          middlewareService = new MiddlewareService();
+          context = { request: {} as IncomingMessage, principal: null, data: {} };
+     });
+
+     test("should run middleware in order around next()", async () => {
+          const calls: string[] = [];
+          middlewareService.use("handshake", async (_context, next) => {
+               calls.push("first:before");
+               await next();
+               calls.push("first:after");
+          });
+          middlewareService.use("handshake", (_context, next) => {
+               calls.push("second");
+               return next();
+          });
+
+          await expect(middlewareService.runHandshake(context)).resolves.toBe(true);
+          expect(calls).toEqual(["first:before", "second", "first:after"]);
+     });
+
+     test("should share the context between middleware", async () => {
+          middlewareService.use("handshake", (context, next) => {
+               context.data.tenant = "acme";
+               return next();
+          });
+
+          await middlewareService.runHandshake(context);
+          expect(context.data).toEqual({ tenant: "acme" });
+     });
+
+     test("should report a chain stopped by middleware that does not call next()", async () => {
+          const last = jest.fn();
+          middlewareService.use("handshake", () => undefined);
+          middlewareService.use("handshake", last);
+
+          await expect(middlewareService.runHandshake(context)).resolves.toBe(false);
+          expect(last).not.toHaveBeenCalled();
+     });
+
+     test("should reject with the error thrown by middleware", async () => {
+          middlewareService.use("handshake", async () => {
+               throw new Error("Denied");
+          });
+
+          await expect(middlewareService.runHandshake(context)).rejects.toThrow("Denied");
+     });
+
+     test("should reject when next() is called more than once", async () => {
+          middlewareService.use("handshake", async (_context, next) => {
+               await next();
+               await next();
+          });
+
+          await expect(middlewareService.runHandshake(context)).rejects.toThrow("next() called multiple times");
+     });
+
+     test("should keep the handshake and message chains separate", async () => {
+          const handshake = jest.fn((_context, next) => next());
+          middlewareService.use("handshake", handshake);
+
+          await expect(middlewareService.runMessage({} as any)).resolves.toBe(true);
+          expect(handshake).not.toHaveBeenCalled();
+     });
+});
@@ -0,0 +1,79 @@
+import { OutboundQueue } from "../src/utils/OutboundQueue";
+
+describe("OutboundQueue", () => {
+     const drain = (queue: OutboundQueue<string>) => {
+          const items: string[] = [];
+          let item: string | undefined;
+          while ((item = queue.shift()) !== undefined) {
+               items.push(item);
+          }
+          return items;
+     };
+
+     test("should dequeue control messages before data messages", () => {
+          const queue = new OutboundQueue<string>(10, "drop-oldest");
+          queue.push("a", "data");
+          queue.push("ack", "control");
+          queue.push("b", "data");
+
+          expect(queue.size).toBe(3);
+          expect(drain(queue)).toEqual(["ack", "a", "b"]);
+     });
+
+     test("should drop the oldest data message when full", () => {
+          const queue = new OutboundQueue<string>(2, "drop-oldest");
+          queue.push("a", "data");
+          queue.push("b", "data");
+
+          expect(queue.push("c", "data")).toBe("drop-oldest");
+          expect(drain(queue)).toEqual(["b", "c"]);
+     });
+
+     test("should drop the newest data message when full", () => {
+          const queue = new OutboundQueue<string>(2, "drop-newest");
+          queue.push("a", "data");
+          queue.push("b", "data");
+
+          expect(queue.push("c", "data")).toBe("drop-newest");
+          expect(drain(queue)).toEqual(["a", "b"]);
+     });
+
+     test("should report overflows under the disconnect policy", () => {
+          const queue = new OutboundQueue<string>(1, "disconnect");
+
+          expect(queue.push("a", "data")).toBeNull();
+          expect(queue.push("b", "data")).toBe("disconnect");
+     });
+
+     test("should never drop control messages", () => {
+          const queue = new OutboundQueue<string>(1, "drop-newest");
+          queue.push("a", "data");
+
+          expect(queue.push("error", "control")).toBeNull();
+          expect(queue.push("ack", "control")).toBeNull();
+          expect(queue.clear()).toBe(3);
+          expect(queue.size).toBe(0);
+     });
+
+     test("should report overflows of the control lane as a disconnect, whatever the policy", () => {
+          const queue = new OutboundQueue<string>(10, "drop-oldest", 2);
+          queue.push("a", "control");
+          queue.push("b", "control");
+
+          expect(queue.push("c", "control")).toBe("disconnect");
+          expect(queue.push("d", "data")).toBeNull();
+          expect(drain(queue)).toEqual(["a", "b", "d"]);
+     });
+
+     test("should remove a queued message from either lane", () => {
+          const queue = new OutboundQueue<string>(10, "drop-oldest");
+          queue.push("a", "data");
+          queue.push("b", "data");
+          queue.push("ack", "control");
+
+          expect(queue.remove("a")).toBe(true);
+          expect(queue.remove("ack")).toBe(true);
+          expect(queue.remove("c")).toBe(false);
+          expect(drain(queue)).toEqual(["b"]);
+     });
+});
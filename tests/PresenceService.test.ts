@@ -0,0 +1,73 @@
+import "reflect-metadata";
+import { PresenceService } from "../src/services/PresenceService";
+import { IPresenceChange } from "../src/interfaces/IPresenceService";
+import { Config } from "../src/utils/Config";
+
+describe("PresenceService", () => {
+     let presenceService: PresenceService;
+     let changes: string[];
+
+     beforeEach(() => {
+          jest.useFakeTimers();
+          presenceService = new PresenceService(new Config({ presence: { gracePeriod: 1000 } }));
+          changes = [];
+          presenceService.onChange(({ type, presence }: IPresenceChange) => changes.push(`${type}:${presence.user}`));
+     });
+
+     afterEach(() => {
+          jest.useRealTimers();
+     });
+
+     test("should aggregate the connections of a user", () => {
+          presenceService.connect("alice");
+          presenceService.connect("alice");
+          presenceService.disconnect("alice");
+
+          expect(presenceService.get("alice")).toMatchObject({ user: "alice", connections: 1 });
+          expect(changes).toEqual(["online:alice"]);
+     });
+
+     test("should go offline once the grace period has elapsed", () => {
+          presenceService.connect("alice");
+          presenceService.disconnect("alice");
+
+          jest.advanceTimersByTime(999);
+          expect(presenceService.getOnlineUsers()).toHaveLength(1);
+
+          jest.advanceTimersByTime(1);
+          expect(presenceService.get("alice")).toBeNull();
+          expect(changes).toEqual(["online:alice", "offline:alice"]);
+     });
+
+     test("should stay online when reconnecting within the grace period", () => {
+          presenceService.connect("alice");
+          presenceService.disconnect("alice");
+          jest.advanceTimersByTime(500);
+          presenceService.connect("alice");
+          jest.advanceTimersByTime(1000);
+
+          expect(presenceService.get("alice")).toMatchObject({ connections: 1 });
+          expect(changes).toEqual(["online:alice"]);
+     });
+
+     test("should keep status metadata until the user goes offline", () => {
+          expect(presenceService.setStatus("alice", { state: "away" })).toBeNull();
+
+          presenceService.connect("alice");
+          expect(presenceService.setStatus("alice", { state: "away" })).toMatchObject({ status: { state: "away" } });
+          expect(changes).toEqual(["online:alice", "status:alice"]);
+
+          presenceService.disconnect("alice");
+          jest.advanceTimersByTime(1000);
+          presenceService.connect("alice");
+          expect(presenceService.get("alice")?.status).toEqual({});
+     });
+
+     test("should go offline immediately without a grace period", () => {
+          presenceService = new PresenceService(new Config({ presence: { gracePeriod: 0 } }));
+          presenceService.connect("alice");
+          presenceService.disconnect("alice");
+
+          expect(presenceService.getOnlineUsers()).toEqual([]);
+     });
+});
@@ -0,0 +1,92 @@
+import "reflect-metadata";
+import { RateLimiterService } from "../src/services/RateLimiterService";
+
+describe("RateLimiterService", () => {
+     const policy = { capacity: 2, refillPerSecond: 1 };
+     let rateLimiter: RateLimiterService;
+
+     beforeEach(() => {
+          jest.useFakeTimers();
+          rateLimiter = new RateLimiterService();
+     });
+
+     afterEach(() => {
+          jest.useRealTimers();
+     });
+
+     test("should allow a burst up to the capacity of the bucket", () => {
+          expect(rateLimiter.consume("client1", policy)).toEqual({ allowed: true, remaining: 1, retryAfter: 0 });
+          expect(rateLimiter.consume("client1", policy)).toEqual({ allowed: true, remaining: 0, retryAfter: 0 });
+          expect(rateLimiter.consume("client1", policy)).toEqual({ allowed: false, remaining: 0, retryAfter: 1000 });
+     });
+
+     test("should refill the bucket over time", () => {
+          rateLimiter.consume("client1", policy);
+          rateLimiter.consume("client1", policy);
+
+          jest.advanceTimersByTime(500);
+          expect(rateLimiter.consume("client1", policy)).toMatchObject({ allowed: false, retryAfter: 500 });
+
+          jest.advanceTimersByTime(500);
+          expect(rateLimiter.consume("client1", policy).allowed).toBe(true);
+     });
+
+     test("should not refill the bucket beyond its capacity", () => {
+          rateLimiter.consume("client1", policy);
+
+          jest.advanceTimersByTime(60000);
+          expect(rateLimiter.consume("client1", policy).remaining).toBe(1);
+     });
+
+     test("should keep separate buckets per key", () => {
+          rateLimiter.consume("client1", policy);
+          rateLimiter.consume("client1", policy);
+
+          expect(rateLimiter.consume("client2", policy).allowed).toBe(true);
+     });
+
+     test("should start over with a full bucket after a reset", () => {
+          rateLimiter.consume("client1", policy);
+          rateLimiter.consume("client1", policy);
+          rateLimiter.reset("client1");
+
+          expect(rateLimiter.consume("client1", policy)).toEqual({ allowed: true, remaining: 1, retryAfter: 0 });
+     });
+
+     test("should discard buckets once they have refilled completely", () => {
+          rateLimiter.consume("client1", policy);
+          rateLimiter.consume("client2", policy);
+          rateLimiter.consume("client2", policy);
+          expect(rateLimiter.size).toBe(2);
+
+          jest.advanceTimersByTime(60000);
+          rateLimiter.consume("client3", policy);
+          expect(rateLimiter.size).toBe(1);
+          expect(rateLimiter.consume("client1", policy)).toEqual({ allowed: true, remaining: 1, retryAfter: 0 });
+     });
+
+     test("should keep buckets that have not refilled yet", () => {
+          const slow = { capacity: 2, refillPerSecond: 0.01 };
+          rateLimiter.consume("client1", slow);
+          rateLimiter.consume("client1", slow);
+
+          jest.advanceTimersByTime(60000);
+          rateLimiter.consume("client2", policy);
+          expect(rateLimiter.size).toBe(2);
+          expect(rateLimiter.consume("client1", slow).allowed).toBe(false);
+     });
+
+     test("should report a finite retry delay and discard idle buckets that do not refill", () => {
+          const fixed = { capacity: 1, refillPerSecond: 0 };
+          rateLimiter.consume("client1", fixed);
+
+          expect(rateLimiter.consume("client1", fixed)).toEqual({ allowed: false, remaining: 0, retryAfter: 3600000 });
+          jest.advanceTimersByTime(3599999);
+          expect(rateLimiter.consume("client1", fixed).allowed).toBe(false);
+
+          jest.advanceTimersByTime(3600000);
+          rateLimiter.consume("client2", policy);
+          expect(rateLimiter.size).toBe(1);
+          expect(rateLimiter.consume("client1", fixed).allowed).toBe(true);
+     });
+});
@@ -0,0 +1,45 @@
+import "reflect-metadata";
+import WebSocket from "ws";
+import { RoomService } from "../src/services/RoomService";
+import { ILogger } from "../src/interfaces/ILogger";
+
+describe("RoomService", () => {
+     const logger: ILogger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn(), log: jest.fn() };
+     let roomService: RoomService;
+     let ws1: WebSocket;
+     let ws2: WebSocket;
+
+     beforeEach(() => {
+          roomService = new RoomService(logger);
+          ws1 = {} as WebSocket;
+          ws2 = {} as WebSocket;
+     });
+
+     test("should track members of a room", () => {
+          roomService.join(ws1, "lobby");
+          roomService.join(ws2, "lobby");
+
+          expect(roomService.getMembers("lobby")).toEqual([ws1, ws2]);
+          expect(roomService.isMember(ws1, "lobby")).toBe(true);
+          expect(roomService.getRooms(ws1)).toEqual(["lobby"]);
+     });
+
+     test("should remove a room once its last member leaves", () => {
+          roomService.join(ws1, "lobby");
+
+          expect(roomService.leave(ws1, "lobby")).toBe(true);
+          expect(roomService.leave(ws1, "lobby")).toBe(false);
+          expect(roomService.getMembers("lobby")).toEqual([]);
+          expect(roomService.getRooms(ws1)).toEqual([]);
+     });
+
+     test("should leave every room on disconnect", () => {
+          roomService.join(ws1, "lobby");
+          roomService.join(ws1, "games");
+          roomService.join(ws2, "games");
+
+          expect(roomService.leaveAll(ws1)).toEqual(["lobby", "games"]);
+          expect(roomService.getMembers("lobby")).toEqual([]);
+          expect(roomService.getMembers("games")).toEqual([ws2]);
+     });
+});
@@ -0,0 +1,72 @@
+import "reflect-metadata";
+import { ValidationService } from "../src/services/ValidationService";
+import { Config } from "../src/utils/Config";
+
+describe("ValidationService", () => {
+     let validator: ValidationService;
+
+     beforeEach(() => {
+          validator = new ValidationService(new Config({
+               schemas: {
+                    "chat:send": {
+                         type: "object",
+                         required: ["text"],
+                         properties: {
+                              text: { type: "string", minLength: 1, maxLength: 10 },
+                              tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+                              priority: { enum: ["low", "high"] },
+                         },
+                         additionalProperties: false,
+                    },
+               },
+          }));
+     });
+
+     test("should accept a payload matching the schema of its event", () => {
+          const message = { type: "chat:send", sender: "client1", content: { text: "hi", tags: ["a"], priority: "low" } };
+
+          expect(validator.validate("chat:send", message)).toEqual([]);
+     });
+
+     test("should report the path of every failing value", () => {
+          const message = { type: "chat:send", sender: "client1", content: { tags: ["a", 1], priority: "urgent", extra: true } };
+
+          expect(validator.validate("chat:send", message)).toEqual([
+               { path: "content.text", message: "is required" },
+               { path: "content.tags[1]", message: "must be of type string" },
+               { path: "content.priority", message: 'must be one of "low", "high"' },
+               { path: "content.extra", message: "is not allowed" },
+          ]);
+     });
+
+     test("should accept any payload for events without a schema", () => {
+          expect(validator.validate("other", { sender: "client1", content: 42 })).toEqual([]);
+     });
+
+     test("should run validator functions and report what they return", () => {
+          validator.register("sum", (payload: any) => typeof payload?.a === "number" || [{ path: "content.a", message: "must be a number" }]);
+
+          expect(validator.validate("sum", { sender: "client1", content: { a: 1 } })).toEqual([]);
+          expect(validator.validate("sum", { sender: "client1", content: {} })).toEqual([{ path: "content.a", message: "must be a number" }]);
+     });
+
+     test("should report errors thrown by validator functions", () => {
+          validator.register("sum", () => {
+               throw new Error("boom");
+          });
+
+          expect(validator.validate("sum", { sender: "client1", content: {} })).toEqual([{ path: "content", message: "boom" }]);
+     });
+
+     test("should stop validating an event once its schema is removed", () => {
+          validator.unregister("chat:send");
+
+          expect(validator.validate("chat:send", { sender: "client1", content: null })).toEqual([]);
+     });
+
+     test("should reject envelopes that are not objects or have malformed routing fields", () => {
+          expect(validator.validateEnvelope(5)).toEqual([{ path: "", message: "must be of type object" }]);
+          expect(validator.validateEnvelope({ type: "message", room: 7 })).toEqual([{ path: "room", message: "must be of type string" }]);
+          expect(validator.validateEnvelope({ type: "message", content: 7 })).toEqual([]);
+     });
+});
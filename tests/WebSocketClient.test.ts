@@ -0,0 +1,193 @@
+import "reflect-metadata";
+import WebSocket from "ws";
+import { WebSocketManager } from "../src/api/WebSocketManager";
+import { WebSocketClient } from "../src/client/WebSocketClient";
+import { InMemoryMessageStore } from "../src/stores/InMemoryMessageStore";
+import { MessageError } from "../src/utils/MessageError";
+import { ERROR_CODES } from "../src/config/errorCodes";
+
+const port = 4003;
+const url = `ws://localhost:${port}`;
+
+const createManager = (messageStore: InMemoryMessageStore) => {
+     const wsManager = new WebSocketManager({
+          port,
+          secretKey: "clientSecretKey",
+          enableLogging: false,
+          messageStore,
+          shutdown: { reconnectDelay: 50, drainTimeout: 500 },
+     });
+     wsManager.on("echo", (payload) => payload);
+     wsManager.on("fail", () => {
+          throw new MessageError(ERROR_CODES.FORBIDDEN, "Not allowed");
+     });
+     return wsManager;
+};
+
+const waitFor = async (condition: () => boolean, timeout = 3000) => {
+     const deadline = Date.now() + timeout;
+     while (!condition()) {
+          if (Date.now() > deadline) {
+               throw new Error("Condition not met in time");
+          }
+          await new Promise((resolve) => setTimeout(resolve, 20));
+     }
+};
+
+describe("WebSocketClient", () => {
+     let messageStore: InMemoryMessageStore;
+     let wsManager: WebSocketManager;
+     let client: WebSocketClient;
+
+     beforeEach(async () => {
+          messageStore = new InMemoryMessageStore();
+          wsManager = createManager(messageStore);
+          await wsManager.start();
+     });
+
+     afterEach(async () => {
+          client?.close();
+          await wsManager.stop();
+     });
+
+     test("should resolve requests with the ack and reject them with the error", async () => {
+          client = new WebSocketClient({ url, token: () => wsManager.generateToken("alice"), WebSocket });
+          await client.connect();
+
+          expect(client.getState()).toBe("open");
+          await expect(client.request("echo", { text: "hi" })).resolves.toEqual({ text: "hi" });
+          await expect(client.request("fail")).rejects.toMatchObject({ code: ERROR_CODES.FORBIDDEN });
+     });
+
+     test("should answer requests from the server", async () => {
+          client = new WebSocketClient({ url, token: () => wsManager.generateToken("alice"), WebSocket });
+          client.on("ping", (content: number) => content + 1);
+          await client.connect();
+
+          await expect(wsManager.request("alice", "ping", 41)).resolves.toBe(42);
+     });
+
+     test("should reconnect, rejoin rooms, replay missed messages and flush the offline queue", async () => {
+          const received: number[] = [];
+          client = new WebSocketClient({
+               url,
+               token: () => wsManager.generateToken("alice"),
+               WebSocket,
+               reconnect: { initialDelay: 50, jitter: 0 },
+          });
+          client.on("message", (content: { n: number }) => {
+               received.push(content.n);
+          });
+          await client.connect();
+          await client.join("lobby");
+
+          wsManager.broadcastToRoom("lobby", { sender: "server", content: { n: 1 } });
+          await waitFor(() => received.length === 1);
+
+          const reconnecting = jest.fn();
+          client.onReconnecting(reconnecting);
+          await wsManager.stop();
+          await waitFor(() => client.getState() === "reconnecting");
+
+          client.send("echo", "queued");
+          wsManager = createManager(messageStore);
+          const echoed = jest.fn();
+          wsManager.on("echo", echoed);
+          messageStore.append("room:lobby", { type: "message", sender: "server", content: { n: 2 } });
+          await wsManager.start();
+
+          await waitFor(() => client.getState() === "open");
+          await waitFor(() => received.length === 2 && echoed.mock.calls.length === 1);
+          expect(reconnecting).toHaveBeenCalled();
+          expect(received).toEqual([1, 2]);
+          expect(echoed.mock.calls[0][0]).toBe("queued");
+          expect(wsManager.getRoomMembers("lobby")).toEqual(["alice"]);
+     });
+
+     test("should not send offline requests that timed out or were cancelled by close()", async () => {
+          client = new WebSocketClient({
+               url,
+               token: () => wsManager.generateToken("alice"),
+               WebSocket,
+               reconnect: { initialDelay: 50, jitter: 0 },
+          });
+          await client.connect();
+          await wsManager.stop();
+          await waitFor(() => client.getState() === "reconnecting");
+
+          const timedOut = client.request("echo", "timed out", { timeout: 20 });
+          await expect(timedOut).rejects.toMatchObject({ code: ERROR_CODES.REQUEST_TIMEOUT });
+          client.send("echo", "queued");
+          const cancelled = client.request("echo", "cancelled");
+          client.close();
+          await expect(cancelled).rejects.toThrow("Client closed");
+
+          wsManager = createManager(messageStore);
+          const echoed = jest.fn();
+          wsManager.on("echo", echoed);
+          await wsManager.start();
+          await client.connect();
+          await client.request("echo", "after");
+
+          expect(echoed.mock.calls.map((call) => call[0])).toEqual(["queued", "after"]);
+     });
+
+     test("should be importable from the client entry without server dependencies", () => {
+          jest.isolateModules(() => {
+               for (const name of ["ws", "express", "inversify", "jsonwebtoken", "reflect-metadata", "http", "fs", "crypto", "zlib"]) {
+                    jest.doMock(name, () => {
+                         throw new Error(`${name} is a server dependency`);
+                    });
+               }
+               const entry = require("../src/client");
+               expect(entry.WebSocketClient).toBeDefined();
+               expect(entry.MessageError).toBeDefined();
+               expect(entry.ERROR_CODES.REQUEST_TIMEOUT).toBe(ERROR_CODES.REQUEST_TIMEOUT);
+          });
+     });
+
+     test("should stop reconnecting when the token is revoked", async () => {
+          client = new WebSocketClient({
+               url,
+               token: () => wsManager.generateToken("alice", { claims: { jti: "revoked-jti" } }),
+               WebSocket,
+               reconnect: { initialDelay: 50 },
+          });
+          const closed = jest.fn();
+          client.onClose(closed);
+          await client.connect();
+
+          wsManager.revokeToken("revoked-jti");
+          await waitFor(() => closed.mock.calls.length === 1);
+          expect(closed.mock.calls[0][0].code).toBe(4002);
+          expect(client.getState()).toBe("closed");
+     });
+
+     test("should stop reconnecting when the server closes for a policy violation or an expired token", async () => {
+          for (const code of [1008, 4001]) {
+               client = new WebSocketClient({ url, token: () => wsManager.generateToken("alice"), WebSocket, reconnect: { initialDelay: 50 } });
+               const reconnecting = jest.fn();
+               client.onReconnecting(reconnecting);
+               await client.connect();
+
+               wsManager.disconnectUser("alice", code);
+               await waitFor(() => client.getState() === "closed");
+               await new Promise((resolve) => setTimeout(resolve, 100));
+               expect(reconnecting).not.toHaveBeenCalled();
+          }
+     });
+
+     test("should not retry connecting with credentials the server refuses", async () => {
+          client = new WebSocketClient({ url, token: "invalid", WebSocket, reconnect: { initialDelay: 50 } });
+          const reconnecting = jest.fn();
+          const closed = jest.fn();
+          client.onReconnecting(reconnecting);
+          client.onClose(closed);
+
+          await client.connect();
+          await waitFor(() => client.getState() === "closed");
+          await new Promise((resolve) => setTimeout(resolve, 100));
+          expect(closed.mock.calls.map(([info]) => info.code)).toEqual([1008]);
+          expect(reconnecting).not.toHaveBeenCalled();
+     });
+});
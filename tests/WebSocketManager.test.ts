@@ -1,7 +1,14 @@
 import "reflect-metadata";
 import { IMessage } from "../src/interfaces/IMessage";
+import { IConnection } from "../src/interfaces/IConnection";
+import { IDisconnectInfo } from "../src/interfaces/IDisconnectInfo";
+import { IMessageStore } from "../src/interfaces/IMessageStore";
 import WebSocket from "ws";
-import { WebSocketManager } from "../src/WebSocketManager";
+import http from "http";
+import { WebSocketManager } from "../src/api/WebSocketManager";
+import { InMemoryMessageStore } from "../src/stores/InMemoryMessageStore";
+import { MessageError } from "../src/utils/MessageError";
+import { RejectionError } from "../src/utils/RejectionError";
 
 describe("WebSocketManager", () => {
      let wsManager: WebSocketManager;
@@ -9,7 +16,7 @@ describe("WebSocketManager", () => {
      let clientToken2: string;
      const port = 4000;
 
-     beforeAll(() => {
+     beforeAll(async () => {
           wsManager = new WebSocketManager({
                port,
                secretKey: "sampleCecretKey",
@@ -19,11 +26,11 @@ describe("WebSocketManager", () => {
           clientToken1 = wsManager.generateToken("client1");
           clientToken2 = wsManager.generateToken("client1");
 
-          wsManager.start();
+          await wsManager.start();
      });
 
-     afterAll(() => {
-          wsManager.stop();
+     afterAll(async () => {
+          await wsManager.stop();
      });
 
      test("should accept WebSocket connections", async () => {
@@ -126,3 +133,749 @@ describe("WebSocketManager", () => {
           });
      });
 });
+
+describe("WebSocketManager shutdown", () => {
+     const port = 4001;
+
+     test("should reject start() when the port is in use", async () => {
+          const first = new WebSocketManager({ port, enableLogging: false });
+          const second = new WebSocketManager({ port, enableLogging: false });
+
+          await first.start();
+          await expect(second.start()).rejects.toMatchObject({ code: "EADDRINUSE" });
+
+          await first.stop();
+          await second.stop();
+     });
+
+     test("should notify clients and close them when stopping", async () => {
+          const wsManager = new WebSocketManager({ port, enableLogging: false, shutdown: { reconnectDelay: 2000 } });
+          await wsManager.start();
+
+          const ws = new WebSocket(`ws://localhost:${port}`);
+          const messages: any[] = [];
+          ws.on("message", (data) => messages.push(JSON.parse(data.toString())));
+          const closed = new Promise<number>((resolve) => ws.on("close", resolve));
+          await new Promise((resolve) => ws.on("open", resolve));
+
+          await wsManager.stop();
+
+          expect(await closed).toBe(1001);
+          expect(messages).toEqual([{ type: "server:shutdown", sender: "server", content: { reconnectIn: 2000 } }]);
+     });
+});
+
+describe("WebSocketManager on a shared server", () => {
+     const port = 4002;
+
+     const connect = (path: string) =>
+          new Promise<WebSocket | number>((resolve) => {
+               const ws = new WebSocket(`ws://localhost:${port}${path}`);
+               ws.on("open", () => resolve(ws));
+               ws.on("unexpected-response", (_request, response) => resolve(response.statusCode!));
+          });
+
+     test("should route upgrade requests by path", async () => {
+          const server = http.createServer();
+          const chat = new WebSocketManager({ server, path: "/chat", enableLogging: false });
+          const events = new WebSocketManager({ server, path: "/events", enableLogging: false });
+          chat.on("whoami", () => "chat");
+          events.on("whoami", () => "events");
+
+          await new Promise<void>((resolve) => server.listen(port, resolve));
+          await chat.start();
+          await events.start();
+
+          const ws = (await connect("/events")) as WebSocket;
+          const reply = new Promise((resolve) => ws.on("message", (data) => resolve(JSON.parse(data.toString()))));
+          ws.send(JSON.stringify({ type: "whoami", id: "1" }));
+
+          expect(await reply).toEqual({ type: "ack", id: "1", content: "events" });
+          expect(await connect("/unknown")).toBe(404);
+
+          await chat.stop();
+          expect(server.listening).toBe(true);
+          expect(await connect("/chat")).toBe(404);
+
+          await events.stop();
+          await new Promise((resolve) => server.close(resolve));
+     });
+});
+
+describe("WebSocketManager connections", () => {
+     const port = 4004;
+
+     test("should expose connections to hooks and handlers and close them by id", async () => {
+          const connected: IConnection[] = [];
+          const disconnected: IDisconnectInfo[] = [];
+          const wsManager = new WebSocketManager({
+               port,
+               enableLogging: false,
+               onConnect: (connection) => connected.push(connection),
+               onDisconnect: (info) => disconnected.push(info),
+          });
+          wsManager.on("whoami", (_payload, { connection }) => connection.id);
+          await wsManager.start();
+
+          const ws = new WebSocket(`ws://localhost:${port}`, { headers: { "x-client": "test" } });
+          const reply = new Promise((resolve) => ws.on("message", (data) => resolve(JSON.parse(data.toString()))));
+          const closed = new Promise<number>((resolve) => ws.on("close", resolve));
+          await new Promise((resolve) => ws.on("open", resolve));
+          ws.send(JSON.stringify({ type: "whoami", id: "1" }));
+
+          const [connection] = connected;
+          expect(await reply).toEqual({ type: "ack", id: "1", content: connection.id });
+          expect(connection).toMatchObject({ user: "Anonymous", principal: null, protocol: "" });
+          expect(connection.headers["x-client"]).toBe("test");
+          expect(wsManager.getConnections()).toEqual([connection]);
+          expect(wsManager.getConnection(connection.id)).toBe(connection);
+
+          expect(() => wsManager.disconnect(connection.id, 2000)).toThrow("Invalid close code 2000");
+          expect(() => wsManager.disconnect(connection.id, 1006)).toThrow("Invalid close code 1006");
+          expect(() => wsManager.disconnect(connection.id, 4100, "x".repeat(124))).toThrow("Close reason exceeds 123 bytes");
+          expect(() => wsManager.disconnectUser(connection.user, 1005)).toThrow("Invalid close code 1005");
+          expect(wsManager.getConnection(connection.id)).toBe(connection);
+
+          expect(wsManager.disconnect(connection.id, 4100, "Kicked")).toBe(true);
+          expect(await closed).toBe(4100);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+
+          expect(disconnected[0]).toMatchObject({ reason: "server", code: 4100, message: "Kicked", connection });
+          expect(wsManager.getConnection(connection.id)).toBeNull();
+          expect(wsManager.disconnect(connection.id)).toBe(false);
+
+          await wsManager.stop();
+     });
+});
+
+describe("WebSocketManager admission control", () => {
+     const port = 4006;
+
+     const connect = (path = "", headers: Record<string, string> = {}) =>
+          new Promise<WebSocket | number>((resolve) => {
+               const ws = new WebSocket(`ws://localhost:${port}${path}`, { headers });
+               ws.on("open", () => resolve(ws));
+               ws.on("unexpected-response", (_request, response) => resolve(response.statusCode!));
+          });
+
+     const close = async (ws: WebSocket) => {
+          ws.close();
+          await new Promise((resolve) => ws.on("close", resolve));
+          await new Promise((resolve) => setTimeout(resolve, 20));
+     };
+
+     test("should refuse disallowed origins and connections over the limits", async () => {
+          const wsManager = new WebSocketManager({
+               port,
+               enableLogging: false,
+               admission: { maxConnections: 2, maxConnectionsPerUser: 1, allowedOrigins: ["https://app.example.com", /\.example\.org$/] },
+          });
+          await wsManager.start();
+          const token = wsManager.generateToken("alice");
+
+          expect(await connect("", { Origin: "https://evil.example.net" })).toBe(403);
+          const first = (await connect(`?token=${token}`, { Origin: "https://chat.example.org" })) as WebSocket;
+          expect(await connect(`?token=${token}`)).toBe(429);
+
+          const second = (await connect()) as WebSocket;
+          expect(await connect()).toBe(503);
+
+          await close(first);
+          const third = (await connect(`?token=${token}`)) as WebSocket;
+          expect(third).toBeInstanceOf(WebSocket);
+          expect(wsManager.getMetrics()).toContain('ws_admission_rejections_total{reason="capacity"} 1');
+
+          await close(second);
+          await close(third);
+          await wsManager.stop();
+     });
+
+     test("should limit connections and handshakes per IP address", async () => {
+          const wsManager = new WebSocketManager({
+               port,
+               enableLogging: false,
+               admission: { maxConnectionsPerIp: 1, handshakeRate: { capacity: 3, refillPerSecond: 0.5 } },
+          });
+          await wsManager.start();
+
+          const first = (await connect()) as WebSocket;
+          expect(await connect()).toBe(429);
+          await close(first);
+          const second = (await connect()) as WebSocket;
+          expect(second).toBeInstanceOf(WebSocket);
+          await close(second);
+
+          const refused = await new Promise<http.IncomingMessage>((resolve) => {
+               new WebSocket(`ws://localhost:${port}`).on("unexpected-response", (_request, response) => resolve(response));
+          });
+          expect(refused.statusCode).toBe(429);
+          expect(refused.headers["retry-after"]).toBe("2");
+
+          await wsManager.stop();
+     });
+
+     test("should report the forwarded address of connections behind a trusted proxy", async () => {
+          const wsManager = new WebSocketManager({
+               port,
+               enableLogging: false,
+               admission: { maxConnectionsPerIp: 1, handshakeRate: { capacity: 2, refillPerSecond: 0 }, trustProxy: true },
+          });
+          await wsManager.start();
+
+          const first = (await connect("", { "X-Forwarded-For": "198.51.100.1, 203.0.113.7" })) as WebSocket;
+          expect(wsManager.getConnections().map((connection) => connection.remoteAddress)).toEqual(["203.0.113.7"]);
+          expect(await connect("", { "X-Forwarded-For": "198.51.100.2, 203.0.113.7" })).toBe(429);
+
+          const refused = await new Promise<http.IncomingMessage>((resolve) => {
+               new WebSocket(`ws://localhost:${port}`, { headers: { "X-Forwarded-For": "203.0.113.7" } }).on("unexpected-response", (_request, response) => resolve(response));
+          });
+          expect(refused.statusCode).toBe(429);
+          expect(refused.headers["retry-after"]).toBe("3600");
+
+          await close(first);
+          await wsManager.stop();
+     });
+
+     test("should read the address appended by the outermost of several trusted proxies", async () => {
+          const wsManager = new WebSocketManager({ port, enableLogging: false, admission: { maxConnectionsPerIp: 1, trustProxy: 2 } });
+          await wsManager.start();
+
+          const first = (await connect("", { "X-Forwarded-For": "198.51.100.1, 203.0.113.7, 10.0.0.1" })) as WebSocket;
+          expect(wsManager.getConnections().map((connection) => connection.remoteAddress)).toEqual(["203.0.113.7"]);
+          expect(await connect("", { "X-Forwarded-For": "198.51.100.2, 203.0.113.7, 10.0.0.1" })).toBe(429);
+
+          await close(first);
+          await wsManager.stop();
+     });
+});
+
+describe("WebSocketManager compression", () => {
+     const port = 4007;
+
+     test("should compress messages according to the threshold and per-event policy", async () => {
+          const wsManager = new WebSocketManager({
+               port,
+               enableLogging: false,
+               compression: { enabled: true, threshold: 256, events: { "small:forced": true, "large:skipped": false }, sampleRate: 1 },
+          });
+          await wsManager.start();
+
+          const ws = new WebSocket(`ws://localhost:${port}`);
+          await new Promise((resolve) => ws.on("open", resolve));
+          expect(ws.extensions).toContain("permessage-deflate");
+
+          const received: IMessage<string>[] = [];
+          const done = new Promise<void>((resolve) => {
+               ws.on("message", (data) => {
+                    received.push(JSON.parse(data.toString()));
+                    if (received.length === 4) {
+                         resolve();
+                    }
+               });
+          });
+
+          const large = "a".repeat(2048);
+          wsManager.broadcast({ type: "large", content: large, sender: "server" });
+          wsManager.broadcast({ type: "small", content: "hello", sender: "server" });
+          wsManager.broadcast({ type: "small:forced", content: "hello", sender: "server" });
+          wsManager.broadcast({ type: "large:skipped", content: large, sender: "server" });
+          await done;
+
+          expect(received.map((message) => message.type)).toEqual(["large", "small", "small:forced", "large:skipped"]);
+          expect(received[0].content).toBe(large);
+          expect(wsManager.getMetrics()).toContain("ws_messages_compressed_total 2");
+
+          // Ratios are measured off the send path, one frame at a time: the second sample is skipped.
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          expect(wsManager.getMetrics()).toContain('ws_compression_ratio_count{kind="broadcast"} 1');
+
+          ws.close();
+          await new Promise((resolve) => ws.on("close", resolve));
+          await wsManager.stop();
+     });
+
+     test("should accept permessage-deflate offers without parameters", async () => {
+          const wsManager = new WebSocketManager({ port, enableLogging: false, compression: { enabled: true } });
+          await wsManager.start();
+
+          const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+               const request = http.request({
+                    port,
+                    headers: {
+                         Connection: "Upgrade",
+                         Upgrade: "websocket",
+                         "Sec-WebSocket-Version": "13",
+                         "Sec-WebSocket-Key": "dGhlIHNhbXBsZSBub25jZQ==",
+                         "Sec-WebSocket-Extensions": "permessage-deflate",
+                    },
+               });
+               request.on("upgrade", (upgradeResponse, socket) => {
+                    socket.destroy();
+                    resolve(upgradeResponse);
+               });
+               request.on("response", resolve);
+               request.on("error", reject);
+               request.end();
+          });
+
+          expect(response.statusCode).toBe(101);
+          expect(response.headers["sec-websocket-extensions"]).toContain("permessage-deflate");
+          expect(response.headers["sec-websocket-extensions"]).not.toContain("client_max_window_bits");
+
+          await wsManager.stop();
+     });
+});
+
+describe("WebSocketManager events", () => {
+     const port = 4008;
+     let wsManager: WebSocketManager;
+
+     const connect = async () => {
+          const ws = new WebSocket(`ws://localhost:${port}`);
+          await new Promise((resolve) => ws.on("open", resolve));
+          return ws;
+     };
+
+     const request = (ws: WebSocket, message: object) =>
+          new Promise<any>((resolve) => {
+               const onMessage = (data: WebSocket.RawData) => {
+                    const reply = JSON.parse(data.toString());
+                    if (reply.id === (message as IMessage).id) {
+                         ws.off("message", onMessage);
+                         resolve(reply);
+                    }
+               };
+               ws.on("message", onMessage);
+               ws.send(JSON.stringify(message));
+          });
+
+     beforeAll(async () => {
+          wsManager = new WebSocketManager({ port, enableLogging: false });
+          await wsManager.start();
+     });
+
+     afterAll(async () => {
+          await wsManager.stop();
+     });
+
+     test("should route messages to the handler registered for their type", async () => {
+          const handler = jest.fn((payload: { a: number; b: number }) => payload.a + payload.b);
+          wsManager.on("sum", handler);
+          const ws = await connect();
+
+          expect(await request(ws, { type: "sum", id: "1", content: { a: 1, b: 2 } })).toEqual({ type: "ack", id: "1", content: 3 });
+          expect(handler).toHaveBeenCalledWith({ a: 1, b: 2 }, expect.objectContaining({ user: "Anonymous", message: expect.objectContaining({ type: "sum" }) }));
+
+          ws.close();
+     });
+
+     test("should answer messages of unregistered types with an UNKNOWN_EVENT error", async () => {
+          const ws = await connect();
+
+          expect(await request(ws, { type: "nope", id: "1" })).toEqual({
+               type: "error",
+               id: "1",
+               code: "UNKNOWN_EVENT",
+               error: "Unknown event: nope",
+               details: { type: "nope" },
+          });
+
+          ws.close();
+     });
+
+     test("should answer with the error thrown by a handler", async () => {
+          wsManager.on("forbidden", () => {
+               throw new MessageError("FORBIDDEN", "Not allowed", { reason: "test" });
+          });
+          wsManager.on("crash", async () => {
+               throw new Error("boom");
+          });
+          const ws = await connect();
+
+          expect(await request(ws, { type: "forbidden", id: "1" })).toEqual({ type: "error", id: "1", code: "FORBIDDEN", error: "Not allowed", details: { reason: "test" } });
+          expect(await request(ws, { type: "crash", id: "2" })).toEqual({ type: "error", id: "2", code: "INTERNAL_ERROR", error: "Internal server error" });
+          expect(ws.readyState).toBe(WebSocket.OPEN);
+
+          ws.close();
+     });
+
+     test("should answer with an error when the result of a handler cannot be encoded", async () => {
+          const unhandled = jest.fn();
+          process.on("unhandledRejection", unhandled);
+          wsManager.on("bigint", () => BigInt(1));
+          wsManager.on("circular", () => {
+               const value: Record<string, unknown> = {};
+               value.self = value;
+               return value;
+          });
+          const ws = await connect();
+
+          expect(await request(ws, { type: "bigint", id: "1" })).toEqual({ type: "error", id: "1", code: "INTERNAL_ERROR", error: "Internal server error" });
+          expect(await request(ws, { type: "circular", id: "2" })).toEqual({ type: "error", id: "2", code: "INTERNAL_ERROR", error: "Internal server error" });
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          expect(unhandled).not.toHaveBeenCalled();
+          expect(ws.readyState).toBe(WebSocket.OPEN);
+
+          process.off("unhandledRejection", unhandled);
+          ws.close();
+     });
+
+     test("should close connections rejected by middleware with a truncated reason or a fallback code", async () => {
+          const unhandled = jest.fn();
+          process.on("unhandledRejection", unhandled);
+          wsManager.use("message", (context, next) => {
+               if (context.message.type === "long") {
+                    throw new RejectionError("é".repeat(100));
+               }
+               if (context.message.type === "invalid") {
+                    throw new RejectionError("Invalid code", 1005);
+               }
+               return next();
+          });
+          const closed = (ws: WebSocket) => new Promise<[number, string]>((resolve) => ws.on("close", (code, reason) => resolve([code, reason.toString()])));
+
+          const long = await connect();
+          long.send(JSON.stringify({ type: "long" }));
+          expect(await closed(long)).toEqual([1008, "é".repeat(61)]);
+
+          const invalid = await connect();
+          invalid.send(JSON.stringify({ type: "invalid" }));
+          expect(await closed(invalid)).toEqual([1008, "Invalid code"]);
+
+          expect(unhandled).not.toHaveBeenCalled();
+          process.off("unhandledRejection", unhandled);
+     });
+});
+
+describe("WebSocketManager heartbeats", () => {
+     const port = 4009;
+
+     const openRawSocket = () =>
+          new Promise<import("net").Socket>((resolve, reject) => {
+               const request = http.request({
+                    port,
+                    headers: {
+                         Connection: "Upgrade",
+                         Upgrade: "websocket",
+                         "Sec-WebSocket-Version": "13",
+                         "Sec-WebSocket-Key": "dGhlIHNhbXBsZSBub25jZQ==",
+                    },
+               });
+               request.on("upgrade", (_response, socket) => resolve(socket));
+               request.on("error", reject);
+               request.end();
+          });
+
+     test("should terminate connections that stop answering pings and keep the others", async () => {
+          const disconnected: IDisconnectInfo[] = [];
+          const wsManager = new WebSocketManager({
+               port,
+               enableLogging: false,
+               heartbeat: { interval: 50, maxMissedPongs: 2 },
+               onDisconnect: (info) => disconnected.push(info),
+          });
+          await wsManager.start();
+
+          const alive = new WebSocket(`ws://localhost:${port}`);
+          const dead = new WebSocket(`ws://localhost:${port}`, { autoPong: false });
+          await Promise.all([alive, dead].map((ws) => new Promise((resolve) => ws.on("open", resolve))));
+          const closed = new Promise<number>((resolve) => dead.on("close", resolve));
+
+          expect(await closed).toBe(1006);
+          await new Promise((resolve) => setTimeout(resolve, 200));
+          expect(disconnected).toEqual([expect.objectContaining({ reason: "timeout" })]);
+          expect(alive.readyState).toBe(WebSocket.OPEN);
+          expect(wsManager.getConnections()).toHaveLength(1);
+
+          alive.close();
+          await wsManager.stop();
+     });
+
+     test("should close dead connections once with code 4000 when not terminating them", async () => {
+          const disconnected: IDisconnectInfo[] = [];
+          const wsManager = new WebSocketManager({
+               port,
+               enableLogging: false,
+               heartbeat: { interval: 50, maxMissedPongs: 1, terminateOnTimeout: false },
+               onDisconnect: (info) => disconnected.push(info),
+          });
+          await wsManager.start();
+          const close = jest.spyOn(WebSocket.prototype, "close");
+
+          const socket = await openRawSocket();
+          await new Promise((resolve) => setTimeout(resolve, 400));
+          expect(close.mock.calls.filter(([code]) => code === 4000)).toHaveLength(1);
+          expect(disconnected).toHaveLength(0);
+
+          socket.destroy();
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          expect(disconnected).toEqual([expect.objectContaining({ reason: "timeout" })]);
+
+          close.mockRestore();
+          await wsManager.stop();
+     });
+});
+
+describe("WebSocketManager direct messages", () => {
+     const port = 4010;
+     let wsManager: WebSocketManager;
+
+     const connect = async (user: string) => {
+          const ws = new WebSocket(`ws://localhost:${port}?token=${wsManager.generateToken(user)}`);
+          const messages: IMessage[] = [];
+          ws.on("message", (data) => messages.push(JSON.parse(data.toString())));
+          await new Promise((resolve) => ws.on("open", resolve));
+          return { ws, messages };
+     };
+
+     const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+     beforeAll(async () => {
+          wsManager = new WebSocketManager({ port, secretKey: "directSecretKey", enableLogging: false });
+          await wsManager.start();
+     });
+
+     afterAll(async () => {
+          await wsManager.stop();
+     });
+
+     test("should deliver a message to every connection of its recipient only", async () => {
+          const [phone, laptop, bob, carol] = await Promise.all([connect("alice"), connect("alice"), connect("bob"), connect("carol")]);
+
+          bob.ws.send(JSON.stringify({ to: "alice", content: "Hey Alice!" }));
+          await settle();
+          expect(wsManager.sendToUser("alice", { sender: "server", content: "Hi!" })).toBe(true);
+          await settle();
+
+          for (const alice of [phone, laptop]) {
+               expect(alice.messages).toEqual([
+                    expect.objectContaining({ sender: "bob", to: "alice", content: "Hey Alice!" }),
+                    expect.objectContaining({ sender: "server", to: "alice", content: "Hi!" }),
+               ]);
+          }
+          expect(bob.messages).toEqual([]);
+          expect(carol.messages).toEqual([]);
+
+          [phone, laptop, bob, carol].forEach(({ ws }) => ws.close());
+     });
+
+     test("should answer messages to offline users with a USER_OFFLINE error", async () => {
+          const bob = await connect("bob");
+
+          bob.ws.send(JSON.stringify({ id: "1", to: "dave", content: "Anyone there?" }));
+          await settle();
+
+          expect(bob.messages).toEqual([
+               { type: "error", id: "1", code: "USER_OFFLINE", error: "Recipient is not connected", details: { to: "dave" } },
+          ]);
+          expect(wsManager.sendToUser("dave", { sender: "server", content: "Hi!" })).toBe(false);
+
+          bob.ws.close();
+     });
+
+     test("should ignore replies to a request from connections it was not sent to", async () => {
+          const [alice, bob] = await Promise.all([connect("alice"), connect("bob")]);
+
+          const reply = wsManager.request("alice", "confirm", { order: 1 });
+          await settle();
+          const [request] = alice.messages;
+          expect(request).toMatchObject({ type: "confirm", id: expect.any(String), content: { order: 1 } });
+
+          bob.ws.send(JSON.stringify({ type: "ack", id: request.id, content: "forged" }));
+          await settle();
+          alice.ws.send(JSON.stringify({ type: "ack", id: request.id, content: "confirmed" }));
+          expect(await reply).toBe("confirmed");
+
+          [alice, bob].forEach(({ ws }) => ws.close());
+     });
+
+     test("should not address anonymous connections as a user", async () => {
+          const bob = await connect("bob");
+          const anonymous = new WebSocket(`ws://localhost:${port}`);
+          const received: IMessage[] = [];
+          anonymous.on("message", (data) => received.push(JSON.parse(data.toString())));
+          await new Promise((resolve) => anonymous.on("open", resolve));
+
+          bob.ws.send(JSON.stringify({ id: "1", to: "Anonymous", content: "Hello, everyone?" }));
+          await settle();
+
+          expect(bob.messages).toEqual([
+               { type: "error", id: "1", code: "USER_OFFLINE", error: "Recipient is not connected", details: { to: "Anonymous" } },
+          ]);
+          expect(wsManager.sendToUser("Anonymous", { sender: "server", content: "Hi!" })).toBe(false);
+          expect(wsManager.disconnectUser("Anonymous")).toBe(0);
+          await settle();
+          expect(received).toEqual([]);
+          expect(anonymous.readyState).toBe(WebSocket.OPEN);
+
+          [bob.ws, anonymous].forEach((ws) => ws.close());
+     });
+});
+
+describe("WebSocketManager history replay", () => {
+     const port = 4011;
+
+     test("should replay missed messages in order, then flush the live messages held back without duplicates", async () => {
+          const store = new InMemoryMessageStore();
+          let openGate!: () => void;
+          const gate = new Promise<void>((resolve) => (openGate = resolve));
+          let afterRead = () => {};
+          const messageStore: IMessageStore = {
+               append: (stream, message) => store.append(stream, message),
+               since: async (streams, seq, limit) => {
+                    await gate;
+                    const messages = store.since(streams, seq, limit);
+                    afterRead();
+                    return messages;
+               },
+          };
+          const wsManager = new WebSocketManager({ port, secretKey: "historySecretKey", enableLogging: false, messageStore });
+          await wsManager.start();
+          try {
+               [1, 2, 3].forEach((n) => wsManager.broadcast({ sender: "server", content: n }));
+
+               const ws = new WebSocket(`ws://localhost:${port}?token=${wsManager.generateToken("alice")}`);
+               const received: IMessage[] = [];
+               ws.on("message", (data) => received.push(JSON.parse(data.toString())));
+               await new Promise((resolve) => ws.on("open", resolve));
+
+               ws.send(JSON.stringify({ type: "history:replay", id: "1", content: { since: 1 } }));
+               await new Promise((resolve) => setTimeout(resolve, 50));
+               wsManager.broadcast({ sender: "server", content: 4 });
+               wsManager.sendToUser("alice", { sender: "server", content: "direct" });
+               afterRead = () => wsManager.broadcast({ sender: "server", content: 5 });
+               openGate();
+               await new Promise((resolve) => setTimeout(resolve, 100));
+
+               expect(received.map(({ type, seq, content }) => ({ type, seq, content }))).toEqual([
+                    { type: undefined, seq: 2, content: 2 },
+                    { type: undefined, seq: 3, content: 3 },
+                    { type: undefined, seq: 4, content: 4 },
+                    { type: "history:replayed", seq: undefined, content: { since: 1, count: 3, lastSeq: 4 } },
+                    { type: undefined, seq: undefined, content: "direct" },
+                    { type: undefined, seq: 5, content: 5 },
+                    { type: "ack", seq: undefined, content: undefined },
+               ]);
+
+               ws.close();
+          } finally {
+               await wsManager.stop();
+          }
+     });
+
+     test("should replay room messages with their room", async () => {
+          const wsManager = new WebSocketManager({ port, secretKey: "historySecretKey", enableLogging: false });
+          await wsManager.start();
+          try {
+               const ws = new WebSocket(`ws://localhost:${port}?token=${wsManager.generateToken("alice")}`);
+               const received: IMessage[] = [];
+               ws.on("message", (data) => received.push(JSON.parse(data.toString())));
+               await new Promise((resolve) => ws.on("open", resolve));
+               ws.send(JSON.stringify({ type: "room:join", room: "lobby", id: "1" }));
+               await new Promise((resolve) => setTimeout(resolve, 50));
+
+               wsManager.broadcastToRoom("lobby", { sender: "server", content: "hello lobby" });
+               wsManager.broadcast({ sender: "server", content: "hello all" });
+               await new Promise((resolve) => setTimeout(resolve, 50));
+               received.length = 0;
+
+               ws.send(JSON.stringify({ type: "history:replay", id: "2", content: { since: 0 } }));
+               await new Promise((resolve) => setTimeout(resolve, 50));
+
+               expect(received.slice(0, 2)).toEqual([
+                    expect.objectContaining({ seq: 1, room: "lobby", content: "hello lobby" }),
+                    expect.objectContaining({ seq: 2, content: "hello all" }),
+               ]);
+               expect(received[1].room).toBeUndefined();
+
+               ws.close();
+          } finally {
+               await wsManager.stop();
+          }
+     });
+
+     test("should run overlapping replays of a connection one after the other", async () => {
+          let openGate!: () => void;
+          const gate = new Promise<void>((resolve) => (openGate = resolve));
+          const store = new InMemoryMessageStore();
+          let reads = 0;
+          const messageStore: IMessageStore = {
+               append: (stream, message) => store.append(stream, message),
+               since: async (streams, seq, limit) => {
+                    if (reads++ === 0) {
+                         await gate;
+                    }
+                    return store.since(streams, seq, limit);
+               },
+          };
+          const wsManager = new WebSocketManager({ port, secretKey: "historySecretKey", enableLogging: false, messageStore });
+          await wsManager.start();
+          try {
+               [1, 2].forEach((n) => wsManager.broadcast({ sender: "server", content: n }));
+
+               const ws = new WebSocket(`ws://localhost:${port}?token=${wsManager.generateToken("alice")}`);
+               const received: IMessage[] = [];
+               ws.on("message", (data) => received.push(JSON.parse(data.toString())));
+               await new Promise((resolve) => ws.on("open", resolve));
+
+               ws.send(JSON.stringify({ type: "history:replay", id: "1", content: { since: 0 } }));
+               ws.send(JSON.stringify({ type: "history:replay", id: "2", content: { since: 0 } }));
+               await new Promise((resolve) => setTimeout(resolve, 50));
+               wsManager.broadcast({ sender: "server", content: 3 });
+               openGate();
+               await new Promise((resolve) => setTimeout(resolve, 100));
+
+               expect(received.map(({ type, id, seq }) => ({ type, id, seq }))).toEqual([
+                    { type: undefined, id: undefined, seq: 1 },
+                    { type: undefined, id: undefined, seq: 2 },
+                    { type: undefined, id: undefined, seq: 3 },
+                    { type: "history:replayed", id: undefined, seq: undefined },
+                    { type: "ack", id: "1", seq: undefined },
+                    { type: undefined, id: undefined, seq: 1 },
+                    { type: undefined, id: undefined, seq: 2 },
+                    { type: undefined, id: undefined, seq: 3 },
+                    { type: "history:replayed", id: undefined, seq: undefined },
+                    { type: "ack", id: "2", seq: undefined },
+               ]);
+
+               ws.close();
+          } finally {
+               await wsManager.stop();
+          }
+     });
+});
+
+describe("WebSocketManager backpressure", () => {
+     const port = 4013;
+
+     test("should close connections that send requests without reading the replies", async () => {
+          const disconnects: IDisconnectInfo[] = [];
+          const wsManager = new WebSocketManager({
+               port,
+               enableLogging: false,
+               backpressure: { maxControlQueueSize: 5 },
+               onDisconnect: (info) => disconnects.push(info),
+          });
+          wsManager.on("echo", (payload) => payload);
+          await wsManager.start();
+          const bufferedAmount = jest.spyOn(WebSocket.prototype, "bufferedAmount", "get");
+
+          try {
+               const ws = new WebSocket(`ws://localhost:${port}`);
+               const closed = new Promise<number>((resolve) => ws.on("close", resolve));
+               await new Promise((resolve) => ws.on("open", resolve));
+               bufferedAmount.mockReturnValue(Number.MAX_SAFE_INTEGER);
+
+               for (let id = 0; id < 10; id++) {
+                    ws.send(JSON.stringify({ type: "echo", id: String(id), content: id }));
+               }
+
+               expect(await closed).toBe(4003);
+               await new Promise((resolve) => setTimeout(resolve, 20));
+               expect(disconnects).toEqual([expect.objectContaining({ reason: "slow", code: 4003 })]);
+          } finally {
+               bufferedAmount.mockRestore();
+               await wsManager.stop();
+          }
+     });
+});